@@ -4,8 +4,16 @@ export default {
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
+  transform: {
+    // The supervisor modules the orchestrator imports do not type-check yet
+    '^.+\\.ts$': ['ts-jest', { useESM: true, diagnostics: { exclude: ['**/src/agents/supervisor*.ts'] } }],
+    // The MCP SDK is published as ES modules only
+    '^.+/@modelcontextprotocol/sdk/.+\\.js$': ['ts-jest', { useESM: true, tsconfig: { allowJs: true } }],
+  },
+  transformIgnorePatterns: ['/node_modules/(?!@modelcontextprotocol/sdk/)'],
   testEnvironment: 'node',
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
@@ -1,15 +1,25 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
+import { readFile } from 'fs/promises';
 import { config } from 'dotenv';
 import { Orchestrator } from '../../orchestrator/index.js';
+import { TaskQueue } from '../../orchestrator/task-queue.js';
+import { ReputationStore, reputationScore, type ReputationProfile } from '../../orchestrator/reputation-store.js';
+import { OrchestratorMCPServer } from '../../mcp/orchestrator-server.js';
+import { readEventStream } from '../../mcp/http-transport.js';
 import { loadConfig } from '../../utils/config.js';
 import { Logger } from '../../utils/logger.js';
-import type { Task } from '../../types/index.js';
+import type { Task, TaskEvent, TaskQueueConfig } from '../../types/index.js';
 
 // Load environment variables
 config();
 
+// In MCP server mode stdout carries the protocol, so logs go to stderr
+if (process.argv[2] === 'mcp-serve') {
+  process.env.LOG_STDERR = 'true';
+}
+
 const logger = new Logger('CLI');
 const program = new Command();
 
@@ -91,11 +101,12 @@ taskCmd
   .option('-a, --agents <count>', 'Number of agents to use', '3')
   .option('-t, --timeout <ms>', 'Task timeout in milliseconds', '300000')
   .option('--priority <level>', 'Task priority (1-10)', '5')
+  .option('-d, --detach', 'Queue the task and exit without waiting for the result')
+  .option('--pipeline <path>', 'YAML or JSON pipeline definition for the pipeline pattern')
   .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
   .action(async (description, options) => {
     try {
       const config = await loadConfig(options.config);
-      const orchestrator = new Orchestrator(config);
 
       const task: Task = {
         id: `task-${Date.now()}`,
@@ -110,13 +121,35 @@ taskCmd
         }
       };
 
+      if (options.pipeline) {
+        // Inline the definition so a detached task does not depend on this process's files
+        task.pattern = 'pipeline';
+        task.context = { pipeline: await readFile(options.pipeline, 'utf8') };
+      }
+
+      if (options.detach) {
+        // Detached tasks are picked up by a running orchestrator sharing the Redis queue
+        const queue = await openSharedQueue(config.taskQueue, '--detach');
+        await queue.enqueue(task);
+        await queue.stop();
+
+        console.log(`Task queued: ${task.id}`);
+        console.log(`Check progress with: claude-orchestrate task status ${task.id}`);
+        return;
+      }
+
+      const orchestrator = new Orchestrator(config);
       await orchestrator.start();
       
       logger.info(`Submitting task: ${description}`);
-      const result = await orchestrator.execute(task);
+      const taskId = await orchestrator.submit(task);
+      if (task.pattern === 'pipeline') {
+        exitWithResumeHint(taskId, orchestrator);
+      }
+      const record = await orchestrator.waitFor(taskId);
       
       console.log('\n=== Task Result ===');
-      console.log(JSON.stringify(result, null, 2));
+      console.log(JSON.stringify(record.result ?? record, null, 2));
       
       await orchestrator.stop();
     } catch (error) {
@@ -125,6 +158,201 @@ taskCmd
     }
   });
 
+taskCmd
+  .command('status')
+  .description('Show the state of a submitted task')
+  .argument('<id>', 'Task id')
+  .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const queue = await openSharedQueue(config.taskQueue, 'task status');
+      const record = await queue.getRecord(id);
+      await queue.stop();
+
+      if (!record) {
+        throw new Error(`Task not found: ${id}`);
+      }
+
+      console.log(JSON.stringify(record, null, 2));
+    } catch (error) {
+      logger.error('Failed to get task status:', error);
+      process.exit(1);
+    }
+  });
+
+taskCmd
+  .command('watch')
+  .description('Follow a task\'s progress live through a running orchestrator')
+  .argument('<id>', 'Task id')
+  .option('-u, --url <url>', 'Monitoring URL of the orchestrator running the task (default http://localhost:<monitoring port>)')
+  .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const base = options.url || `http://localhost:${config.monitoring.port}`;
+      const response = await fetch(new URL(`/api/task-events?taskId=${encodeURIComponent(id)}`, base));
+      if (!response.ok || !response.body) {
+        throw new Error(`${base} responded ${response.status} ${response.statusText}`);
+      }
+
+      let finished: TaskEvent | undefined;
+      await readEventStream(response.body, ({ event, data }) => {
+        if (event !== 'task') {
+          return;
+        }
+        const taskEvent: TaskEvent = JSON.parse(data);
+        console.log(formatTaskEvent(taskEvent));
+        if (taskEvent.type === 'task.finished') {
+          finished = taskEvent;
+        }
+      });
+
+      if (!finished) {
+        throw new Error('The orchestrator closed the stream before the task finished');
+      }
+      process.exit(finished.type === 'task.finished' && finished.state === 'succeeded' ? 0 : 1);
+    } catch (error) {
+      logger.error('Failed to watch task:', error);
+      process.exit(1);
+    }
+  });
+
+taskCmd
+  .command('cancel')
+  .description('Cancel a queued or running task')
+  .argument('<id>', 'Task id')
+  .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const queue = await openSharedQueue(config.taskQueue, 'task cancel');
+      const cancelled = await queue.cancel(id);
+      await queue.stop();
+
+      if (!cancelled) {
+        throw new Error(`Task ${id} is unknown or already finished`);
+      }
+
+      console.log(`Task cancelled: ${id}`);
+    } catch (error) {
+      logger.error('Failed to cancel task:', error);
+      process.exit(1);
+    }
+  });
+
+taskCmd
+  .command('resume')
+  .description('Continue an interrupted pipeline task from its last checkpoint')
+  .argument('<id>', 'Task id')
+  .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const orchestrator = new Orchestrator(config);
+      await orchestrator.start();
+
+      logger.info(`Resuming task: ${id}`);
+      const taskId = await orchestrator.resume(id);
+      exitWithResumeHint(taskId, orchestrator);
+      const record = await orchestrator.waitFor(taskId);
+
+      console.log('\n=== Task Result ===');
+      console.log(JSON.stringify(record.result ?? record, null, 2));
+
+      await orchestrator.stop();
+    } catch (error) {
+      logger.error('Failed to resume task:', error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * The Redis queue the running orchestrators share. A queue of this process's
+ * own would be empty, so commands that look up tasks by id need the shared one.
+ */
+async function openSharedQueue(queueConfig: TaskQueueConfig, command: string): Promise<TaskQueue> {
+  if (!queueConfig.redisUrl) {
+    throw new Error(`${command} requires a shared task queue; set REDIS_URL or taskQueue.redisUrl`);
+  }
+
+  const queue = new TaskQueue(queueConfig);
+  await queue.start();
+  return queue;
+}
+
+/**
+ * One line per task event for `task watch`
+ */
+function formatTaskEvent(event: TaskEvent): string {
+  const time = new Date(event.timestamp).toLocaleTimeString();
+  switch (event.type) {
+    case 'task.queued':
+      return `${time}  queued      ${event.pattern}: ${event.description}`;
+    case 'task.started':
+      return `${time}  started     attempt ${event.attempt}`;
+    case 'task.retrying':
+      return `${time}  retrying    attempt ${event.attempt} failed (${event.error}), next in ${event.delay}ms`;
+    case 'phase.entered':
+      return `${time}  phase       ${event.phase}${event.iteration !== undefined ? ` ${event.iteration}` : ''}`;
+    case 'agent.assigned':
+      return `${time}  agent       ${event.agentId}${event.role ? ` as ${event.role}` : ''}${event.stage ? ` on stage ${event.stage}` : ''}`;
+    case 'stage.completed':
+      return `${time}  stage       ${event.stage} ${event.status} after ${event.attempts} attempt(s)${event.error ? `: ${event.error}` : ''}`;
+    case 'proposal.made':
+      return `${time}  proposal    ${event.proposalId} by ${event.agentId} (confidence ${event.confidence.toFixed(2)})`;
+    case 'vote.cast':
+      return `${time}  vote        ${event.agentId} ${event.support ? 'supports' : 'scores'} ${event.proposalId} (${event.confidence.toFixed(2)})`;
+    case 'task.finished':
+      return `${time}  finished    ${event.state}${event.executionTime !== undefined ? ` in ${event.executionTime}ms` : ''}${event.error ? `: ${event.error}` : ''}`;
+  }
+}
+
+/**
+ * Completed pipeline stages are checkpointed, so an interrupted run can be picked up later.
+ * Agents run in process groups of their own that Ctrl-C doesn't reach, so the
+ * orchestrator is stopped to kill them before exiting.
+ */
+function exitWithResumeHint(taskId: string, orchestrator: Orchestrator): void {
+  process.once('SIGINT', () => {
+    console.log(`\nInterrupted. Continue with: claude-orchestrate task resume ${taskId}`);
+    orchestrator.stop()
+      .catch(error => logger.error('Failed to stop orchestrator:', error))
+      .finally(() => process.exit(130));
+  });
+}
+
+// MCP server mode
+program
+  .command('mcp-serve')
+  .description('Serve the orchestrator as an MCP server on stdin/stdout')
+  .option('-c, --config <path>', 'Configuration file path', './config/orchestrator.yaml')
+  .action(async (options) => {
+    try {
+      // Agents print progress with console.log, which would corrupt the protocol stream
+      console.log = console.error;
+
+      const config = await loadConfig(options.config);
+      const orchestrator = new Orchestrator(config);
+      await orchestrator.start();
+
+      const server = new OrchestratorMCPServer(orchestrator);
+      const shutdown = async () => {
+        await server.stop();
+        await orchestrator.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+      process.stdin.on('end', shutdown);
+
+      await server.start();
+    } catch (error) {
+      logger.error('Failed to start MCP server:', error);
+      process.exit(1);
+    }
+  });
+
 // Agent management commands
 const agentCmd = program
   .command('agents')
@@ -164,6 +392,54 @@ agentCmd
     }
   });
 
+// Swarm commands
+const swarmCmd = program
+  .command('swarm')
+  .description('Swarm pattern commands');
+
+swarmCmd
+  .command('stats')
+  .description('Show the leaderboard of swarm roles built up across tasks')
+  .option('-s, --storage <path>', 'Storage path the orchestrator persists to (storage.path)', './data')
+  .option('--json', 'Print the profiles as JSON')
+  .action(async (options) => {
+    try {
+      const profiles = await new ReputationStore(options.storage).leaderboard();
+
+      if (options.json) {
+        console.log(JSON.stringify(profiles, null, 2));
+      } else if (profiles.length === 0) {
+        console.log(`No swarm history under ${options.storage} yet`);
+      } else {
+        console.log(formatLeaderboard(profiles));
+      }
+    } catch (error) {
+      logger.error('Failed to show swarm stats:', error);
+      process.exit(1);
+    }
+  });
+
+function formatLeaderboard(profiles: ReputationProfile[]): string {
+  const rows = profiles.map((profile, index) => {
+    const topSpecialty = Object.entries(profile.specialties).sort((a, b) => b[1] - a[1])[0]?.[0];
+    return [
+      String(index + 1),
+      profile.profile,
+      reputationScore(profile).toFixed(2),
+      `${(profile.successRate * 100).toFixed(0)}%`,
+      String(profile.runs),
+      String(profile.swarms),
+      `${(profile.averageTime / 1000).toFixed(1)}s`,
+      topSpecialty || '-'
+    ];
+  });
+  const header = ['#', 'Profile', 'Score', 'Success', 'Runs', 'Swarms', 'Avg time', 'Top specialty'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  return [header, ...rows]
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
 // Interactive mode
 program
   .command('interactive')
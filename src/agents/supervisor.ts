@@ -30,6 +30,8 @@ export interface TeamMetrics {
   issuesResolved: number;
   blockedTasks: number;
   teamEfficiency: number;
+  tokensUsed: number;
+  costUsd: number;
 }
 
 export interface WorkSession {
@@ -83,7 +85,9 @@ export class Supervisor extends EventEmitter {
       agentUtilization: 0,
       issuesResolved: 0,
       blockedTasks: 0,
-      teamEfficiency: 0
+      teamEfficiency: 0,
+      tokensUsed: 0,
+      costUsd: 0
     };
 
     this.setupEventHandlers();
@@ -659,6 +663,12 @@ export class Supervisor extends EventEmitter {
 
   private async updateMetrics(task: Task, result: TaskResult): Promise<void> {
     this.metrics.tasksCompleted++;
+
+    const usage = result.metadata?.tokenUsage;
+    if (usage) {
+      this.metrics.tokensUsed += usage.inputTokens + usage.outputTokens;
+      this.metrics.costUsd += usage.costUsd;
+    }
     
     if (result.success) {
       this.metrics.averageQuality = (this.metrics.averageQuality + (result.qualityScore || 0)) / 2;
@@ -0,0 +1,227 @@
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import { Logger } from '../utils/logger.js';
+import type { MCPManager, MCPTool } from './server.js';
+import type { AgentToolContext } from './tool-policy.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+const SERVER_INFO = { name: 'claude-orchestration-tools', version: '0.1.0' };
+const SERVER_NAME = 'orchestrator';
+
+export interface AgentToolGatewayOptions {
+  host?: string;
+  /** 0 picks a free port */
+  port?: number;
+}
+
+/**
+ * One agent run as the gateway sees it: the agent and the task, role and
+ * capabilities its tool calls are checked and audited against
+ */
+export interface AgentRunContext extends AgentToolContext {
+  agentId: string;
+}
+
+export interface AgentToolSession {
+  /** Name of the gateway in mcpConfig; the CLI calls its tools mcp__<serverName>__... */
+  serverName: string;
+  url: string;
+  /** MCP config (Claude Desktop's `mcpServers` format) that points the CLI at the gateway */
+  mcpConfig: string;
+  close: () => void;
+}
+
+/**
+ * AgentToolGateway - Serves the tools of MCPManager's servers to the agents'
+ * CLI processes over MCP (HTTP+SSE on localhost). Every agent run opens a
+ * session with a URL of its own, so each call it makes is routed through
+ * MCPManager.callTool() with the run's agent, task, role and capabilities:
+ * the tool policy applies and the call lands in the task's audit log. A run
+ * is only shown the tools its policy allows.
+ *
+ * Tools are listed as "<server>__<tool>", since MCP tool names cannot
+ * contain the ":" of MCPManager's qualified names.
+ */
+export class AgentToolGateway {
+  private mcpManager: MCPManager;
+  private options: AgentToolGatewayOptions;
+  private logger: Logger;
+  private httpServer?: HttpServer;
+  private baseUrl?: string;
+  private runs: Map<string, AgentRunContext> = new Map();
+  private connections: Map<string, { token: string; server: Server; handlePost: (req: IncomingMessage, res: ServerResponse) => Promise<void> }> = new Map();
+
+  constructor(mcpManager: MCPManager, options: AgentToolGatewayOptions = {}) {
+    this.mcpManager = mcpManager;
+    this.options = options;
+    this.logger = new Logger('AgentToolGateway');
+  }
+
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new Error('Agent tool gateway is already running');
+    }
+
+    const host = this.options.host || '127.0.0.1';
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.logger.error('Failed to handle gateway request:', error);
+        if (!res.headersSent) {
+          res.writeHead(500).end(error instanceof Error ? error.message : String(error));
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port ?? 0, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.baseUrl = `http://${host}:${(httpServer.address() as AddressInfo).port}`;
+    this.logger.info('Agent tool gateway started', { url: this.baseUrl });
+  }
+
+  async stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    if (!httpServer) {
+      return;
+    }
+
+    this.httpServer = undefined;
+    this.baseUrl = undefined;
+    this.runs.clear();
+    await Promise.all(Array.from(this.connections.values()).map(({ server }) => server.close().catch(() => {})));
+    this.connections.clear();
+
+    // Event streams stay open until the client goes away
+    httpServer.closeAllConnections();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    this.logger.info('Agent tool gateway stopped');
+  }
+
+  isRunning(): boolean {
+    return !!this.httpServer;
+  }
+
+  /**
+   * Register an agent run. The session's URL only works until close() is
+   * called, which also drops the run's open connections.
+   */
+  openSession(context: AgentRunContext): AgentToolSession {
+    if (!this.baseUrl) {
+      throw new Error('Agent tool gateway is not running');
+    }
+
+    const token = randomUUID();
+    this.runs.set(token, context);
+    const url = `${this.baseUrl}/runs/${token}/sse`;
+
+    return {
+      serverName: SERVER_NAME,
+      url,
+      mcpConfig: JSON.stringify({ mcpServers: { [SERVER_NAME]: { type: 'sse', url } } }),
+      close: () => this.closeSession(token)
+    };
+  }
+
+  private closeSession(token: string): void {
+    this.runs.delete(token);
+    for (const [sessionId, connection] of this.connections) {
+      if (connection.token === token) {
+        this.connections.delete(sessionId);
+        connection.server.close().catch(() => {});
+      }
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl);
+    const match = url.pathname.match(/^\/runs\/([\w-]+)\/(sse|messages)$/);
+    const context = match ? this.runs.get(match[1]) : undefined;
+    if (!match || !context) {
+      res.writeHead(404).end('Unknown agent run');
+      return;
+    }
+
+    const [, token, endpoint] = match;
+    if (endpoint === 'sse' && req.method === 'GET') {
+      await this.openConnection(token, context, res);
+      return;
+    }
+    if (endpoint === 'messages' && req.method === 'POST') {
+      const connection = this.connections.get(url.searchParams.get('sessionId') || '');
+      if (!connection || connection.token !== token) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      await connection.handlePost(req, res);
+      return;
+    }
+
+    res.writeHead(405).end();
+  }
+
+  private async openConnection(token: string, context: AgentRunContext, res: ServerResponse): Promise<void> {
+    // The SDK is published as ES modules only
+    const [{ Server }, { SSEServerTransport }, { ListToolsRequestSchema, CallToolRequestSchema }] = await Promise.all([
+      import('@modelcontextprotocol/sdk/server/index.js'),
+      import('@modelcontextprotocol/sdk/server/sse.js'),
+      import('@modelcontextprotocol/sdk/types.js')
+    ]);
+
+    const transport = new SSEServerTransport(`/runs/${token}/messages`, res);
+    const server = new Server(SERVER_INFO);
+    const policy = this.mcpManager.getToolPolicy();
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.mcpManager.listTools()
+        .filter(tool => policy.check(context, tool.server, tool.name).allowed)
+        .map(tool => ({
+          name: this.exposedName(tool),
+          description: tool.description,
+          inputSchema: tool.inputSchema
+        }))
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.callTool(context, request.params.name, request.params.arguments || {})
+    );
+
+    const sessionId = transport.sessionId;
+    this.connections.set(sessionId, {
+      token,
+      server,
+      handlePost: (req, postRes) => transport.handlePostMessage(req, postRes)
+    });
+    server.onclose = () => {
+      this.connections.delete(sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  private async callTool(context: AgentRunContext, name: string, args: Record<string, any>) {
+    const tool = this.mcpManager.listTools().find(candidate => this.exposedName(candidate) === name);
+    // Unknown names still go through callTool so the failure is audited
+    const result = await this.mcpManager.callTool(context.agentId, tool ? `${tool.server}:${tool.name}` : name, args, {
+      taskId: context.taskId,
+      role: context.role,
+      capabilities: context.capabilities,
+      traceContext: context.traceContext
+    });
+
+    if (!result.success) {
+      return { content: [{ type: 'text' as const, text: result.error || `Tool ${name} failed` }], isError: true };
+    }
+    return {
+      content: Array.isArray(result.result)
+        ? result.result
+        : [{ type: 'text' as const, text: typeof result.result === 'string' ? result.result : JSON.stringify(result.result) }]
+    };
+  }
+
+  private exposedName(tool: MCPTool): string {
+    return `${tool.server}__${tool.name}`;
+  }
+}
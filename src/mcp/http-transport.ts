@@ -0,0 +1,267 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Read a text/event-stream body and hand every complete event to onEvent.
+ * Resolves when the stream ends.
+ */
+export async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line === '' || line.startsWith(':')) {
+        continue;
+      }
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    }
+    if (data.length > 0) {
+      onEvent({ event, data: data.join('\n') });
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const match = buffer.slice(boundary).match(/^\r?\n\r?\n/)!;
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + match[0].length);
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  if (buffer.trim() !== '') {
+    dispatch(buffer);
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Base for the HTTP transports: shared headers, abort handling and a single
+ * onclose notification however the connection ends
+ */
+abstract class HttpTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  protected url: URL;
+  protected headers: Record<string, string>;
+  protected abortController = new AbortController();
+  private closed = false;
+
+  constructor(url: string | URL, headers: Record<string, string> = {}) {
+    this.url = new URL(url);
+    this.headers = headers;
+  }
+
+  abstract start(): Promise<void>;
+  abstract send(message: JSONRPCMessage): Promise<void>;
+
+  async close(): Promise<void> {
+    this.finish();
+  }
+
+  protected finish(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.abortController.abort();
+    this.onclose?.();
+  }
+
+  protected get isClosed(): boolean {
+    return this.closed;
+  }
+
+  protected deliver(data: string): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      this.onerror?.(new Error(`Invalid JSON-RPC message from ${this.url.href}: ${toError(error).message}`));
+      return;
+    }
+
+    for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+      this.onmessage?.(message as JSONRPCMessage);
+    }
+  }
+}
+
+/**
+ * Client side of the MCP HTTP+SSE transport: server messages arrive on a
+ * long-lived event stream whose first `endpoint` event names the URL that
+ * client messages are POSTed to. Unlike the SDK's SSEClientTransport it runs
+ * on fetch, so it needs no EventSource polyfill and can send auth headers.
+ */
+export class SseClientTransport extends HttpTransport {
+  private endpoint?: URL;
+
+  async start(): Promise<void> {
+    const response = await fetch(this.url, {
+      headers: { ...this.headers, Accept: 'text/event-stream' },
+      signal: this.abortController.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`SSE connection to ${this.url.href} failed (HTTP ${response.status})`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let ready = false;
+
+      readEventStream(response.body!, ({ event, data }) => {
+        if (event === 'endpoint') {
+          try {
+            const endpoint = new URL(data, this.url);
+            if (endpoint.origin !== this.url.origin) {
+              throw new Error(`Endpoint origin ${endpoint.origin} does not match ${this.url.origin}`);
+            }
+            this.endpoint = endpoint;
+            ready = true;
+            resolve();
+          } catch (error) {
+            reject(toError(error));
+            this.finish();
+          }
+        } else if (event === 'message') {
+          this.deliver(data);
+        }
+      }).then(() => {
+        if (!ready) {
+          reject(new Error(`SSE stream from ${this.url.href} ended before announcing an endpoint`));
+        }
+        this.finish();
+      }, (error) => {
+        if (!ready) {
+          reject(toError(error));
+        } else if (!this.isClosed) {
+          this.onerror?.(toError(error));
+        }
+        this.finish();
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`POST to ${this.endpoint.href} failed (HTTP ${response.status})${text ? `: ${text}` : ''}`);
+    }
+  }
+}
+
+/**
+ * Client side of the MCP streamable HTTP transport: every message is POSTed
+ * to a single URL and the reply comes back either as JSON or as an event
+ * stream. The session id the server assigns is echoed on later requests and
+ * the session is ended with a DELETE on close.
+ */
+export class StreamableHttpClientTransport extends HttpTransport {
+  private sessionId?: string;
+
+  async start(): Promise<void> {
+    // Nothing to open up front; the initialize request starts the session
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream'
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      // The server forgot the session; a fresh connection has to initialize again
+      this.finish();
+      throw new Error(`MCP session ${this.sessionId} expired on ${this.url.href}`);
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`POST to ${this.url.href} failed (HTTP ${response.status})${text ? `: ${text}` : ''}`);
+    }
+    if (response.status === 202 || response.status === 204 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      readEventStream(response.body, ({ event, data }) => {
+        if (event === 'message') {
+          this.deliver(data);
+        }
+      }).catch(error => {
+        if (!this.isClosed) {
+          this.onerror?.(toError(error));
+        }
+      });
+      return;
+    }
+
+    const text = await response.text();
+    if (text.trim() !== '') {
+      this.deliver(text);
+    }
+  }
+
+  async close(): Promise<void> {
+    const sessionId = this.isClosed ? undefined : this.sessionId;
+    this.finish();
+
+    // Best effort: a server that stopped answering must not hold up the close
+    if (sessionId) {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { ...this.headers, 'Mcp-Session-Id': sessionId },
+        signal: AbortSignal.timeout(2000)
+      }).catch(() => {});
+    }
+  }
+}
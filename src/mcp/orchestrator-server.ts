@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/logger.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { Orchestrator } from '../orchestrator/index.js';
+import type { ExecutionPattern, Task } from '../types/index.js';
+
+const SERVER_INFO = { name: 'claude-orchestration', version: '0.1.0' };
+const PATTERNS: ExecutionPattern[] = ['swarm', 'pipeline', 'consensus', 'mapreduce'];
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  handler: (args: Record<string, any>) => Promise<any>;
+}
+
+/**
+ * OrchestratorMCPServer - Serves the orchestrator itself over MCP, so an
+ * interactive Claude session can hand swarm or pipeline work to it, follow
+ * the tasks and use the shared memory.
+ *
+ * The orchestrator must be started before the server.
+ */
+export class OrchestratorMCPServer {
+  private orchestrator: Orchestrator;
+  private logger: Logger;
+  private server?: Server;
+  private tools: ToolDefinition[];
+
+  constructor(orchestrator: Orchestrator) {
+    this.orchestrator = orchestrator;
+    this.logger = new Logger('OrchestratorMCPServer');
+    this.tools = this.defineTools();
+  }
+
+  /**
+   * Serve on the given transport, or on stdin/stdout when none is given
+   */
+  async start(transport?: Transport): Promise<void> {
+    if (this.server) {
+      throw new Error('Orchestrator MCP server is already running');
+    }
+
+    // The SDK is published as ES modules only
+    const [{ Server }, { StdioServerTransport }, { ListToolsRequestSchema, CallToolRequestSchema }] = await Promise.all([
+      import('@modelcontextprotocol/sdk/server/index.js'),
+      import('@modelcontextprotocol/sdk/server/stdio.js'),
+      import('@modelcontextprotocol/sdk/types.js')
+    ]);
+
+    const server = new Server(SERVER_INFO);
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.callTool(request.params.name, request.params.arguments || {})
+    );
+
+    await server.connect(transport || new StdioServerTransport());
+    this.server = server;
+    this.logger.info('Orchestrator MCP server started', { tools: this.tools.map(tool => tool.name) });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await server.close();
+      this.logger.info('Orchestrator MCP server stopped');
+    }
+  }
+
+  private async callTool(name: string, args: Record<string, any>): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+    const tool = this.tools.find(t => t.name === name);
+    if (!tool) {
+      return this.errorResult(`Unknown tool: ${name}`);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return {
+        content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }]
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Tool ${name} failed`, { error: message });
+      return this.errorResult(message);
+    }
+  }
+
+  private errorResult(message: string) {
+    return { content: [{ type: 'text' as const, text: message }], isError: true };
+  }
+
+  private defineTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'submit_task',
+        description: 'Submit a task to the orchestrator. Returns the task id, or the final task record when wait is true.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: 'What the agents should do' },
+            pattern: { type: 'string', enum: PATTERNS, description: 'Execution pattern (default swarm)' },
+            priority: { type: 'number', description: 'Priority from 1 to 10 (default 5)' },
+            timeout: { type: 'number', description: 'Task timeout in milliseconds' },
+            context: { description: 'Input for the pattern, e.g. map-reduce records' },
+            pipeline: { type: 'string', description: 'YAML or JSON pipeline definition for the pipeline pattern' },
+            wait: { type: 'boolean', description: 'Wait for the task to finish before returning' }
+          },
+          required: ['description']
+        },
+        handler: args => this.submitTask(args)
+      },
+      {
+        name: 'get_task_status',
+        description: 'Get the state and, once finished, the result of a submitted task',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            taskId: { type: 'string' }
+          },
+          required: ['taskId']
+        },
+        handler: async args => {
+          const record = await this.orchestrator.getTask(this.requireString(args, 'taskId'));
+          if (!record) {
+            throw new Error(`Task not found: ${args.taskId}`);
+          }
+          return record;
+        }
+      },
+      {
+        name: 'list_agents',
+        description: 'List the pooled agents with their status and current task',
+        inputSchema: { type: 'object', properties: {} },
+        handler: async () => this.orchestrator.getStatus().agents
+      },
+      {
+        name: 'search_memory',
+        description: 'Search the shared memory (CLAUDE.md instructions, quick captures and stored task results)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            limit: { type: 'number', description: 'Maximum number of results (default 10)' }
+          },
+          required: ['query']
+        },
+        handler: args => this.orchestrator.getMemoryManager().searchMemories(this.requireString(args, 'query'), {
+          maxResults: typeof args.limit === 'number' ? args.limit : 10
+        })
+      },
+      {
+        name: 'quick_capture',
+        description: 'Save a note to the shared memory using quick capture syntax, e.g. "#Remember: use 2-space indentation"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' }
+          },
+          required: ['text']
+        },
+        handler: async args => {
+          const text = this.requireString(args, 'text').trim();
+          const id = await this.orchestrator.getMemoryManager().quickCaptureMemory(text.startsWith('#') ? text : `#${text}`);
+          return { id };
+        }
+      }
+    ];
+  }
+
+  private async submitTask(args: Record<string, any>): Promise<any> {
+    const description = this.requireString(args, 'description');
+    const pattern = args.pattern ?? 'swarm';
+    if (!PATTERNS.includes(pattern)) {
+      throw new Error(`Unknown execution pattern: ${pattern}`);
+    }
+
+    const task: Task = {
+      id: `task-${Date.now()}-${randomUUID().slice(0, 8)}`,
+      description,
+      pattern,
+      priority: typeof args.priority === 'number' ? args.priority : 5,
+      timeout: typeof args.timeout === 'number' ? args.timeout : undefined,
+      context: args.context,
+      metadata: {
+        submittedAt: new Date().toISOString(),
+        submittedBy: 'mcp'
+      }
+    };
+
+    if (typeof args.pipeline === 'string') {
+      task.pattern = 'pipeline';
+      task.context = { ...(task.context && typeof task.context === 'object' ? task.context : {}), pipeline: args.pipeline };
+    }
+
+    const taskId = await this.orchestrator.submit(task);
+    if (!args.wait) {
+      return { taskId, state: 'queued' };
+    }
+    return this.orchestrator.waitFor(taskId, task.timeout);
+  }
+
+  private requireString(args: Record<string, any>, key: string): string {
+    const value = args[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new Error(`"${key}" must be a non-empty string`);
+    }
+    return value;
+  }
+}
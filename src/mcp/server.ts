@@ -1,22 +1,578 @@
-import type { MCPConfig } from '../types/index.js';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { Logger } from '../utils/logger.js';
+import { ToolPolicy, type AgentToolContext } from './tool-policy.js';
+import { SseClientTransport, StreamableHttpClientTransport } from './http-transport.js';
+import { tracer } from '../monitoring/tracing.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { MCPConfig, MCPServer, MCPServerStatus, ToolAuditEntry, ToolCall, ToolResult, TraceContext } from '../types/index.js';
+
+export interface MCPTool {
+  server: string;
+  name: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+interface ServerConnection {
+  definition: MCPServer;
+  status: MCPServerStatus;
+  tools: MCPTool[];
+  client?: Client;
+  restartTimer?: NodeJS.Timeout;
+  pingTimer?: NodeJS.Timeout;
+  pinging?: boolean;
+  stopping: boolean;
+}
+
+export interface ToolCallOptions {
+  /** Task the call belongs to; defaults to the task the agent is working on */
+  taskId?: string;
+  /** Span to trace the call under; defaults to the span of the agent's task */
+  traceContext?: TraceContext;
+  /** Role and capabilities the policy checks; default to the agent's current ones */
+  role?: string;
+  capabilities?: string[];
+}
+
+/** Looks up the task, role and capabilities an agent is currently working with */
+export type AgentResolver = (agentId: string) => AgentToolContext | undefined;
+
+const DEFAULT_SERVER_PATH = './config/mcp-servers.json';
+const CLIENT_INFO = { name: 'claude-orchestration', version: '0.1.0' };
+
+/**
+ * Expand ${VAR} and ${VAR:-default} references against the environment.
+ * Variables that are unset and have no default expand to an empty string
+ * and are reported in `missing`; MCPManager does not launch a server with
+ * any of them missing.
+ */
+export function expandEnvPlaceholders(value: string, env: NodeJS.ProcessEnv = process.env): { value: string; missing: string[] } {
+  const missing: string[] = [];
+  const expanded = value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+    const current = env[name];
+    if (current !== undefined && current !== '') {
+      return current;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    missing.push(name);
+    return '';
+  });
+
+  return { value: expanded, missing };
+}
+
+/**
+ * MCPManager - Connects to the MCP servers named in MCPConfig.servers using
+ * the definitions in MCPConfig.serverPath (Claude Desktop's `mcpServers`
+ * format). Local servers are launched over stdio; remote ones are reached over
+ * SSE or streamable HTTP. Every connection is health-pinged, and crashed or
+ * unreachable servers are restarted or reconnected with exponential backoff.
+ *
+ * start() does not wait for the servers: they come up in the background and
+ * report their progress through getStatus() and the serverStarted,
+ * serverStopped and serverFailed events. Agents reach the servers' tools
+ * through callTool() (their CLI processes via AgentToolGateway), which keeps
+ * a per-task audit log of every call.
+ */
+export class MCPManager extends EventEmitter {
+  private config: MCPConfig;
+  private logger: Logger;
+  private connections: Map<string, ServerConnection> = new Map();
+  private auditLog: Map<string, ToolAuditEntry[]> = new Map();
+  private agentResolver?: AgentResolver;
+  private toolPolicy: ToolPolicy;
+  private deniedCalls: Map<string, number> = new Map();
 
-export class MCPManager {
-  private _config: MCPConfig;
-  
   constructor(config: MCPConfig) {
-    this._config = config;
+    super();
+    this.config = config;
+    this.logger = new Logger('MCPManager');
+    this.toolPolicy = new ToolPolicy(config.toolPolicy);
   }
 
   async start(): Promise<void> {
-    // TODO: Start MCP servers
+    const definitions = await this.loadDefinitions();
+
+    for (const name of this.config.servers || []) {
+      const definition = definitions[name];
+      const connection: ServerConnection = {
+        definition: definition || { name, transport: 'stdio' },
+        status: { name, transport: definition?.transport || 'stdio', state: 'stopped', tools: [], restarts: 0 },
+        tools: [],
+        stopping: false
+      };
+      this.connections.set(name, connection);
+
+      if (!definition) {
+        this.markFailed(connection, `Server "${name}" is not defined in ${this.serverPath()}`);
+        continue;
+      }
+
+      this.connect(connection);
+    }
+
+    this.logger.info('MCP manager started', { servers: Array.from(this.connections.keys()) });
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop MCP servers
+    await Promise.all(Array.from(this.connections.values()).map(async (connection) => {
+      connection.stopping = true;
+      this.stopHealthPings(connection);
+      if (connection.restartTimer) {
+        clearTimeout(connection.restartTimer);
+        connection.restartTimer = undefined;
+      }
+
+      const client = connection.client;
+      connection.client = undefined;
+      if (client) {
+        await client.close().catch(() => {});
+      }
+      connection.status.state = 'stopped';
+      connection.status.tools = [];
+      connection.tools = [];
+    }));
+
+    this.connections.clear();
+    this.logger.info('MCP manager stopped');
   }
 
   getStatus(): any {
-    // TODO: Return MCP status
-    return { activeServers: [] };
+    const servers = Array.from(this.connections.values()).map(c => ({ ...c.status }));
+    return {
+      activeServers: servers.filter(s => s.state === 'running').map(s => s.name),
+      servers,
+      deniedToolCalls: Object.fromEntries(this.deniedCalls)
+    };
+  }
+
+  /**
+   * Tools offered by the servers that are currently running
+   */
+  listTools(): MCPTool[] {
+    return Array.from(this.connections.values())
+      .filter(c => c.status.state === 'running')
+      .flatMap(c => c.tools);
+  }
+
+  setAgentResolver(resolver: AgentResolver): void {
+    this.agentResolver = resolver;
+  }
+
+  getToolPolicy(): ToolPolicy {
+    return this.toolPolicy;
+  }
+
+  /**
+   * Call a tool on behalf of an agent. `toolName` is either a bare tool name,
+   * which must be offered by exactly one running server, or "<server>:<tool>".
+   * Calls the tool policy does not permit for the agent's role and
+   * capabilities are refused with a TOOL_DENIED result. Every call, including
+   * refused ones and ones that cannot be routed, is recorded in the audit log
+   * of the task the agent is working on.
+   */
+  async callTool(agentId: string, toolName: string, args: Record<string, any> = {}, options: ToolCallOptions = {}): Promise<ToolResult> {
+    const call: ToolCall = { toolName, arguments: args, agentId, timestamp: Date.now() };
+    // An agent can work on several tasks at once, so callers that know the
+    // run a call belongs to pass its context instead
+    const current = this.agentResolver?.(agentId) ?? {};
+    const agent: AgentToolContext = {
+      taskId: options.taskId ?? current.taskId,
+      role: options.role ?? current.role,
+      capabilities: options.capabilities ?? current.capabilities,
+      traceContext: options.traceContext ?? current.traceContext
+    };
+    const taskId = agent.taskId;
+    const span = tracer.startSpan('mcp.tool_call', {
+      parent: agent.traceContext,
+      kind: 'client',
+      attributes: { 'mcp.tool': toolName, 'agent.id': agentId, 'task.id': taskId }
+    });
+    let server: string | undefined;
+    let result: ToolResult;
+
+    try {
+      const route = this.routeTool(toolName);
+      server = route.connection.status.name;
+
+      const decision = this.toolPolicy.check(agent, server, route.tool);
+      if (!decision.allowed) {
+        result = this.deny(call, agent, server, route.tool, decision.reason!);
+      } else {
+        const response = await route.connection.client!.callTool({ name: route.tool, arguments: args });
+        const content = response.content;
+        result = response.isError
+          ? { success: false, error: this.describeContent(content) || `Tool ${toolName} failed`, executionTime: Date.now() - call.timestamp }
+          : { success: true, result: content, executionTime: Date.now() - call.timestamp };
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: Date.now() - call.timestamp
+      };
+    }
+
+    this.record({ taskId, server, call, result });
+    span.setAttributes({ 'mcp.server': server, 'mcp.denied': !!result.denied });
+    if (!result.success) {
+      span.setError(result.error);
+    }
+    span.end();
+    return result;
+  }
+
+  /**
+   * Tool calls recorded for a task, including those made while executing its
+   * sub-tasks ("<taskId>-...")
+   */
+  getAuditLog(taskId: string): ToolAuditEntry[] {
+    return Array.from(this.auditLog.entries())
+      .filter(([id]) => id === taskId || id.startsWith(`${taskId}-`))
+      .flatMap(([, entries]) => entries)
+      .sort((a, b) => a.call.timestamp - b.call.timestamp);
+  }
+
+  /**
+   * Return a task's audit log and forget it
+   */
+  takeAuditLog(taskId: string): ToolAuditEntry[] {
+    const entries = this.getAuditLog(taskId);
+    for (const id of Array.from(this.auditLog.keys())) {
+      if (id === taskId || id.startsWith(`${taskId}-`)) {
+        this.auditLog.delete(id);
+      }
+    }
+    return entries;
+  }
+
+  private routeTool(toolName: string): { connection: ServerConnection; tool: string } {
+    const separator = toolName.indexOf(':');
+    if (separator > 0) {
+      const serverName = toolName.slice(0, separator);
+      const tool = toolName.slice(separator + 1);
+      const connection = this.connections.get(serverName);
+      if (!connection) {
+        throw new Error(`Unknown MCP server: ${serverName}`);
+      }
+      if (connection.status.state !== 'running' || !connection.client) {
+        throw new Error(`MCP server ${serverName} is not running (${connection.status.state})`);
+      }
+      if (!connection.tools.some(t => t.name === tool)) {
+        throw new Error(`MCP server ${serverName} has no tool named ${tool}`);
+      }
+      return { connection, tool };
+    }
+
+    const candidates = Array.from(this.connections.values())
+      .filter(c => c.status.state === 'running' && c.client && c.tools.some(t => t.name === toolName));
+    if (candidates.length === 0) {
+      throw new Error(`No running MCP server offers tool ${toolName}`);
+    }
+    if (candidates.length > 1) {
+      const servers = candidates.map(c => c.status.name);
+      throw new Error(`Tool ${toolName} is offered by several servers (${servers.join(', ')}); use "<server>:${toolName}"`);
+    }
+    return { connection: candidates[0], tool: toolName };
+  }
+
+  private deny(call: ToolCall, agent: AgentToolContext, server: string, tool: string, reason: string): ToolResult {
+    const key = `${server}:${tool}`;
+    this.deniedCalls.set(key, (this.deniedCalls.get(key) || 0) + 1);
+    this.logger.warn(`Denied tool call ${key}`, { agentId: call.agentId, role: agent.role, reason });
+
+    return {
+      success: false,
+      error: `Tool call denied: ${reason}`,
+      executionTime: Date.now() - call.timestamp,
+      denied: { code: 'TOOL_DENIED', agentId: call.agentId, role: agent.role, server, tool, reason }
+    };
+  }
+
+  private record(entry: ToolAuditEntry): void {
+    this.logger.debug(`Tool call ${entry.call.toolName}`, {
+      agentId: entry.call.agentId,
+      taskId: entry.taskId,
+      server: entry.server,
+      success: entry.result.success,
+      executionTime: entry.result.executionTime
+    });
+    this.emit('toolCalled', entry);
+
+    if (!entry.taskId) {
+      return;
+    }
+    const entries = this.auditLog.get(entry.taskId) || [];
+    entries.push(entry);
+    this.auditLog.set(entry.taskId, entries);
+  }
+
+  private describeContent(content: any): string {
+    if (!Array.isArray(content)) {
+      return '';
+    }
+    return content
+      .filter(item => item?.type === 'text')
+      .map(item => item.text)
+      .join('\n');
+  }
+
+  private async connect(connection: ServerConnection): Promise<void> {
+    const { definition, status } = connection;
+    if (connection.stopping) {
+      return;
+    }
+
+    let client: Client | undefined;
+    try {
+      const { transport, missing } = await this.createTransport(definition);
+      status.missingEnv = missing.length > 0 ? missing : undefined;
+      if (missing.length > 0) {
+        // Restarting cannot help, the environment will not change
+        this.markFailed(connection, `Server "${definition.name}" needs unset environment variables: ${missing.join(', ')}`);
+        return;
+      }
+
+      status.state = 'starting';
+      // The SDK is published as ES modules only
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      const current = new Client(CLIENT_INFO);
+      client = current;
+      connection.client = current;
+      current.onclose = () => this.handleClose(connection, current);
+      current.onerror = (error) => {
+        status.lastError = error.message;
+      };
+
+      const { tools } = await this.withTimeout(
+        current.connect(transport).then(() => current.listTools()),
+        this.config.connectTimeout ?? 30000,
+        `Connecting to MCP server ${definition.name} timed out`
+      );
+
+      if (connection.client !== client) {
+        // Closed or stopped while the handshake was in flight
+        return;
+      }
+
+      connection.tools = tools.map(tool => ({
+        server: definition.name,
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }));
+      status.state = 'running';
+      status.tools = connection.tools.map(tool => tool.name);
+      status.connectedAt = Date.now();
+      status.lastError = undefined;
+      this.startHealthPings(connection, current);
+
+      this.logger.info(`MCP server ${definition.name} running`, { tools: status.tools.length, restarts: status.restarts });
+      this.emit('serverStarted', definition.name, connection.tools);
+    } catch (error) {
+      status.lastError = error instanceof Error ? error.message : String(error);
+      if (!client || connection.client === client) {
+        connection.client = undefined;
+        await client?.close().catch(() => {});
+        this.scheduleRestart(connection);
+      }
+    }
+  }
+
+  /**
+   * Build the client transport for a server definition, expanding ${VAR}
+   * placeholders in its command, args, env, url and headers
+   */
+  private async createTransport(definition: MCPServer): Promise<{ transport: Transport; missing: string[] }> {
+    const missing: string[] = [];
+    const expand = (value: string) => {
+      const result = expandEnvPlaceholders(value);
+      missing.push(...result.missing);
+      return result.value;
+    };
+    const expandAll = (values: Record<string, string> = {}) =>
+      Object.fromEntries(Object.entries(values).map(([key, value]) => [key, expand(value)]));
+
+    let transport: Transport;
+    if (definition.transport === 'stdio') {
+      if (!definition.command) {
+        throw new Error(`Server "${definition.name}" has no command to launch`);
+      }
+      const { StdioClientTransport, getDefaultEnvironment } = await import('@modelcontextprotocol/sdk/client/stdio.js');
+      transport = new StdioClientTransport({
+        command: expand(definition.command),
+        args: (definition.args || []).map(expand),
+        env: { ...getDefaultEnvironment(), ...expandAll(definition.env) }
+      });
+    } else {
+      if (!definition.url) {
+        throw new Error(`Server "${definition.name}" has no url to connect to`);
+      }
+      const url = expand(definition.url);
+      const headers = expandAll(definition.headers);
+      transport = definition.transport === 'sse'
+        ? new SseClientTransport(url, headers)
+        : new StreamableHttpClientTransport(url, headers);
+    }
+
+    return { transport, missing: Array.from(new Set(missing)) };
+  }
+
+  /**
+   * Ping a running server periodically and drop the connection when it stops
+   * answering, so the usual restart/reconnect backoff takes over
+   */
+  private startHealthPings(connection: ServerConnection, client: Client): void {
+    const interval = this.config.pingInterval ?? 30000;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.stopHealthPings(connection);
+    connection.pingTimer = setInterval(async () => {
+      if (connection.client !== client || connection.pinging) {
+        return;
+      }
+
+      connection.pinging = true;
+      try {
+        await this.withTimeout(client.ping(), this.config.pingTimeout ?? 10000, 'Health ping timed out');
+      } catch (error) {
+        if (connection.client === client) {
+          connection.status.lastError = `Health ping failed: ${error instanceof Error ? error.message : String(error)}`;
+          this.logger.warn(`MCP server ${connection.status.name} did not answer a health ping`, { lastError: connection.status.lastError });
+          // Closing the client fires onclose, which schedules the reconnect
+          await client.close().catch(() => {});
+          if (connection.client === client) {
+            this.handleClose(connection, client);
+          }
+        }
+      } finally {
+        connection.pinging = false;
+      }
+    }, interval);
+    connection.pingTimer.unref();
+  }
+
+  private stopHealthPings(connection: ServerConnection): void {
+    if (connection.pingTimer) {
+      clearInterval(connection.pingTimer);
+      connection.pingTimer = undefined;
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${message} after ${timeout}ms`)), timeout);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+  }
+
+  private handleClose(connection: ServerConnection, client: Client): void {
+    if (connection.client !== client || connection.stopping) {
+      return;
+    }
+
+    const { status } = connection;
+    this.stopHealthPings(connection);
+    connection.client = undefined;
+    connection.tools = [];
+    status.tools = [];
+    status.lastError = status.lastError || 'Server connection closed';
+
+    // A server that stayed up for a while starts its backoff from scratch
+    if (status.connectedAt && Date.now() - status.connectedAt > this.maxRestartDelay()) {
+      status.restarts = 0;
+    }
+
+    const event = connection.definition.transport === 'stdio' ? 'exited' : 'disconnected';
+    this.logger.warn(`MCP server ${status.name} ${event}`, { lastError: status.lastError });
+    this.emit('serverStopped', status.name, status.lastError);
+    this.scheduleRestart(connection);
+  }
+
+  private scheduleRestart(connection: ServerConnection): void {
+    const { status } = connection;
+    if (connection.stopping || connection.restartTimer) {
+      return;
+    }
+
+    if (status.restarts >= (this.config.maxRestarts ?? 5)) {
+      this.markFailed(connection, status.lastError || 'Too many restarts');
+      return;
+    }
+
+    const delay = Math.min((this.config.restartDelay ?? 1000) * 2 ** status.restarts, this.maxRestartDelay());
+    status.restarts++;
+    status.state = 'restarting';
+    const action = connection.definition.transport === 'stdio' ? 'Restarting' : 'Reconnecting to';
+    this.logger.warn(`${action} MCP server ${status.name} in ${delay}ms`, {
+      attempt: status.restarts,
+      lastError: status.lastError
+    });
+
+    connection.restartTimer = setTimeout(() => {
+      connection.restartTimer = undefined;
+      this.connect(connection);
+    }, delay);
+    connection.restartTimer.unref();
+  }
+
+  private markFailed(connection: ServerConnection, error: string): void {
+    connection.status.state = 'failed';
+    connection.status.lastError = error;
+    this.logger.error(`MCP server ${connection.status.name} failed:`, error);
+    this.emit('serverFailed', connection.status.name, error);
+  }
+
+  private async loadDefinitions(): Promise<Record<string, MCPServer>> {
+    const path = this.serverPath();
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        this.logger.warn(`MCP server definitions not found at ${path}`);
+        return {};
+      }
+      throw new Error(`Failed to load MCP server definitions from ${path}: ${error?.message}`);
+    }
+
+    const entries = parsed?.mcpServers || {};
+    return Object.fromEntries(Object.entries<any>(entries).map(([name, entry]) => [name, {
+      name,
+      transport: this.transportFor(entry),
+      command: entry.command,
+      args: entry.args,
+      env: entry.env,
+      url: entry.url,
+      headers: entry.headers
+    }]));
+  }
+
+  private transportFor(entry: any): MCPServer['transport'] {
+    const declared = entry.transport || entry.type;
+    if (declared === 'streamable-http' || declared === 'streamableHttp') {
+      return 'http';
+    }
+    if (declared === 'stdio' || declared === 'sse' || declared === 'http') {
+      return declared;
+    }
+    return entry.url ? 'sse' : 'stdio';
+  }
+
+  private serverPath(): string {
+    return resolve(this.config.serverPath || DEFAULT_SERVER_PATH);
+  }
+
+  private maxRestartDelay(): number {
+    return this.config.maxRestartDelay ?? 30000;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import type { MCPToolPolicy, ToolPermission, TraceContext } from '../types/index.js';
+
+/**
+ * Who is calling a tool, as far as the policy is concerned
+ */
+export interface AgentToolContext {
+  taskId?: string;
+  role?: string;
+  capabilities?: string[];
+  /** Not used by the policy; lets the call join the trace of the agent's task */
+  traceContext?: TraceContext;
+}
+
+export interface ToolPolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * The agent CLI's built-in tools are checked as tools of this pseudo-server,
+ * e.g. "claude:Write"
+ */
+export const CLI_TOOL_SERVER = 'claude';
+
+export const CLI_TOOLS = [
+  'Bash', 'Edit', 'Glob', 'Grep', 'LS', 'MultiEdit', 'NotebookEdit', 'NotebookRead',
+  'Read', 'Task', 'TodoWrite', 'WebFetch', 'WebSearch', 'Write'
+];
+
+// Tools of @modelcontextprotocol/server-filesystem that change the workspace
+const FILESYSTEM_WRITE_TOOLS = [
+  'filesystem:write_file',
+  'filesystem:edit_file',
+  'filesystem:create_directory',
+  'filesystem:move_file'
+];
+
+// Built-in CLI tools that can change the workspace; Bash can run anything
+const CLI_WRITE_TOOLS = ['claude:Write', 'claude:Edit', 'claude:MultiEdit', 'claude:NotebookEdit', 'claude:Bash'];
+
+const CLI_READ_TOOLS = ['claude:Read', 'claude:Glob', 'claude:Grep', 'claude:LS', 'claude:NotebookRead'];
+
+const READ_ONLY: ToolPermission = { deny: [...FILESYSTEM_WRITE_TOOLS, ...CLI_WRITE_TOOLS] };
+
+/**
+ * Built-in policy for the capabilities EnhancedSwarmPattern assigns to its
+ * roles. Capabilities grant access; roles that only review work may not
+ * change the workspace, through MCP servers or the CLI's own tools.
+ */
+export const DEFAULT_TOOL_POLICY: Required<MCPToolPolicy> = {
+  defaultAction: 'allow',
+  capabilities: {
+    'file-operations': { allow: ['filesystem:*', 'claude:*'] },
+    'code-analysis': { allow: ['filesystem:read_*', 'filesystem:list_*', 'filesystem:search_files', 'filesystem:get_file_info', 'filesystem:directory_tree', 'github:get_*', 'github:list_*', 'github:search_*', ...CLI_READ_TOOLS] },
+    'mcp-tools': { allow: ['memory:*'] },
+    'web-search': { allow: ['web-search:*', 'claude:WebSearch', 'claude:WebFetch'] },
+    'discovery': { allow: ['web-search:*', 'github:search_*', 'claude:WebSearch', 'claude:WebFetch'] },
+    'implementation': { allow: ['filesystem:*', 'github:*', 'claude:*'] },
+    'deployment': { allow: ['github:*'] },
+    'code-review': { allow: ['github:get_*', 'github:list_*', 'github:create_pull_request_review', ...CLI_READ_TOOLS] }
+  },
+  roles: {
+    'explorer': READ_ONLY,
+    'analyzer': READ_ONLY,
+    'validator': READ_ONLY,
+    'security-analyst': READ_ONLY,
+    'quality-analyst': READ_ONLY
+  }
+};
+
+/**
+ * ToolPolicy - Decides whether an agent may call a tool. The rules of the
+ * agent's role and of each of its capabilities are combined: a tool must be
+ * allowed by at least one of them and denied by none. Agents no rule covers
+ * fall back to defaultAction.
+ */
+export class ToolPolicy {
+  private policy: Required<MCPToolPolicy>;
+
+  constructor(policy: MCPToolPolicy = {}) {
+    this.policy = {
+      defaultAction: policy.defaultAction ?? DEFAULT_TOOL_POLICY.defaultAction,
+      capabilities: { ...DEFAULT_TOOL_POLICY.capabilities, ...policy.capabilities },
+      roles: { ...DEFAULT_TOOL_POLICY.roles, ...policy.roles }
+    };
+  }
+
+  check(context: AgentToolContext, server: string, tool: string): ToolPolicyDecision {
+    const rules: Array<{ source: string; permission: ToolPermission }> = [];
+    if (context.role && this.policy.roles[context.role]) {
+      rules.push({ source: `role "${context.role}"`, permission: this.policy.roles[context.role] });
+    }
+    for (const capability of context.capabilities || []) {
+      if (this.policy.capabilities[capability]) {
+        rules.push({ source: `capability "${capability}"`, permission: this.policy.capabilities[capability] });
+      }
+    }
+
+    const qualified = `${server}:${tool}`;
+    if (rules.length === 0) {
+      return this.policy.defaultAction === 'allow'
+        ? { allowed: true }
+        : { allowed: false, reason: `no tool policy covers the agent, and ${qualified} is denied by default` };
+    }
+
+    const denying = rules.find(rule => (rule.permission.deny || []).some(pattern => matchesToolPattern(pattern, qualified)));
+    if (denying) {
+      return { allowed: false, reason: `${qualified} is denied for ${denying.source}` };
+    }
+
+    if (rules.some(rule => (rule.permission.allow || []).some(pattern => matchesToolPattern(pattern, qualified)))) {
+      return { allowed: true };
+    }
+
+    return { allowed: false, reason: `${qualified} is not allowed for ${rules.map(rule => rule.source).join(', ')}` };
+  }
+
+  /**
+   * Split the CLI's built-in tools into those the agent may and may not use,
+   * for the agent command's --allowedTools and --disallowedTools
+   */
+  cliTools(context: AgentToolContext): { allowed: string[]; disallowed: string[] } {
+    const allowed: string[] = [];
+    const disallowed: string[] = [];
+    for (const tool of CLI_TOOLS) {
+      (this.check(context, CLI_TOOL_SERVER, tool).allowed ? allowed : disallowed).push(tool);
+    }
+    return { allowed, disallowed };
+  }
+}
+
+export function matchesToolPattern(pattern: string, qualifiedTool: string): boolean {
+  const expression = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${expression}$`).test(qualifiedTool);
+}
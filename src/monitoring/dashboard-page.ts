@@ -0,0 +1,149 @@
+/**
+ * The dashboard page. Everything is inline so it works without network access.
+ */
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Claude Orchestration</title>
+<style>
+  :root { --bg: #0f1115; --panel: #181b22; --text: #e6e6e6; --muted: #8b93a1; --ok: #3fb950; --warn: #d29922; --bad: #f85149; --accent: #8957e5; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; background: var(--bg); color: var(--text); }
+  header { display: flex; align-items: center; gap: 12px; padding: 16px 24px; border-bottom: 1px solid #262a33; }
+  header h1 { font-size: 18px; margin: 0; }
+  #connection { margin-left: auto; color: var(--muted); }
+  main { padding: 16px 24px; display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); }
+  section { background: var(--panel); border-radius: 8px; padding: 12px 16px; overflow-x: auto; }
+  section h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: var(--muted); margin: 0 0 8px; }
+  .cards { grid-column: 1 / -1; display: grid; gap: 12px; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); }
+  .card { background: var(--panel); border-radius: 8px; padding: 12px 16px; }
+  .card .value { font-size: 24px; font-weight: 600; }
+  .card .label { color: var(--muted); font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 8px 4px 0; border-bottom: 1px solid #262a33; white-space: nowrap; }
+  th { color: var(--muted); font-weight: 500; }
+  td.wrap { white-space: normal; }
+  .state { padding: 1px 6px; border-radius: 4px; font-size: 12px; background: #262a33; }
+  .idle, .running, .succeeded { color: var(--ok); }
+  .busy, .starting, .restarting { color: var(--accent); }
+  .error, .failed { color: var(--bad); }
+  .stopping, .stopped { color: var(--warn); }
+  .empty { color: var(--muted); }
+</style>
+</head>
+<body>
+<header>
+  <h1>🎼 Claude Orchestration</h1>
+  <span id="running" class="state"></span>
+  <span id="connection">connecting…</span>
+</header>
+<main>
+  <div class="cards" id="cards"></div>
+  <section><h2>Running tasks</h2><div id="tasks"></div></section>
+  <section><h2>Agents</h2><div id="agents"></div></section>
+  <section><h2>MCP servers</h2><div id="mcp"></div></section>
+  <section><h2>Supervisor teams</h2><div id="teams"></div></section>
+  <section style="grid-column: 1 / -1"><h2>Recent errors</h2><div id="errors"></div></section>
+</main>
+<script>
+  const $ = (id) => document.getElementById(id);
+  const esc = (value) => String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+  const state = (value) => '<span class="state ' + esc(value) + '">' + esc(value) + '</span>';
+  const time = (ms) => ms ? new Date(ms).toLocaleTimeString() : '';
+  const duration = (ms) => {
+    const s = Math.floor((ms || 0) / 1000);
+    return s < 60 ? s + 's' : s < 3600 ? Math.floor(s / 60) + 'm ' + (s % 60) + 's' : Math.floor(s / 3600) + 'h ' + Math.floor((s % 3600) / 60) + 'm';
+  };
+
+  function table(rows, columns) {
+    if (!rows || rows.length === 0) return '<div class="empty">None</div>';
+    return '<table><tr>' + columns.map((c) => '<th>' + c[0] + '</th>').join('') + '</tr>' +
+      rows.map((row) => '<tr>' + columns.map((c) => '<td' + (c[2] ? ' class="wrap"' : '') + '>' + c[1](row) + '</td>').join('') + '</tr>').join('') +
+      '</table>';
+  }
+
+  let errors = [];
+
+  function renderErrors() {
+    $('errors').innerHTML = table(errors, [
+      ['Time', (e) => time(e.timestamp)],
+      ['Source', (e) => esc(e.source)],
+      ['Subject', (e) => esc(e.subject)],
+      ['Message', (e) => esc(e.message), true]
+    ]);
+  }
+
+  function render(status) {
+    const metrics = status.metrics || {};
+    const agents = status.agents || [];
+    $('running').textContent = status.isRunning ? 'running' : 'stopped';
+    $('running').className = 'state ' + (status.isRunning ? 'running' : 'stopped');
+
+    const cards = [
+      ['Running tasks', (status.runningTasks || []).length],
+      ['Queued', metrics.queueSize ?? 0],
+      ['Busy agents', agents.filter((a) => a.status === 'busy').length + ' / ' + agents.length],
+      ['Tasks done', metrics.totalTasks ?? 0],
+      ['Failed', metrics.failedTasks ?? 0],
+      ['Avg time', duration(metrics.averageExecutionTime)],
+      ['Uptime', duration(metrics.uptime)]
+    ];
+    $('cards').innerHTML = cards.map((c) => '<div class="card"><div class="value">' + esc(c[1]) + '</div><div class="label">' + c[0] + '</div></div>').join('');
+
+    $('tasks').innerHTML = table(status.runningTasks, [
+      ['Task', (t) => esc(t.id)],
+      ['Pattern', (t) => esc(t.pattern)],
+      ['Running for', (t) => duration(Date.now() - t.startedAt)],
+      ['Description', (t) => esc(t.description), true]
+    ]);
+
+    $('agents').innerHTML = table(agents, [
+      ['Agent', (a) => esc(a.id)],
+      ['State', (a) => state(a.status)],
+      ['Task', (a) => esc(a.currentTask)],
+      ['Done', (a) => esc(a.tasksCompleted)],
+      ['Last error', (a) => esc(a.lastError), true]
+    ]);
+
+    $('mcp').innerHTML = table((status.mcp || {}).servers, [
+      ['Server', (s) => esc(s.name)],
+      ['Transport', (s) => esc(s.transport)],
+      ['State', (s) => state(s.state)],
+      ['Tools', (s) => esc((s.tools || []).length)],
+      ['Restarts', (s) => esc(s.restarts)],
+      ['Last error', (s) => esc(s.lastError), true]
+    ]);
+
+    const supervision = status.supervisorSystem;
+    $('teams').innerHTML = supervision
+      ? table(((supervision.supervisors || {}).supervisors) || [], [
+        ['Team', (t) => esc(t.name)],
+        ['Domain', (t) => esc(t.domain)],
+        ['Active issues', (t) => esc(t.activeIssues)],
+        ['Completed', (t) => esc((t.metrics || {}).tasksCompleted)],
+        ['Utilization', (t) => esc(Math.round(((t.metrics || {}).agentUtilization || 0) * 100) + '%')]
+      ])
+      : '<div class="empty">Supervision is not enabled</div>';
+
+    errors = status.recentErrors || errors;
+    renderErrors();
+  }
+
+  function connect() {
+    const events = new EventSource('/events');
+    events.onopen = () => { $('connection').textContent = 'live'; };
+    events.onerror = () => { $('connection').textContent = 'reconnecting…'; };
+    events.addEventListener('status', (event) => render(JSON.parse(event.data)));
+    events.addEventListener('failure', (event) => {
+      errors = [JSON.parse(event.data)].concat(errors).slice(0, 50);
+      renderErrors();
+    });
+  }
+
+  connect();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,178 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { DASHBOARD_HTML } from './dashboard-page.js';
+import type { MetricsCollector } from './metrics.js';
+import type { TaskEvent } from '../types/index.js';
+
+export interface DashboardError {
+  timestamp: number;
+  source: 'task' | 'agent' | 'mcp' | 'tool-policy';
+  subject: string;
+  message: string;
+}
+
+/**
+ * What the dashboard needs from the orchestrator: its status, the events
+ * it emits for failures and the event streams of single tasks
+ */
+export interface DashboardSource extends EventEmitter {
+  getStatus(): any;
+  subscribe(taskId: string, options?: { signal?: AbortSignal }): AsyncIterableIterator<TaskEvent>;
+}
+
+const MAX_ERRORS = 50;
+
+/**
+ * Dashboard - Self-contained web UI on the monitoring port. GET / serves the
+ * page, GET /api/status the current status as JSON and GET /events a
+ * Server-Sent Events stream that pushes the status every interval and
+ * failures (`failure` events) as they happen.
+ *
+ * GET /api/task-events?taskId=<id> streams one task's TaskEvents (`task`
+ * events) until it finishes; `task watch` reads it.
+ */
+export class Dashboard {
+  private source: DashboardSource;
+  private interval: number;
+  private logger: Logger;
+  private clients: Set<ServerResponse> = new Set();
+  private errors: DashboardError[] = [];
+  private timer?: NodeJS.Timeout;
+  private listeners: Array<[string, (...args: any[]) => void]> = [];
+  private taskStreams: Set<AbortController> = new Set();
+
+  constructor(source: DashboardSource, interval = 1000) {
+    this.source = source;
+    this.interval = Math.max(250, interval);
+    this.logger = new Logger('Dashboard');
+  }
+
+  attach(metrics: MetricsCollector): void {
+    metrics.addRoute('/', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(DASHBOARD_HTML);
+    });
+    metrics.addRoute('/api/status', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.snapshot()));
+    });
+    metrics.addRoute('/events', (req, res) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      this.clients.add(res);
+      this.send(res, 'status', this.snapshot());
+      req.on('close', () => this.clients.delete(res));
+    });
+    metrics.addRoute('/api/task-events', (req, res) => {
+      this.streamTaskEvents(req, res).catch((error) => {
+        this.logger.warn('Task event stream failed', { error: error instanceof Error ? error.message : String(error) });
+        res.end();
+      });
+    });
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.listen('taskFailed', (taskId: string, error: unknown) => this.recordError('task', taskId, error));
+    this.listen('agentError', (agentId: string, error: unknown) => this.recordError('agent', agentId, error));
+    this.listen('mcpServerFailed', (server: string, error: unknown) => this.recordError('mcp', server, error));
+    this.listen('toolDenied', (denial: any) =>
+      this.recordError('tool-policy', denial.agentId, `${denial.server}:${denial.tool} denied: ${denial.reason}`)
+    );
+
+    this.timer = setInterval(() => {
+      if (this.clients.size > 0) {
+        this.broadcast('status', this.snapshot());
+      }
+    }, this.interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    for (const [event, listener] of this.listeners.splice(0)) {
+      this.source.off(event, listener);
+    }
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    for (const stream of this.taskStreams) {
+      stream.abort();
+    }
+  }
+
+  private async streamTaskEvents(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const taskId = new URL(req.url || '/', 'http://localhost').searchParams.get('taskId');
+    if (!taskId) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('taskId is required\n');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+
+    const controller = new AbortController();
+    this.taskStreams.add(controller);
+    req.on('close', () => controller.abort());
+    try {
+      for await (const event of this.source.subscribe(taskId, { signal: controller.signal })) {
+        this.send(res, 'task', event);
+      }
+    } finally {
+      this.taskStreams.delete(controller);
+      res.end();
+    }
+  }
+
+  private snapshot(): any {
+    try {
+      return { ...this.source.getStatus(), recentErrors: this.errors, timestamp: Date.now() };
+    } catch (error) {
+      this.logger.warn('Failed to collect status for the dashboard', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { recentErrors: this.errors, timestamp: Date.now() };
+    }
+  }
+
+  private recordError(source: DashboardError['source'], subject: string, error: unknown): void {
+    const entry: DashboardError = {
+      timestamp: Date.now(),
+      source,
+      subject,
+      message: error instanceof Error ? error.message : String(error)
+    };
+    this.errors = [entry, ...this.errors].slice(0, MAX_ERRORS);
+    this.broadcast('failure', entry);
+  }
+
+  private listen(event: string, listener: (...args: any[]) => void): void {
+    this.source.on(event, listener);
+    this.listeners.push([event, listener]);
+  }
+
+  private broadcast(event: string, data: any): void {
+    for (const client of this.clients) {
+      this.send(client, event, data);
+    }
+  }
+
+  private send(client: ServerResponse, event: string, data: any): void {
+    client.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
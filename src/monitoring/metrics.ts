@@ -1,34 +1,195 @@
-import type { MonitoringConfig, ExecutionPattern, MetricsSnapshot } from '../types/index.js';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { Logger } from '../utils/logger.js';
+import { MetricRegistry, type Counter, type Gauge, type Histogram } from './prometheus.js';
+import type { MonitoringConfig, ExecutionPattern, MetricsSnapshot, TokenUsage } from '../types/index.js';
 
+export type ToolCallOutcome = 'succeeded' | 'failed' | 'denied';
+
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+/**
+ * Live values read on every sample, supplied by the components that own them
+ */
+export interface MetricsSources {
+  queueSize?: () => number;
+  activeAgents?: () => number;
+  totalAgents?: () => number;
+}
+
+/**
+ * MetricsCollector - Counts task executions, token usage and cost, and MCP
+ * tool calls, samples the queue and agent pool every metricsInterval and
+ * serves everything at GET /metrics on MonitoringConfig.port in the Prometheus text format.
+ * getSnapshot() summarises the same series.
+ */
 export class MetricsCollector {
-  private _config: MonitoringConfig;
-  
+  private config: MonitoringConfig;
+  private logger: Logger;
+  private registry = new MetricRegistry();
+  private sources: MetricsSources = {};
+  private server?: Server;
+  private routes: Map<string, RouteHandler> = new Map();
+  private sampleTimer?: NodeJS.Timeout;
+  private startedAt = Date.now();
+
+  private tasks: Counter;
+  private taskDuration: Histogram;
+  private tokens: Counter;
+  private cost: Counter;
+  private toolCalls: Counter;
+  private toolCallDuration: Histogram;
+  private queueDepth: Gauge;
+  private activeAgents: Gauge;
+  private totalAgents: Gauge;
+  private uptime: Gauge;
+
   constructor(config: MonitoringConfig) {
-    this._config = config;
+    this.config = config;
+    this.logger = new Logger('MetricsCollector');
+
+    this.tasks = this.registry.counter('orchestrator_tasks_total', 'Tasks executed, by pattern and outcome');
+    this.taskDuration = this.registry.histogram('orchestrator_task_duration_seconds', 'Task execution time, by pattern',
+      [0.5, 1, 5, 10, 30, 60, 120, 300, 600, 1800]);
+    this.tokens = this.registry.counter('orchestrator_tokens_total', 'Tokens used by agents, by pattern and type (input or output)');
+    this.cost = this.registry.counter('orchestrator_cost_usd_total', 'Estimated agent cost in USD, by pattern');
+    this.toolCalls = this.registry.counter('orchestrator_mcp_tool_calls_total', 'MCP tool calls, by server, tool and outcome');
+    this.toolCallDuration = this.registry.histogram('orchestrator_mcp_tool_call_duration_seconds', 'MCP tool call latency, by server');
+    this.queueDepth = this.registry.gauge('orchestrator_queue_depth', 'Tasks waiting in the queue');
+    this.activeAgents = this.registry.gauge('orchestrator_active_agents', 'Agents currently executing a task');
+    this.totalAgents = this.registry.gauge('orchestrator_agents', 'Agents in the pool');
+    this.uptime = this.registry.gauge('orchestrator_uptime_seconds', 'Seconds since the metrics collector started');
+  }
+
+  setSources(sources: MetricsSources): void {
+    this.sources = { ...this.sources, ...sources };
+  }
+
+  /**
+   * Serve another GET path on the monitoring port, e.g. the dashboard
+   */
+  addRoute(path: string, handler: RouteHandler): void {
+    this.routes.set(path, handler);
   }
 
   async start(): Promise<void> {
-    // TODO: Start metrics collection
+    if (this.sampleTimer) {
+      return;
+    }
+
+    this.startedAt = Date.now();
+    this.sample();
+    this.sampleTimer = setInterval(() => this.sample(), this.config.metricsInterval || 1000);
+    this.sampleTimer.unref();
+
+    await this.listen();
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop metrics collection
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
   }
 
-  recordTaskExecution(_pattern: ExecutionPattern, _duration: number, _success: boolean): void {
-    // TODO: Record task execution metrics
+  recordTaskExecution(pattern: ExecutionPattern, duration: number, success: boolean): void {
+    this.tasks.inc({ pattern, outcome: success ? 'succeeded' : 'failed' });
+    this.taskDuration.observe(duration / 1000, { pattern });
+  }
+
+  recordUsage(pattern: ExecutionPattern, usage: TokenUsage): void {
+    this.tokens.inc({ pattern, type: 'input' }, usage.inputTokens);
+    this.tokens.inc({ pattern, type: 'output' }, usage.outputTokens);
+    this.cost.inc({ pattern }, usage.costUsd);
+  }
+
+  recordToolCall(server: string | undefined, tool: string, outcome: ToolCallOutcome, duration?: number): void {
+    const labels = { server: server || 'unrouted', tool, outcome };
+    this.toolCalls.inc(labels);
+    // Denied and unroutable calls never reach a server, so they would skew the latency
+    if (duration !== undefined && server && outcome !== 'denied') {
+      this.toolCallDuration.observe(duration / 1000, { server });
+    }
+  }
+
+  /**
+   * Prometheus text exposition of every metric
+   */
+  render(): string {
+    return this.registry.render();
   }
 
   getSnapshot(): MetricsSnapshot {
-    // TODO: Return current metrics snapshot
+    const duration = this.taskDuration.totals();
+
     return {
-      totalTasks: 0,
-      successfulTasks: 0,
-      failedTasks: 0,
-      averageExecutionTime: 0,
-      activeAgents: 0,
-      queueSize: 0,
-      uptime: 0
+      totalTasks: this.tasks.total(),
+      successfulTasks: this.tasks.total({ outcome: 'succeeded' }),
+      failedTasks: this.tasks.total({ outcome: 'failed' }),
+      averageExecutionTime: duration.count > 0 ? (duration.sum / duration.count) * 1000 : 0,
+      activeAgents: this.activeAgents.get(),
+      queueSize: this.queueDepth.get(),
+      uptime: this.uptime.get() * 1000,
+      toolCalls: {
+        succeeded: this.toolCalls.total({ outcome: 'succeeded' }),
+        failed: this.toolCalls.total({ outcome: 'failed' }),
+        denied: this.toolCalls.total({ outcome: 'denied' })
+      },
+      usage: {
+        inputTokens: this.tokens.total({ type: 'input' }),
+        outputTokens: this.tokens.total({ type: 'output' }),
+        costUsd: this.cost.total()
+      }
     };
   }
-}
\ No newline at end of file
+
+  private sample(): void {
+    this.uptime.set((Date.now() - this.startedAt) / 1000);
+    try {
+      if (this.sources.queueSize) this.queueDepth.set(this.sources.queueSize());
+      if (this.sources.activeAgents) this.activeAgents.set(this.sources.activeAgents());
+      if (this.sources.totalAgents) this.totalAgents.set(this.sources.totalAgents());
+    } catch (error) {
+      this.logger.warn('Failed to sample metrics', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async listen(): Promise<void> {
+    const server = createServer((req, res) => {
+      const path = (req.url || '/').split('?')[0];
+      if (req.method === 'GET' && path === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(this.render());
+        return;
+      }
+      const route = req.method === 'GET' ? this.routes.get(path) : undefined;
+      if (route) {
+        route(req, res);
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+    });
+
+    // A busy port should not take the orchestrator down with it
+    await new Promise<void>(resolve => {
+      server.once('error', (error) => {
+        this.logger.warn(`Metrics endpoint could not listen on port ${this.config.port}`, { error: error.message });
+        resolve();
+      });
+      server.listen(this.config.port, () => {
+        this.server = server;
+        this.logger.info(`Metrics available at http://localhost:${this.config.port}/metrics`);
+        resolve();
+      });
+    });
+  }
+}
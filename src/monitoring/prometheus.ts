@@ -0,0 +1,161 @@
+export type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const all = { ...labels, ...extra };
+  const names = Object.keys(all);
+  if (names.length === 0) {
+    return '';
+  }
+  const pairs = names.map(name => `${name}="${String(all[name]).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Sum of the series whose labels include all of `filter`
+   */
+  total(filter: Labels = {}): number {
+    return Array.from(this.values.values())
+      .filter(entry => Object.entries(filter).every(([name, value]) => entry.labels[name] === value))
+      .reduce((sum, entry) => sum + entry.value, 0);
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(entry => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(entry => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+  private bounds: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.bounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) || { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Sum and count over the series whose labels include all of `filter`
+   */
+  totals(filter: Labels = {}): { sum: number; count: number } {
+    return Array.from(this.series.values())
+      .filter(series => Object.entries(filter).every(([name, value]) => series.labels[name] === value))
+      .reduce((total, series) => ({ sum: total.sum + series.sum, count: total.count + series.count }), { sum: 0, count: 0 });
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(series.labels, { le: formatValue(bound) })} ${series.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(series.labels, { le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Set of metrics rendered together in the Prometheus text exposition format
+ */
+export class MetricRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return `${this.metrics.map(metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
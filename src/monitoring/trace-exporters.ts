@@ -0,0 +1,94 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { AttributeValue, SpanData } from './tracing.js';
+
+const EXPORT_TIMEOUT = 10000;
+
+export interface SpanExporter {
+  readonly name: string;
+  export(spans: SpanData[], serviceName: string): Promise<void>;
+}
+
+function toAttribute(key: string, value: AttributeValue) {
+  if (typeof value === 'boolean') {
+    return { key, value: { boolValue: value } };
+  }
+  if (typeof value === 'number') {
+    return { key, value: Number.isInteger(value) ? { intValue: value } : { doubleValue: value } };
+  }
+  return { key, value: { stringValue: value } };
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1000000n).toString();
+}
+
+/**
+ * Encode spans as an OTLP ExportTraceServiceRequest in the protobuf JSON
+ * mapping, the format both the OTLP/HTTP receiver and the collector's
+ * otlpjsonfile receiver read
+ */
+export function toOtlpPayload(spans: SpanData[], serviceName: string) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: [toAttribute('service.name', serviceName)] },
+      scopeSpans: [{
+        scope: { name: 'claude-orchestration' },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          // SPAN_KIND_INTERNAL = 1, SPAN_KIND_CLIENT = 3
+          kind: span.kind === 'client' ? 3 : 1,
+          startTimeUnixNano: toUnixNano(span.startTime),
+          endTimeUnixNano: toUnixNano(span.endTime),
+          attributes: Object.entries(span.attributes).map(([key, value]) => toAttribute(key, value)),
+          // STATUS_CODE_OK = 1, STATUS_CODE_ERROR = 2
+          status: span.status === 'error' ? { code: 2, message: span.error } : { code: 1 }
+        }))
+      }]
+    }]
+  };
+}
+
+/**
+ * Posts spans to an OTLP/HTTP collector using JSON encoding
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  readonly name = 'otlp';
+  private url: string;
+
+  constructor(endpoint: string, private headers: Record<string, string> = {}) {
+    const base = endpoint.replace(/\/+$/, '');
+    this.url = base.endsWith('/v1/traces') ? base : `${base}/v1/traces`;
+  }
+
+  async export(spans: SpanData[], serviceName: string): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOtlpPayload(spans, serviceName)),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new Error(`${this.url} responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Appends each batch to a file as one line of OTLP JSON
+ */
+export class FileSpanExporter implements SpanExporter {
+  readonly name = 'file';
+  private ready?: Promise<unknown>;
+
+  constructor(private path: string) {}
+
+  async export(spans: SpanData[], serviceName: string): Promise<void> {
+    this.ready = this.ready || mkdir(dirname(this.path), { recursive: true });
+    await this.ready;
+    await appendFile(this.path, `${JSON.stringify(toOtlpPayload(spans, serviceName))}\n`, 'utf-8');
+  }
+}
@@ -0,0 +1,219 @@
+import { randomBytes } from 'crypto';
+import { Logger } from '../utils/logger.js';
+import { FileSpanExporter, OtlpHttpExporter, type SpanExporter } from './trace-exporters.js';
+import type { MonitoringConfig, Task, TraceContext } from '../types/index.js';
+
+export type SpanKind = 'internal' | 'client';
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanOptions {
+  /** Span to nest under; a new trace is started without one */
+  parent?: TraceContext;
+  kind?: SpanKind;
+  attributes?: Record<string, AttributeValue | undefined>;
+}
+
+/**
+ * A finished span as handed to the exporters. Times are in milliseconds.
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+const MAX_PENDING_SPANS = 2048;
+
+export class Span {
+  readonly context: TraceContext;
+  private data: SpanData;
+  private ended = false;
+
+  constructor(private tracer: Tracer, name: string, options: SpanOptions = {}) {
+    this.context = {
+      traceId: options.parent?.traceId || randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex')
+    };
+    this.data = {
+      ...this.context,
+      parentSpanId: options.parent?.spanId,
+      name,
+      kind: options.kind || 'internal',
+      startTime: Date.now(),
+      endTime: 0,
+      attributes: {},
+      status: 'ok'
+    };
+    this.setAttributes(options.attributes || {});
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.data.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Mark the span as failed. Also used for results that report
+   * `success: false` without throwing.
+   */
+  setError(error: unknown): this {
+    this.data.status = 'error';
+    this.data.error = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+    return this;
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.data.endTime = Date.now();
+    this.tracer.record(this.data);
+  }
+}
+
+/**
+ * Tracer - Records spans for task execution, pattern phases, agent runs and
+ * MCP tool calls and exports them in batches every exportInterval to an
+ * OTLP/HTTP collector and/or a JSON lines file (see TracingConfig).
+ *
+ * The process-wide `tracer` is a no-op until configure() enables it, so
+ * components can create spans unconditionally.
+ */
+export class Tracer {
+  private logger = new Logger('Tracer');
+  private enabled = false;
+  private serviceName = 'claude-orchestration';
+  private exporters: SpanExporter[] = [];
+  private pending: SpanData[] = [];
+  private exportTimer?: NodeJS.Timeout;
+  private exporting: Promise<void> = Promise.resolve();
+
+  configure(config: MonitoringConfig): void {
+    this.stopTimer();
+
+    const tracing = config.tracing || {};
+    this.enabled = !!config.enableTracing;
+    this.serviceName = tracing.serviceName || this.serviceName;
+    this.exporters = [];
+    if (tracing.otlpEndpoint) {
+      this.exporters.push(new OtlpHttpExporter(tracing.otlpEndpoint, tracing.otlpHeaders));
+    }
+    if (tracing.file) {
+      this.exporters.push(new FileSpanExporter(tracing.file));
+    }
+
+    if (this.enabled && this.exporters.length > 0) {
+      this.exportTimer = setInterval(() => {
+        this.flush().catch(() => {});
+      }, tracing.exportInterval || 5000);
+      this.exportTimer.unref();
+      this.logger.info('Tracing enabled', { exporters: this.exporters.map(exporter => exporter.name) });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.exporters.length > 0;
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new Span(this, name, options);
+  }
+
+  /**
+   * Run `fn` inside a span that ends when it settles. A thrown error marks
+   * the span as failed and is rethrown.
+   */
+  async trace<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.setError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export every finished span now
+   */
+  async flush(): Promise<void> {
+    // Chained so that batches reach the exporters in order
+    this.exporting = this.exporting.then(async () => {
+      const batch = this.pending.splice(0);
+      if (batch.length === 0) {
+        return;
+      }
+
+      const results = await Promise.allSettled(this.exporters.map(exporter => exporter.export(batch, this.serviceName)));
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          this.logger.warn(`Failed to export ${batch.length} span(s) to ${this.exporters[index].name}`, {
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+          });
+        }
+      });
+    });
+    return this.exporting;
+  }
+
+  async shutdown(): Promise<void> {
+    this.stopTimer();
+    await this.flush();
+    this.enabled = false;
+  }
+
+  /** @internal Called by Span.end() */
+  record(span: SpanData): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    this.pending.push(span);
+    if (this.pending.length > MAX_PENDING_SPANS) {
+      this.pending.splice(0, this.pending.length - MAX_PENDING_SPANS);
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.exportTimer) {
+      clearInterval(this.exportTimer);
+      this.exportTimer = undefined;
+    }
+  }
+}
+
+export const tracer = new Tracer();
+
+/**
+ * The trace context a task was handed, if any
+ */
+export function traceContextOf(task: Pick<Task, 'metadata'>): TraceContext | undefined {
+  const context = task.metadata?.traceContext;
+  return context && typeof context.traceId === 'string' && typeof context.spanId === 'string' ? context : undefined;
+}
+
+/**
+ * Copy of the task whose work runs under `span`
+ */
+export function withTraceContext<T extends Task>(task: T, span: Span): T {
+  return { ...task, metadata: { ...task.metadata, traceContext: span.context } };
+}
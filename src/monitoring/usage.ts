@@ -0,0 +1,105 @@
+import type { ModelPrice, TaskBudget, TokenUsage, UsageRecorder } from '../types/index.js';
+
+/**
+ * Anthropic list prices in USD per million tokens. Keys are matched against
+ * the model name, the longest match winning.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  opus: { input: 15, output: 75 },
+  sonnet: { input: 3, output: 15 },
+  haiku: { input: 0.8, output: 4 }
+};
+
+const CHARS_PER_TOKEN = 4;
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    ...((a.estimated || b.estimated) && { estimated: true })
+  };
+}
+
+export function priceFor(model: string | undefined, prices: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  if (!model) {
+    return undefined;
+  }
+  const table = { ...DEFAULT_MODEL_PRICES, ...prices };
+  const name = model.toLowerCase();
+  const key = Object.keys(table)
+    .filter(candidate => name.includes(candidate.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
+
+export function estimateCost(model: string | undefined, inputTokens: number, outputTokens: number, prices?: Record<string, ModelPrice>): number | undefined {
+  const price = priceFor(model, prices);
+  return price && (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+/**
+ * Rough token count for agents that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * UsageMeter - Totals the usage a task's agent executions report, overall and
+ * per agent, and calls onExceeded once when the task's budget runs out.
+ */
+export class UsageMeter implements UsageRecorder {
+  private totals: TokenUsage = emptyUsage();
+  private agents: Map<string, TokenUsage> = new Map();
+  private exceeded?: string;
+
+  constructor(private budget: TaskBudget = {}, private onExceeded?: (reason: string) => void) {}
+
+  record(agentId: string, usage: TokenUsage): void {
+    this.totals = addUsage(this.totals, usage);
+    this.agents.set(agentId, addUsage(this.agents.get(agentId) || emptyUsage(), usage));
+
+    if (!this.exceeded) {
+      this.exceeded = this.checkBudget();
+      if (this.exceeded) {
+        this.onExceeded?.(this.exceeded);
+      }
+    }
+  }
+
+  total(): TokenUsage {
+    return { ...this.totals };
+  }
+
+  byAgent(): Record<string, TokenUsage> {
+    return Object.fromEntries(this.agents);
+  }
+
+  /** Why the budget was exceeded, if it was */
+  exceededBy(): string | undefined {
+    return this.exceeded;
+  }
+
+  private checkBudget(): string | undefined {
+    const tokens = this.totals.inputTokens + this.totals.outputTokens;
+    if (this.budget.maxTokens !== undefined && tokens > this.budget.maxTokens) {
+      return `used ${tokens} tokens of a ${this.budget.maxTokens} token budget`;
+    }
+    if (this.budget.maxCostUsd !== undefined && this.totals.costUsd > this.budget.maxCostUsd) {
+      return `spent $${this.totals.costUsd.toFixed(4)} of a $${this.budget.maxCostUsd} budget`;
+    }
+    return undefined;
+  }
+}
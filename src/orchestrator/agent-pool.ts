@@ -1,24 +1,313 @@
 import { EventEmitter } from 'events';
+import { ClaudeCodeAgent, type AgentTools } from '../agents/claude-code-agent.js';
+import { Logger } from '../utils/logger.js';
 import type { AgentConfig, AgentStatus } from '../types/index.js';
 
+export interface AgentPoolOptions {
+  healthCheckInterval?: number;
+  acquireTimeout?: number;
+}
+
+interface PooledAgent {
+  agent: ClaudeCodeAgent;
+  leased: boolean;
+  leasedAt?: number;
+}
+
+interface PendingLease {
+  capabilities: string[];
+  resolve: (agent: ClaudeCodeAgent) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Pool of pre-warmed Claude Code agents shared by all execution patterns.
+ * Patterns lease agents with acquire() and hand them back with release();
+ * callers that cannot be served immediately wait in FIFO order.
+ */
 export class AgentPool extends EventEmitter {
-  private _config: AgentConfig;
-  
+  private config: AgentConfig;
+  private logger: Logger;
+  private agents: Map<string, PooledAgent> = new Map();
+  private waitQueue: PendingLease[] = [];
+  private healthCheckTimer?: NodeJS.Timeout;
+  private healthCheckInterval = 30000;
+  private acquireTimeout: number;
+  private agentCounter = 0;
+  private running = false;
+  private dispatching: Promise<unknown> = Promise.resolve();
+  private tools: AgentTools = {};
+
   constructor(config: AgentConfig) {
     super();
-    this._config = config;
+    this.config = config;
+    this.logger = new Logger('AgentPool');
+    this.acquireTimeout = config.spawnTimeout;
   }
 
-  async initialize(_mcpManager: any): Promise<void> {
-    // TODO: Initialize agent pool
+  /**
+   * Start the pool. Every agent it creates governs its tool use with `tools`.
+   */
+  async initialize(tools: AgentTools = {}, options: AgentPoolOptions = {}): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.tools = tools;
+    this.healthCheckInterval = options.healthCheckInterval ?? this.healthCheckInterval;
+    this.acquireTimeout = options.acquireTimeout ?? this.acquireTimeout;
+    this.running = true;
+
+    // Pre-warm the pool so the first tasks don't pay the startup cost
+    const warmups: Promise<PooledAgent>[] = [];
+    for (let i = 0; i < this.config.maxAgents; i++) {
+      warmups.push(this.spawnAgent(this.config.capabilities || []));
+    }
+    await Promise.all(warmups);
+
+    this.healthCheckTimer = setInterval(() => {
+      this.runHealthCheck().catch(error => this.logger.error('Agent health check failed:', error));
+    }, this.healthCheckInterval);
+    this.healthCheckTimer.unref();
+
+    this.logger.info('Agent pool initialized', {
+      agents: this.agents.size,
+      healthCheckInterval: this.healthCheckInterval
+    });
   }
 
   async shutdown(): Promise<void> {
-    // TODO: Shutdown all agents
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+
+    for (const pending of this.waitQueue.splice(0)) {
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.reject(new Error('Agent pool is shutting down'));
+    }
+
+    await Promise.all(Array.from(this.agents.keys()).map(agentId => this.retireAgent(agentId)));
+    this.logger.info('Agent pool shut down');
+  }
+
+  /**
+   * Lease an idle agent that has all of the requested capabilities.
+   * When none is available a new agent is spawned (or an idle agent without
+   * the capabilities is replaced) as long as the pool is below maxAgents;
+   * otherwise the caller waits until a matching agent is released.
+   */
+  async acquire(capabilities: string[] = [], timeout: number = this.acquireTimeout): Promise<ClaudeCodeAgent> {
+    if (!this.running) {
+      throw new Error('Agent pool is not running');
+    }
+
+    // Callers already waiting are served first, in FIFO order
+    const leased = this.waitQueue.length === 0 ? await this.tryLease(capabilities) : undefined;
+    if (leased) {
+      return leased;
+    }
+    if (!this.running) {
+      throw new Error('Agent pool is shutting down');
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingLease = { capabilities, resolve, reject };
+
+      if (timeout > 0) {
+        pending.timer = setTimeout(() => {
+          this.waitQueue = this.waitQueue.filter(p => p !== pending);
+          reject(new Error(`Timed out after ${timeout}ms waiting for an agent with capabilities [${capabilities.join(', ')}]`));
+        }, timeout);
+      }
+
+      this.waitQueue.push(pending);
+      // An agent may have been released since tryLease found none, or the
+      // caller may have skipped it to queue behind earlier waiters
+      this.dispatchWaiters().catch(error => this.logger.error('Failed to dispatch waiting leases:', error));
+    });
+  }
+
+  /**
+   * Return a leased agent to the pool. Agents left in the 'error' state are
+   * replaced with a fresh agent before the next waiter is served.
+   */
+  async release(agent: ClaudeCodeAgent): Promise<void> {
+    const pooled = this.agents.get(agent.id);
+    if (!pooled || !pooled.leased) {
+      return;
+    }
+
+    pooled.leased = false;
+    pooled.leasedAt = undefined;
+    // Listeners belong to the previous lessee
+    agent.removeAllListeners();
+
+    if (!this.running) {
+      return;
+    }
+
+    if (agent.status === 'error') {
+      await this.replaceAgent(agent.id);
+    }
+
+    await this.dispatchWaiters();
+  }
+
+  getCapacity(): number {
+    return this.config.maxAgents;
   }
 
   getStatus(): AgentStatus[] {
-    // TODO: Return agent statuses
-    return [];
+    return Array.from(this.agents.values()).map(pooled => pooled.agent.getStatus());
+  }
+
+  private async tryLease(capabilities: string[]): Promise<ClaudeCodeAgent | undefined> {
+    const idle = Array.from(this.agents.values()).filter(pooled => !pooled.leased && pooled.agent.status === 'idle');
+
+    const candidate = idle.find(pooled => this.hasCapabilities(pooled.agent, capabilities));
+
+    if (candidate) {
+      candidate.leased = true;
+      candidate.leasedAt = Date.now();
+      return candidate.agent;
+    }
+
+    if (this.agents.size < this.config.maxAgents) {
+      return (await this.spawnAgent(this.mergeCapabilities(capabilities), true)).agent;
+    }
+
+    if (idle.length > 0) {
+      // Trade an idle agent that lacks the capabilities for one that has them.
+      // Both calls update the map synchronously, so the slot can't be taken in between.
+      const retiring = this.retireAgent(idle[0].agent.id);
+      const spawning = this.spawnAgent(this.mergeCapabilities(capabilities), true);
+      await retiring;
+      return (await spawning).agent;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Serve waiters in FIFO order. Dispatches run one at a time, so two
+   * releases can't both lease an agent for the same waiter.
+   */
+  private dispatchWaiters(): Promise<void> {
+    const dispatch = this.dispatching.then(() => this.serveWaiters());
+    // A failed dispatch must not block the ones queued after it
+    this.dispatching = dispatch.catch(() => {});
+    return dispatch;
+  }
+
+  private async serveWaiters(): Promise<void> {
+    for (const pending of [...this.waitQueue]) {
+      if (!this.running || !this.waitQueue.includes(pending)) {
+        continue;
+      }
+
+      const agent = await this.tryLease(pending.capabilities);
+      if (!agent) {
+        continue;
+      }
+
+      if (!this.waitQueue.includes(pending)) {
+        // The waiter timed out while the agent was being leased; the next one gets it
+        this.returnLease(agent);
+        continue;
+      }
+
+      this.waitQueue = this.waitQueue.filter(p => p !== pending);
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.resolve(agent);
+    }
+  }
+
+  private returnLease(agent: ClaudeCodeAgent): void {
+    const pooled = this.agents.get(agent.id);
+    if (pooled) {
+      pooled.leased = false;
+      pooled.leasedAt = undefined;
+    }
+  }
+
+  private async spawnAgent(capabilities: string[], leased = false): Promise<PooledAgent> {
+    const agentId = `pool-agent-${++this.agentCounter}`;
+    const agent = new ClaudeCodeAgent(agentId, {
+      ...this.config,
+      capabilities
+    }, undefined, this.tools);
+
+    // Reserve the slot before awaiting so concurrent leases respect maxAgents
+    const pooled: PooledAgent = { agent, leased, leasedAt: leased ? Date.now() : undefined };
+    this.agents.set(agentId, pooled);
+
+    try {
+      await agent.start();
+    } catch (error) {
+      this.agents.delete(agentId);
+      this.emit('agentError', agentId, error);
+      throw error;
+    }
+
+    this.emit('agentStarted', agentId);
+    return pooled;
+  }
+
+  private async retireAgent(agentId: string): Promise<void> {
+    const pooled = this.agents.get(agentId);
+    if (!pooled) {
+      return;
+    }
+
+    this.agents.delete(agentId);
+    await pooled.agent.stop().catch(error => this.logger.error(`Failed to stop agent ${agentId}:`, error));
+    this.emit('agentStopped', agentId);
+  }
+
+  private async replaceAgent(agentId: string): Promise<void> {
+    const pooled = this.agents.get(agentId);
+    if (!pooled) {
+      return;
+    }
+
+    const status = pooled.agent.getStatus();
+    this.emit('agentError', agentId, new Error(status.lastError || 'Agent entered error state'));
+
+    const retiring = this.retireAgent(agentId);
+    const spawning = this.spawnAgent(pooled.agent.config.capabilities || []);
+    await Promise.all([retiring, spawning]);
+  }
+
+  private async runHealthCheck(): Promise<void> {
+    const unhealthy = Array.from(this.agents.values())
+      .filter(pooled => !pooled.leased && pooled.agent.status === 'error');
+
+    for (const pooled of unhealthy) {
+      this.logger.warn(`Replacing unhealthy agent ${pooled.agent.id}`);
+      await this.replaceAgent(pooled.agent.id);
+    }
+
+    if (unhealthy.length > 0) {
+      await this.dispatchWaiters();
+    }
+  }
+
+  private hasCapabilities(agent: ClaudeCodeAgent, required: string[]): boolean {
+    const available = new Set([
+      ...agent.capabilities.map(c => c.type),
+      ...(agent.config.capabilities || [])
+    ]);
+    return required.every(capability => available.has(capability));
+  }
+
+  private mergeCapabilities(capabilities: string[]): string[] {
+    return Array.from(new Set([...(this.config.capabilities || []), ...capabilities]));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { Logger } from '../utils/logger.js';
+import type { Task } from '../types/index.js';
+
+export interface StageCheckpoint {
+  stage: string;
+  record: any;
+  output?: any;
+  timing?: any;
+  completedAt: number;
+}
+
+export interface PipelineCheckpoint {
+  taskId: string;
+  task: Task;
+  /** Fingerprint of the stage layout, so a changed pipeline is not resumed */
+  fingerprint: string;
+  stages: Record<string, StageCheckpoint>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * File-based store for pipeline checkpoints, one JSON file per task under
+ * `<storage.path>/checkpoints`. Writes go through a temporary file and a
+ * rename so a crash mid-write never leaves a truncated checkpoint behind.
+ */
+export class CheckpointStore {
+  private directory: string;
+  private logger: Logger;
+
+  constructor(storagePath: string) {
+    this.directory = resolve(storagePath, 'checkpoints');
+    this.logger = new Logger('CheckpointStore');
+  }
+
+  async load(taskId: string): Promise<PipelineCheckpoint | undefined> {
+    try {
+      const content = await fs.readFile(this.fileFor(taskId), 'utf8');
+      return JSON.parse(content) as PipelineCheckpoint;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        this.logger.warn(`Ignoring unreadable checkpoint for task ${taskId}`, { error: error?.message });
+      }
+      return undefined;
+    }
+  }
+
+  async save(checkpoint: PipelineCheckpoint): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = this.fileFor(checkpoint.taskId);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ ...checkpoint, task: submittedTask(checkpoint.task), updatedAt: Date.now() }, null, 2));
+    await fs.rename(temporary, file);
+  }
+
+  async remove(taskId: string): Promise<void> {
+    await fs.rm(this.fileFor(taskId), { force: true });
+  }
+
+  private fileFor(taskId: string): string {
+    return join(this.directory, `${encodeURIComponent(taskId)}.json`);
+  }
+}
+
+/**
+ * The task as it was submitted, which is what a resumed run starts from. The
+ * abort signal and usage meter only make sense inside the executing process;
+ * the trace context and the memories (see Orchestrator.executeTask) belong
+ * to the run that added them.
+ */
+function submittedTask(task: Task): Task {
+  const submitted: Task = { ...task };
+  delete submitted.signal;
+  delete submitted.usage;
+
+  if (task.metadata) {
+    if (task.metadata.memoryContext !== undefined && task.context === task.metadata.memoryContext) {
+      delete submitted.context;
+    }
+    submitted.metadata = { ...task.metadata };
+    delete submitted.metadata.memoryContext;
+    delete submitted.metadata.traceContext;
+  }
+  return submitted;
+}
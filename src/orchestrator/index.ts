@@ -1,9 +1,16 @@
 import { EventEmitter } from 'events';
 import { AgentPool } from './agent-pool.js';
 import { TaskQueue } from './task-queue.js';
+import { CheckpointStore } from './checkpoint-store.js';
+import { ReputationStore } from './reputation-store.js';
+import { createTaskEvent, streamTaskEvents, type TaskEventInit } from './task-events.js';
 import { MCPManager } from '../mcp/server.js';
+import { AgentToolGateway } from '../mcp/agent-gateway.js';
 import { MemoryManager } from '../memory/mem0-client.js';
 import { MetricsCollector } from '../monitoring/metrics.js';
+import { Dashboard } from '../monitoring/dashboard.js';
+import { tracer, traceContextOf, withTraceContext } from '../monitoring/tracing.js';
+import { UsageMeter } from '../monitoring/usage.js';
 import { OrchestrationDirector } from '../agents/orchestration-director.js';
 import { ConfigManager } from '../settings/config-manager.js';
 import { EnvironmentConfig } from '../settings/environment-config.js';
@@ -11,8 +18,11 @@ import { Logger } from '../utils/logger.js';
 import type { 
   OrchestratorConfig, 
   Task, 
+  TaskRecord,
   TaskResult, 
-  ExecutionPattern 
+  ExecutionPattern,
+  TaskEvent,
+  ToolAuditEntry
 } from '../types/index.js';
 
 /**
@@ -23,13 +33,18 @@ export class Orchestrator extends EventEmitter {
   private agentPool: AgentPool;
   private taskQueue: TaskQueue;
   private mcpManager: MCPManager;
+  private toolGateway: AgentToolGateway;
   private memoryManager: MemoryManager;
   private metrics: MetricsCollector;
+  private dashboard: Dashboard;
   private configManager: ConfigManager;
   private orchestrationDirector?: OrchestrationDirector;
   private logger: Logger;
   private isRunning = false;
   private supervisionEnabled = false;
+  private runningTasks: Map<string, { task: Task; controller: AbortController; startedAt: number }> = new Map();
+  private checkpointStore?: CheckpointStore;
+  private reputationStore?: ReputationStore;
 
   constructor(config: OrchestratorConfig, configManager?: ConfigManager) {
     super();
@@ -39,8 +54,25 @@ export class Orchestrator extends EventEmitter {
     this.agentPool = new AgentPool(config.agents);
     this.taskQueue = new TaskQueue(config.taskQueue);
     this.mcpManager = new MCPManager(config.mcp);
+    this.mcpManager.setAgentResolver(agentId => {
+      const agent = this.agentPool.getStatus().find(status => status.id === agentId);
+      return agent && {
+        taskId: agent.currentTask,
+        role: agent.role,
+        capabilities: agent.capabilities,
+        traceContext: agent.traceContext
+      };
+    });
+    this.toolGateway = new AgentToolGateway(this.mcpManager, config.mcp.gateway);
     this.memoryManager = new MemoryManager(config.memory);
     this.metrics = new MetricsCollector(config.monitoring);
+    this.metrics.setSources({
+      queueSize: () => this.taskQueue.getStatus().queueSize,
+      activeAgents: () => this.agentPool.getStatus().filter(agent => agent.status === 'busy').length,
+      totalAgents: () => this.agentPool.getStatus().length
+    });
+    this.dashboard = new Dashboard(this, config.monitoring.metricsInterval);
+    this.dashboard.attach(this.metrics);
     
     // Initialize configuration manager
     this.configManager = configManager || new ConfigManager('development');
@@ -67,10 +99,22 @@ export class Orchestrator extends EventEmitter {
       
       // Start core components
       await this.mcpManager.start();
+      // Without MCP servers agents keep the CLI's own MCP configuration
+      if (this.config.mcp.servers?.length) {
+        await this.toolGateway.start();
+      }
       await this.memoryManager.connect();
-      await this.agentPool.initialize(this.mcpManager);
+      await this.agentPool.initialize({
+        gateway: this.toolGateway.isRunning() ? this.toolGateway : undefined,
+        policy: this.mcpManager.getToolPolicy()
+      }, {
+        healthCheckInterval: this.configManager.get<number>('orchestrator.agents.healthCheckInterval')
+      });
       await this.taskQueue.start();
+      this.taskQueue.process(task => this.runQueuedTask(task));
       await this.metrics.start();
+      this.dashboard.start();
+      tracer.configure(this.config.monitoring);
 
       // Start supervision system if enabled
       if (this.supervisionEnabled) {
@@ -118,9 +162,12 @@ export class Orchestrator extends EventEmitter {
       
       await this.taskQueue.stop();
       await this.agentPool.shutdown();
+      await this.toolGateway.stop();
       await this.mcpManager.stop();
       await this.memoryManager.disconnect();
+      this.dashboard.stop();
       await this.metrics.stop();
+      await tracer.shutdown();
       await this.configManager.dispose();
 
       this.isRunning = false;
@@ -133,49 +180,154 @@ export class Orchestrator extends EventEmitter {
   }
 
   /**
-   * Execute a task using the specified pattern
+   * Execute a task using the specified pattern, bypassing the queue
    */
   async execute(task: Task): Promise<TaskResult> {
     if (!this.isRunning) {
       throw new Error('Orchestrator is not running');
     }
 
+    // Queued tasks get their lifecycle events from the task queue instead
+    this.emitTaskEvent(task.id, { type: 'task.started', attempt: 1 });
+    try {
+      const result = await this.executeTask(task);
+      this.emitTaskEvent(task.id, {
+        type: 'task.finished',
+        state: result.success ? 'succeeded' : 'failed',
+        error: result.error,
+        executionTime: result.executionTime
+      });
+      return result;
+    } catch (error) {
+      this.emitTaskEvent(task.id, {
+        type: 'task.finished',
+        state: task.signal?.aborted ? 'cancelled' : 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a task's events (see TaskEvent) until it finishes. A task that
+   * has already finished yields just its task.finished event.
+   */
+  subscribe(taskId: string, options: { signal?: AbortSignal } = {}): AsyncIterableIterator<TaskEvent> {
+    return streamTaskEvents(this, taskId, {
+      signal: options.signal,
+      finishedEvent: async () => {
+        const record = await this.taskQueue.getRecord(taskId);
+        if (!record || (record.state !== 'succeeded' && record.state !== 'failed' && record.state !== 'cancelled')) {
+          return undefined;
+        }
+        return {
+          ...createTaskEvent(taskId, {
+            type: 'task.finished',
+            state: record.state,
+            error: record.error ?? record.result?.error,
+            executionTime: record.result?.executionTime
+          }),
+          timestamp: record.finishedAt ?? Date.now()
+        };
+      }
+    });
+  }
+
+  private async executeTask(task: Task): Promise<TaskResult> {
+    if (!this.isRunning) {
+      throw new Error('Orchestrator is not running');
+    }
+
     const startTime = Date.now();
     this.logger.info(`Executing task: ${task.description}`, { 
       pattern: task.pattern,
       taskId: task.id 
     });
 
+    // Patterns, agents and tool calls join this span through the task's trace context
+    const span = tracer.startSpan('orchestrator.execute', {
+      parent: traceContextOf(task),
+      attributes: {
+        'task.id': task.id,
+        'task.pattern': task.pattern,
+        'task.priority': task.priority
+      }
+    });
+
+    // Agents report their usage to the meter; once the task's budget
+    // (metadata.budget) is used up the pattern is aborted like a cancellation
+    const budgetController = new AbortController();
+    const onCancel = () => budgetController.abort();
+    task.signal?.addEventListener('abort', onCancel, { once: true });
+    if (task.signal?.aborted) {
+      budgetController.abort();
+    }
+    const meter = new UsageMeter(task.metadata?.budget, (reason) => {
+      this.logger.warn(`Task ${task.id} exceeded its budget`, { reason });
+      budgetController.abort();
+    });
+
     try {
-      // Add context from memory
+      // Add context from memory, keeping any context the caller supplied
+      // (e.g. map-reduce input) and attaching the memories next to it instead.
+      // metadata.memoryContext always holds them, so checkpoints can tell the
+      // memories apart from what was submitted.
       const context = await this.memoryManager.getRelevantContext(task.description);
-      const enrichedTask = { ...task, context };
+      const metadata = { ...task.metadata, memoryContext: context };
+      const enrichedTask = withTraceContext(task.context === undefined
+        ? { ...task, context, metadata, usage: meter, signal: budgetController.signal }
+        : { ...task, metadata, usage: meter, signal: budgetController.signal }, span);
 
       // Route to appropriate pattern handler
       let result: TaskResult;
-      switch (task.pattern) {
-        case 'swarm':
-          result = await this.executeSwarmPattern(enrichedTask);
-          break;
-        case 'pipeline':
-          result = await this.executePipelinePattern(enrichedTask);
-          break;
-        case 'consensus':
-          result = await this.executeConsensusPattern(enrichedTask);
-          break;
-        case 'mapreduce':
-          result = await this.executeMapReducePattern(enrichedTask);
-          break;
-        default:
-          throw new Error(`Unknown execution pattern: ${task.pattern}`);
+      try {
+        result = await this.executePattern(enrichedTask);
+      } catch (error) {
+        if (!meter.exceededBy()) {
+          throw error;
+        }
+        result = {
+          taskId: task.id,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          executionTime: Date.now() - startTime,
+          agentsUsed: Object.keys(meter.byAgent())
+        };
       }
 
+      // Attach the MCP tool calls agents made and what they used while working
+      // on the task. A task over budget fails, keeping whatever partial result
+      // the pattern returned.
+      const usage = meter.total();
+      const exceeded = meter.exceededBy();
+      result = {
+        ...result,
+        ...(exceeded && { success: false, error: `Budget exceeded: ${exceeded}` }),
+        metadata: {
+          ...result.metadata,
+          toolCalls: this.mcpManager.takeAuditLog(task.id),
+          tokenUsage: usage,
+          usageByAgent: meter.byAgent(),
+          ...(exceeded && { budgetExceeded: true })
+        }
+      };
+
       // Store results in memory for future reference
       await this.memoryManager.storeResult(task, result);
 
       // Record metrics
       const duration = Date.now() - startTime;
-      this.metrics.recordTaskExecution(task.pattern, duration, true);
+      this.metrics.recordTaskExecution(task.pattern, duration, result.success);
+      this.metrics.recordUsage(task.pattern, usage);
+      span.setAttributes({
+        'task.success': result.success,
+        'task.agents': result.agentsUsed?.length,
+        'task.tokens': usage.inputTokens + usage.outputTokens,
+        'task.cost_usd': usage.costUsd
+      });
+      if (!result.success) {
+        span.setError(result.error);
+      }
 
       this.logger.info(`Task completed successfully`, {
         taskId: task.id,
@@ -187,6 +339,9 @@ export class Orchestrator extends EventEmitter {
     } catch (error) {
       const duration = Date.now() - startTime;
       this.metrics.recordTaskExecution(task.pattern, duration, false);
+      this.metrics.recordUsage(task.pattern, meter.total());
+      this.mcpManager.takeAuditLog(task.id);
+      span.setError(error);
       
       this.logger.error(`Task execution failed`, {
         taskId: task.id,
@@ -195,7 +350,154 @@ export class Orchestrator extends EventEmitter {
       });
 
       throw error;
+    } finally {
+      task.signal?.removeEventListener('abort', onCancel);
+      span.end();
+    }
+  }
+
+  private async executePattern(task: Task): Promise<TaskResult> {
+    switch (task.pattern) {
+      case 'swarm':
+        return this.executeSwarmPattern(task);
+      case 'pipeline':
+        return this.executePipelinePattern(task);
+      case 'consensus':
+        return this.executeConsensusPattern(task);
+      case 'mapreduce':
+        return this.executeMapReducePattern(task);
+      default:
+        throw new Error(`Unknown execution pattern: ${task.pattern}`);
+    }
+  }
+
+  /**
+   * Queue a task for asynchronous execution and return its id
+   */
+  async submit(task: Task): Promise<string> {
+    if (!this.isRunning) {
+      throw new Error('Orchestrator is not running');
+    }
+
+    await this.taskQueue.enqueue(task);
+    this.logger.info(`Task submitted: ${task.description}`, {
+      pattern: task.pattern,
+      taskId: task.id
+    });
+
+    return task.id;
+  }
+
+  /**
+   * Look up the current state of a submitted task
+   */
+  async getTask(taskId: string): Promise<TaskRecord | undefined> {
+    return this.taskQueue.getRecord(taskId);
+  }
+
+  /**
+   * Wait until a submitted task succeeds, fails or is cancelled
+   */
+  async waitFor(taskId: string, timeout?: number): Promise<TaskRecord> {
+    const deadline = timeout ? Date.now() + timeout : Infinity;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pollTimer: NodeJS.Timeout | undefined;
+
+      const cleanup = () => {
+        settled = true;
+        if (pollTimer) clearTimeout(pollTimer);
+        this.taskQueue.off('taskCompleted', onEvent);
+        this.taskQueue.off('taskFailed', onEvent);
+        this.taskQueue.off('taskCancelled', onEvent);
+      };
+
+      const check = async () => {
+        if (settled) return;
+
+        try {
+          const record = await this.taskQueue.getRecord(taskId);
+          if (!record) {
+            cleanup();
+            reject(new Error(`Unknown task: ${taskId}`));
+          } else if (['succeeded', 'failed', 'cancelled'].includes(record.state)) {
+            cleanup();
+            resolve(record);
+          } else if (Date.now() >= deadline) {
+            cleanup();
+            reject(new Error(`Timed out waiting for task ${taskId}`));
+          } else {
+            // Tasks may be executed by another process sharing the queue
+            if (pollTimer) clearTimeout(pollTimer);
+            pollTimer = setTimeout(check, this.config.taskQueue.pollInterval || 1000);
+          }
+        } catch (error) {
+          cleanup();
+          reject(error);
+        }
+      };
+
+      const onEvent = (eventTaskId: string) => {
+        if (eventTaskId === taskId) {
+          check();
+        }
+      };
+
+      this.taskQueue.on('taskCompleted', onEvent);
+      this.taskQueue.on('taskFailed', onEvent);
+      this.taskQueue.on('taskCancelled', onEvent);
+      check();
+    });
+  }
+
+  /**
+   * Cancel a queued or running task, aborting any agents working on it
+   */
+  async cancel(taskId: string): Promise<boolean> {
+    const cancelled = await this.taskQueue.cancel(taskId);
+    this.runningTasks.get(taskId)?.controller.abort();
+
+    if (cancelled) {
+      this.logger.info(`Task cancelled: ${taskId}`);
     }
+
+    return cancelled;
+  }
+
+  /**
+   * Re-submit an interrupted pipeline task from its checkpoint. Stages that
+   * already completed are restored and execution continues with the rest.
+   */
+  async resume(taskId: string): Promise<string> {
+    if (!this.isRunning) {
+      throw new Error('Orchestrator is not running');
+    }
+
+    const checkpoint = await this.getCheckpointStore().load(taskId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for task ${taskId}`);
+    }
+
+    const record = await this.taskQueue.getRecord(taskId);
+    if (record?.state === 'running' && await this.taskQueue.isAbandoned(record)) {
+      // The process running it died without updating the record
+      this.logger.warn(`Task ${taskId} was left running by a process that is gone`, { owner: record.owner });
+    } else if (record && (record.state === 'queued' || record.state === 'running')) {
+      throw new Error(`Task ${taskId} is still ${record.state}`);
+    }
+
+    this.logger.info(`Resuming task ${taskId}`, {
+      completedStages: Object.keys(checkpoint.stages)
+    });
+    return this.submit(checkpoint.task);
+  }
+
+  /**
+   * Shared memory used to enrich tasks and store their results
+   */
+  getMemoryManager(): MemoryManager {
+    return this.memoryManager;
   }
 
   /**
@@ -206,6 +508,12 @@ export class Orchestrator extends EventEmitter {
       isRunning: this.isRunning,
       agents: this.agentPool.getStatus(),
       taskQueue: this.taskQueue.getStatus(),
+      runningTasks: Array.from(this.runningTasks.values()).map(({ task, startedAt }) => ({
+        id: task.id,
+        description: task.description,
+        pattern: task.pattern,
+        startedAt
+      })),
       mcp: this.mcpManager.getStatus(),
       metrics: this.metrics.getSnapshot(),
       supervision: {
@@ -257,30 +565,86 @@ export class Orchestrator extends EventEmitter {
     return await this.orchestrationDirector.createCrisisTeam(issue);
   }
 
+  private async runQueuedTask(task: Task): Promise<TaskResult> {
+    const controller = new AbortController();
+    this.runningTasks.set(task.id, { task, controller, startedAt: Date.now() });
+
+    try {
+      return await this.executeTask({ ...task, signal: controller.signal });
+    } finally {
+      this.runningTasks.delete(task.id);
+    }
+  }
+
   private async executeSwarmPattern(task: Task): Promise<TaskResult> {
     const { SwarmPattern } = await import('../patterns/swarm.js');
-    const pattern = new SwarmPattern(this.agentPool, this.config.patterns?.swarm);
+    const pattern = new SwarmPattern(this.agentPool, {
+      resultAggregation: this.configManager.get('orchestrator.patterns.swarm.resultAggregation'),
+      votingRule: this.configManager.get('orchestrator.patterns.swarm.votingRule'),
+      stepRetries: this.configManager.get('orchestrator.patterns.swarm.stepRetries'),
+      replanOnFailure: this.configManager.get('orchestrator.patterns.swarm.replanOnFailure'),
+      ...this.config.patterns?.swarm
+    }, this.getReputationStore());
+    this.forwardTaskEvents(pattern);
     return pattern.execute(task);
   }
 
   private async executePipelinePattern(task: Task): Promise<TaskResult> {
     const { PipelinePattern } = await import('../patterns/pipeline.js');
-    const pattern = new PipelinePattern(this.agentPool, this.config.patterns?.pipeline);
+    const pipelineConfig = this.config.patterns?.pipeline;
+    // Environment settings override the static defaults in the config file
+    const pattern = new PipelinePattern(this.agentPool, {
+      maxStages: 10,
+      allowParallelStages: true,
+      ...pipelineConfig,
+      stageTimeout: this.configManager.get<number>('orchestrator.patterns.pipeline.stageTimeout')
+        ?? pipelineConfig?.stageTimeout ?? 60000,
+      failureHandling: this.configManager.get('orchestrator.patterns.pipeline.failureHandling')
+        ?? pipelineConfig?.failureHandling
+    }, this.getCheckpointStore());
+    this.forwardTaskEvents(pattern);
     return pattern.execute(task);
   }
 
   private async executeConsensusPattern(task: Task): Promise<TaskResult> {
     const { ConsensusPattern } = await import('../patterns/consensus.js');
     const pattern = new ConsensusPattern(this.agentPool, this.config.patterns?.consensus);
+    this.forwardTaskEvents(pattern);
     return pattern.execute(task);
   }
 
   private async executeMapReducePattern(task: Task): Promise<TaskResult> {
     const { MapReducePattern } = await import('../patterns/mapreduce.js');
-    const pattern = new MapReducePattern(this.agentPool, this.config.patterns?.mapreduce);
+    const pattern = new MapReducePattern(this.agentPool, {
+      reduceStrategy: this.configManager.get('orchestrator.patterns.mapreduce.reduceStrategy'),
+      ...this.config.patterns?.mapreduce
+    });
+    this.forwardTaskEvents(pattern);
     return pattern.execute(task);
   }
 
+  private forwardTaskEvents(pattern: EventEmitter): void {
+    pattern.on('taskEvent', (event: TaskEvent) => this.emit('taskEvent', event));
+  }
+
+  private emitTaskEvent(taskId: string, event: TaskEventInit): void {
+    this.emit('taskEvent', createTaskEvent(taskId, event));
+  }
+
+  private getCheckpointStore(): CheckpointStore {
+    if (!this.checkpointStore) {
+      this.checkpointStore = new CheckpointStore(this.configManager.get<string>('storage.path') || './data');
+    }
+    return this.checkpointStore;
+  }
+
+  private getReputationStore(): ReputationStore {
+    if (!this.reputationStore) {
+      this.reputationStore = new ReputationStore(this.configManager.get<string>('storage.path') || './data');
+    }
+    return this.reputationStore;
+  }
+
   private shouldEnableSupervision(): boolean {
     // Enable supervision if we have enough agents and it's configured
     return this.config.agents?.maxAgents > 5;
@@ -354,14 +718,52 @@ export class Orchestrator extends EventEmitter {
       this.emit('agentError', agentId, error);
     });
 
+    this.mcpManager.on('toolCalled', (entry: ToolAuditEntry) => {
+      const outcome = entry.result.denied ? 'denied' : entry.result.success ? 'succeeded' : 'failed';
+      this.metrics.recordToolCall(entry.server, entry.call.toolName, outcome, entry.result.executionTime);
+      if (entry.result.denied) {
+        this.emit('toolDenied', entry.result.denied);
+      }
+    });
+
+    this.mcpManager.on('serverFailed', (name, error) => {
+      this.emit('mcpServerFailed', name, error);
+    });
+
+    this.taskQueue.on('taskQueued', (taskId, task: Task) => {
+      this.emitTaskEvent(taskId, { type: 'task.queued', pattern: task.pattern, description: task.description });
+    });
+
+    this.taskQueue.on('taskStarted', (taskId, attempt) => {
+      this.emitTaskEvent(taskId, { type: 'task.started', attempt });
+    });
+
+    this.taskQueue.on('taskRetrying', (taskId, attempt, delay, error) => {
+      this.emitTaskEvent(taskId, { type: 'task.retrying', attempt, delay, error: error instanceof Error ? error.message : String(error) });
+    });
+
     this.taskQueue.on('taskCompleted', (taskId, result) => {
       this.logger.info(`Task completed: ${taskId}`);
       this.emit('taskCompleted', taskId, result);
+      this.emitTaskEvent(taskId, { type: 'task.finished', state: 'succeeded', executionTime: result?.executionTime });
     });
 
-    this.taskQueue.on('taskFailed', (taskId, error) => {
+    this.taskQueue.on('taskFailed', (taskId, error, result) => {
       this.logger.error(`Task failed: ${taskId}`, error);
       this.emit('taskFailed', taskId, error);
+      this.emitTaskEvent(taskId, {
+        type: 'task.finished',
+        state: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: result?.executionTime
+      });
+    });
+
+    // Cancellations may come from another process sharing the queue
+    this.taskQueue.on('taskCancelled', (taskId) => {
+      this.runningTasks.get(taskId)?.controller.abort();
+      this.emit('taskCancelled', taskId);
+      this.emitTaskEvent(taskId, { type: 'task.finished', state: 'cancelled' });
     });
 
     // Setup supervision system event handlers
@@ -0,0 +1,252 @@
+import { Redis } from 'ioredis';
+import type { Task, TaskRecord } from '../types/index.js';
+
+export interface QueuedTask {
+  task: Task;
+  attempts: number;
+  enqueuedAt: number;
+}
+
+/**
+ * Storage used by TaskQueue. pop() must hand each entry to exactly one
+ * consumer so that several orchestrator processes can share a backend.
+ * Task records are kept alongside the queue so any process can look up
+ * or cancel a task by id; saveRecord() with a ttl lets the record expire
+ * that many milliseconds later. Heartbeats are kept apart from records, so
+ * refreshing one never overwrites a state change made by another process.
+ */
+export interface QueueBackend {
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  push(entry: QueuedTask, readyAt?: number): Promise<void>;
+  pop(): Promise<QueuedTask | undefined>;
+  remove(taskId: string): Promise<boolean>;
+  size(): Promise<number>;
+  saveRecord(record: TaskRecord, ttl?: number): Promise<void>;
+  getRecord(taskId: string): Promise<TaskRecord | undefined>;
+  saveHeartbeat(taskId: string, ttl: number): Promise<void>;
+  hasHeartbeat(taskId: string): Promise<boolean>;
+}
+
+const PRIORITY_LEVELS: Record<string, number> = {
+  critical: 10,
+  high: 7,
+  normal: 5,
+  low: 1
+};
+
+/**
+ * Normalize Task.priority to a number where higher runs first
+ */
+export function resolvePriority(priority: Task['priority']): number {
+  if (typeof priority === 'number') {
+    return priority;
+  }
+  return PRIORITY_LEVELS[priority || 'normal'];
+}
+
+/**
+ * Sort key shared by all backends: higher priority first, then FIFO
+ */
+function queueScore(entry: QueuedTask): number {
+  return entry.enqueuedAt - resolvePriority(entry.task.priority) * 1e13;
+}
+
+export class InMemoryQueueBackend implements QueueBackend {
+  readonly name = 'memory';
+  private ready: QueuedTask[] = [];
+  private delayed: Array<{ entry: QueuedTask; readyAt: number }> = [];
+  private records: Map<string, { record: TaskRecord; expiresAt?: number }> = new Map();
+  private heartbeats: Map<string, number> = new Map();
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async push(entry: QueuedTask, readyAt?: number): Promise<void> {
+    if (readyAt && readyAt > Date.now()) {
+      this.delayed.push({ entry, readyAt });
+      return;
+    }
+
+    const score = queueScore(entry);
+    const index = this.ready.findIndex(existing => queueScore(existing) > score);
+    if (index === -1) {
+      this.ready.push(entry);
+    } else {
+      this.ready.splice(index, 0, entry);
+    }
+  }
+
+  async pop(): Promise<QueuedTask | undefined> {
+    await this.promoteDelayed();
+    return this.ready.shift();
+  }
+
+  async remove(taskId: string): Promise<boolean> {
+    const before = this.ready.length + this.delayed.length;
+    this.ready = this.ready.filter(entry => entry.task.id !== taskId);
+    this.delayed = this.delayed.filter(item => item.entry.task.id !== taskId);
+    return this.ready.length + this.delayed.length < before;
+  }
+
+  async size(): Promise<number> {
+    return this.ready.length + this.delayed.length;
+  }
+
+  async saveRecord(record: TaskRecord, ttl?: number): Promise<void> {
+    this.removeExpiredRecords();
+    this.records.set(record.id, { record, expiresAt: ttl ? Date.now() + ttl : undefined });
+  }
+
+  async getRecord(taskId: string): Promise<TaskRecord | undefined> {
+    this.removeExpiredRecords();
+    return this.records.get(taskId)?.record;
+  }
+
+  async saveHeartbeat(taskId: string, ttl: number): Promise<void> {
+    this.heartbeats.set(taskId, Date.now() + ttl);
+  }
+
+  async hasHeartbeat(taskId: string): Promise<boolean> {
+    const expiresAt = this.heartbeats.get(taskId);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.heartbeats.delete(taskId);
+      return false;
+    }
+    return expiresAt !== undefined;
+  }
+
+  private removeExpiredRecords(): void {
+    const now = Date.now();
+    for (const [taskId, { expiresAt }] of this.records) {
+      if (expiresAt !== undefined && expiresAt <= now) {
+        this.records.delete(taskId);
+      }
+    }
+  }
+
+  private async promoteDelayed(): Promise<void> {
+    const now = Date.now();
+    const due = this.delayed.filter(item => item.readyAt <= now);
+    this.delayed = this.delayed.filter(item => item.readyAt > now);
+
+    for (const item of due) {
+      await this.push(item.entry);
+    }
+  }
+}
+
+/**
+ * Redis-backed queue. Ready tasks live in a sorted set ordered by queueScore,
+ * retries wait in a second sorted set scored by the time they become ready.
+ * Each task record is a key of its own, so Redis can expire it.
+ */
+export class RedisQueueBackend implements QueueBackend {
+  readonly name = 'redis';
+  private client: Redis;
+  private readyKey: string;
+  private delayedKey: string;
+  private recordPrefix: string;
+  private heartbeatPrefix: string;
+
+  constructor(redisUrl: string, keyPrefix = 'claude-orchestration:queue') {
+    this.client = new Redis(redisUrl, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 3
+    });
+    this.readyKey = `${keyPrefix}:ready`;
+    this.delayedKey = `${keyPrefix}:delayed`;
+    this.recordPrefix = `${keyPrefix}:record:`;
+    this.heartbeatPrefix = `${keyPrefix}:heartbeat:`;
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
+
+  async push(entry: QueuedTask, readyAt?: number): Promise<void> {
+    const payload = JSON.stringify(entry);
+
+    if (readyAt && readyAt > Date.now()) {
+      await this.client.zadd(this.delayedKey, readyAt, payload);
+      return;
+    }
+
+    await this.client.zadd(this.readyKey, queueScore(entry), payload);
+  }
+
+  async pop(): Promise<QueuedTask | undefined> {
+    await this.promoteDelayed();
+
+    const popped = await this.client.zpopmin(this.readyKey);
+    if (popped.length === 0) {
+      return undefined;
+    }
+
+    return JSON.parse(popped[0]) as QueuedTask;
+  }
+
+  async remove(taskId: string): Promise<boolean> {
+    let removed = false;
+
+    for (const key of [this.readyKey, this.delayedKey]) {
+      const payloads = await this.client.zrange(key, 0, -1);
+      for (const payload of payloads) {
+        if ((JSON.parse(payload) as QueuedTask).task.id === taskId) {
+          removed = (await this.client.zrem(key, payload)) === 1 || removed;
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  async size(): Promise<number> {
+    const [ready, delayed] = await Promise.all([
+      this.client.zcard(this.readyKey),
+      this.client.zcard(this.delayedKey)
+    ]);
+    return ready + delayed;
+  }
+
+  async saveRecord(record: TaskRecord, ttl?: number): Promise<void> {
+    const key = this.recordPrefix + record.id;
+    if (ttl) {
+      await this.client.set(key, JSON.stringify(record), 'PX', ttl);
+    } else {
+      // A plain SET also clears the expiry of a record that is reused, e.g. on resume
+      await this.client.set(key, JSON.stringify(record));
+    }
+  }
+
+  async getRecord(taskId: string): Promise<TaskRecord | undefined> {
+    const payload = await this.client.get(this.recordPrefix + taskId);
+    return payload ? JSON.parse(payload) as TaskRecord : undefined;
+  }
+
+  async saveHeartbeat(taskId: string, ttl: number): Promise<void> {
+    await this.client.set(this.heartbeatPrefix + taskId, Date.now().toString(), 'PX', ttl);
+  }
+
+  async hasHeartbeat(taskId: string): Promise<boolean> {
+    return (await this.client.exists(this.heartbeatPrefix + taskId)) === 1;
+  }
+
+  private async promoteDelayed(): Promise<void> {
+    const due = await this.client.zrangebyscore(this.delayedKey, 0, Date.now());
+
+    for (const payload of due) {
+      // Only the process whose ZREM succeeds moves the entry
+      const removed = await this.client.zrem(this.delayedKey, payload);
+      if (removed === 1) {
+        await this.push(JSON.parse(payload) as QueuedTask);
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Track record of one swarm profile (an agent role) across tasks
+ */
+export interface ReputationProfile {
+  profile: string;
+  /** Swarm tasks the profile took part in */
+  swarms: number;
+  /** Agent runs, successful or not */
+  runs: number;
+  successes: number;
+  successRate: number;
+  /** Mean run time in milliseconds */
+  averageTime: number;
+  specialties: Record<string, number>;
+  updatedAt: number;
+}
+
+/**
+ * What one swarm agent did during a task
+ */
+export interface ReputationUpdate {
+  profile: string;
+  runs: number;
+  successes: number;
+  totalTime: number;
+  specialties?: Record<string, number>;
+}
+
+/** Runs a profile needs before its history outweighs the neutral prior */
+const PRIOR_RUNS = 2;
+
+/**
+ * Success rate smoothed towards 0.5, so a profile with one lucky run does
+ * not outrank one with a long record
+ */
+export function reputationScore(profile: Pick<ReputationProfile, 'runs' | 'successes'> | undefined): number {
+  if (!profile) {
+    return 0.5;
+  }
+  return (profile.successes + PRIOR_RUNS * 0.5) / (profile.runs + PRIOR_RUNS);
+}
+
+/**
+ * File-based store for swarm agent reputation, one JSON document at
+ * `<storage.path>/reputation.json`. Updates from the swarms of one process
+ * are applied one at a time and written through a temporary file and a
+ * rename, like checkpoints.
+ */
+export class ReputationStore {
+  private file: string;
+  private logger: Logger;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(storagePath: string) {
+    this.file = resolve(storagePath, 'reputation.json');
+    this.logger = new Logger('ReputationStore');
+  }
+
+  async load(): Promise<Record<string, ReputationProfile>> {
+    try {
+      const content = await fs.readFile(this.file, 'utf8');
+      return JSON.parse(content).profiles || {};
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        this.logger.warn('Ignoring unreadable reputation store', { error: error?.message });
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Profiles ranked by reputationScore, best first
+   */
+  async leaderboard(): Promise<ReputationProfile[]> {
+    const profiles = Object.values(await this.load());
+    return profiles.sort((a, b) => reputationScore(b) - reputationScore(a) || b.runs - a.runs);
+  }
+
+  async record(updates: ReputationUpdate[]): Promise<void> {
+    const write = this.writing.then(() => this.apply(updates));
+    // A failed write must not block the ones queued after it
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private async apply(updates: ReputationUpdate[]): Promise<void> {
+    const profiles = await this.load();
+    const now = Date.now();
+
+    for (const update of updates.filter(entry => entry.runs > 0)) {
+      const current = profiles[update.profile];
+      const runs = (current?.runs || 0) + update.runs;
+      const successes = (current?.successes || 0) + update.successes;
+      const totalTime = (current ? current.averageTime * current.runs : 0) + update.totalTime;
+      const specialties = { ...current?.specialties };
+      for (const [specialty, score] of Object.entries(update.specialties || {})) {
+        specialties[specialty] = (specialties[specialty] || 0) + score;
+      }
+
+      profiles[update.profile] = {
+        profile: update.profile,
+        swarms: (current?.swarms || 0) + 1,
+        runs,
+        successes,
+        successRate: successes / runs,
+        averageTime: totalTime / runs,
+        specialties,
+        updatedAt: now
+      };
+    }
+
+    await fs.mkdir(dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ profiles, updatedAt: now }, null, 2));
+    await fs.rename(temporary, this.file);
+  }
+}
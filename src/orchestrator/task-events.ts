@@ -0,0 +1,69 @@
+import { on, type EventEmitter } from 'events';
+import type { TaskEvent } from '../types/index.js';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * A task event before it is stamped with its task id and time
+ */
+export type TaskEventInit = DistributiveOmit<TaskEvent, 'taskId' | 'timestamp'>;
+
+export function createTaskEvent(taskId: string, event: TaskEventInit): TaskEvent {
+  return { ...event, taskId, timestamp: Date.now() } as TaskEvent;
+}
+
+export interface TaskEventStreamOptions {
+  /** Ends the stream early */
+  signal?: AbortSignal;
+  /** The task's final event when it has already finished, so the stream does not wait forever */
+  finishedEvent?: () => Promise<TaskEvent | undefined>;
+}
+
+/**
+ * Async iterator over the 'taskEvent's `source` emits for one task, ending
+ * after its task.finished event. Listening starts immediately, so nothing
+ * emitted before the first next() is lost.
+ */
+export function streamTaskEvents(
+  source: EventEmitter,
+  taskId: string,
+  options: TaskEventStreamOptions = {}
+): AsyncIterableIterator<TaskEvent> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  if (options.signal?.aborted) {
+    controller.abort();
+  }
+  const events = on(source, 'taskEvent', { signal: controller.signal });
+
+  async function* stream(): AsyncGenerator<TaskEvent> {
+    try {
+      const finished = await options.finishedEvent?.();
+      if (finished) {
+        yield finished;
+        return;
+      }
+
+      for await (const [event] of events as AsyncIterable<[TaskEvent]>) {
+        if (event.taskId !== taskId) {
+          continue;
+        }
+        yield event;
+        if (event.type === 'task.finished') {
+          return;
+        }
+      }
+    } catch (error) {
+      // Aborting through the signal just ends the stream
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      controller.abort();
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  return stream();
+}
@@ -1,24 +1,357 @@
 import { EventEmitter } from 'events';
-import type { TaskQueueConfig } from '../types/index.js';
+import { hostname } from 'os';
+import { InMemoryQueueBackend, RedisQueueBackend } from './queue-backends.js';
+import { Logger } from '../utils/logger.js';
+import type { QueueBackend, QueuedTask } from './queue-backends.js';
+import type { Task, TaskRecord, TaskResult, TaskQueueConfig } from '../types/index.js';
 
+export type TaskHandler = (task: Task) => Promise<TaskResult>;
+
+const DEFAULT_RECORD_TTL = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_HEARTBEAT_TTL = 30 * 1000;
+
+/**
+ * Priority task queue with bounded concurrency and retries.
+ *
+ * Tasks are stored in a QueueBackend (in-memory, or Redis when `redisUrl` is
+ * configured so several orchestrator processes can share work) and run by the
+ * handler registered with process(). Failed tasks are retried up to
+ * `Task.retryAttempts` times with exponential backoff starting at `retryDelay`.
+ * Every task has a TaskRecord in the backend that tracks its state, so a
+ * process without a handler can still submit, inspect and cancel tasks.
+ * Records of finished tasks expire after `recordTtl`. While a task runs its
+ * owner refreshes a heartbeat on every poll, so a record left 'running' by a
+ * process that died can be told apart from a live one (see isAbandoned()).
+ */
 export class TaskQueue extends EventEmitter {
-  private _config: TaskQueueConfig;
-  
-  constructor(config: TaskQueueConfig) {
+  private config: TaskQueueConfig;
+  private backend: QueueBackend;
+  private logger: Logger;
+  private handler?: TaskHandler;
+  private active: Set<string> = new Set();
+  private cancelled: Set<string> = new Set();
+  private running = false;
+  private pumping = false;
+  private pumpRequested = false;
+  private pollTimer?: NodeJS.Timeout;
+  private queueSize = 0;
+  private stats = { completed: 0, failed: 0, retried: 0 };
+  private recordTtl: number;
+  private heartbeatTtl: number;
+
+  constructor(config: TaskQueueConfig, backend?: QueueBackend) {
     super();
-    this._config = config;
+    this.config = config;
+    this.logger = new Logger('TaskQueue');
+    this.recordTtl = config.recordTtl ?? DEFAULT_RECORD_TTL;
+    this.heartbeatTtl = config.heartbeatTtl ?? DEFAULT_HEARTBEAT_TTL;
+    this.backend = backend || (config.redisUrl
+      ? new RedisQueueBackend(config.redisUrl, config.keyPrefix)
+      : new InMemoryQueueBackend());
   }
 
   async start(): Promise<void> {
-    // TODO: Start task queue
+    if (this.running) {
+      return;
+    }
+
+    await this.backend.connect();
+    this.running = true;
+
+    // Polling picks up work pushed by other processes, retries coming due
+    // and cancellations requested from other processes
+    this.pollTimer = setInterval(() => {
+      this.pump();
+      this.checkCancellations().catch(error => this.logger.error('Failed to check cancellations:', error));
+      this.refreshHeartbeats().catch(error => this.logger.error('Failed to refresh heartbeats:', error));
+    }, this.config.pollInterval || 1000);
+    this.pollTimer.unref();
+
+    this.logger.info('Task queue started', {
+      backend: this.backend.name,
+      maxConcurrency: this.config.maxConcurrency
+    });
+    this.pump();
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop task queue
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    await this.backend.disconnect();
+    this.logger.info('Task queue stopped', { inFlight: this.active.size });
+  }
+
+  /**
+   * Register the function that executes dequeued tasks
+   */
+  process(handler: TaskHandler): void {
+    this.handler = handler;
+    this.pump();
+  }
+
+  async enqueue(task: Task): Promise<void> {
+    if (!this.running) {
+      throw new Error('Task queue is not running');
+    }
+
+    // The abort signal and usage meter only make sense inside the executing process
+    const storedTask: Task = { ...task };
+    delete storedTask.signal;
+    delete storedTask.usage;
+    const enqueuedAt = Date.now();
+
+    await this.backend.saveRecord({
+      id: task.id,
+      task: storedTask,
+      state: 'queued',
+      attempts: 0,
+      submittedAt: enqueuedAt
+    });
+    await this.backend.push({ task: storedTask, attempts: 0, enqueuedAt });
+    this.queueSize++;
+    this.emit('taskQueued', task.id, storedTask);
+    this.pump();
+  }
+
+  async getRecord(taskId: string): Promise<TaskRecord | undefined> {
+    return this.backend.getRecord(taskId);
+  }
+
+  /**
+   * Whether a 'running' record was left behind by a process that is gone:
+   * its owner stopped refreshing the heartbeat, or runs on this host and has
+   * exited.
+   */
+  async isAbandoned(record: TaskRecord): Promise<boolean> {
+    if (record.state !== 'running') {
+      return false;
+    }
+    if (record.owner?.host === hostname() && !isProcessAlive(record.owner.pid)) {
+      return true;
+    }
+    return !(await this.backend.hasHeartbeat(record.id));
+  }
+
+  /**
+   * Cancel a task. Queued tasks are removed from the backend; for a running
+   * task the record is marked cancelled and 'taskCancelled' is emitted so the
+   * executing process can abort it. Returns false for unknown or finished tasks.
+   */
+  async cancel(taskId: string): Promise<boolean> {
+    const record = await this.backend.getRecord(taskId);
+    if (!record || this.isTerminal(record)) {
+      return false;
+    }
+
+    await this.backend.remove(taskId);
+    await this.backend.saveRecord({ ...record, state: 'cancelled', finishedAt: Date.now() }, this.recordTtl);
+    // Only runs in this process clear their id again when they finish
+    if (this.active.has(taskId)) {
+      this.cancelled.add(taskId);
+    }
+    this.queueSize = await this.backend.size();
+    this.emit('taskCancelled', taskId);
+    return true;
+  }
+
+  /**
+   * Take the next task off the queue without running it
+   */
+  async dequeue(): Promise<Task | undefined> {
+    const entry = await this.backend.pop();
+    this.queueSize = await this.backend.size();
+    return entry?.task;
   }
 
   getStatus(): any {
-    // TODO: Return queue status
-    return { queueSize: 0, processing: 0 };
+    return {
+      backend: this.backend.name,
+      queueSize: this.queueSize,
+      processing: this.active.size,
+      maxConcurrency: this.config.maxConcurrency,
+      ...this.stats
+    };
+  }
+
+  private pump(): void {
+    if (!this.running || !this.handler) {
+      return;
+    }
+    if (this.pumping) {
+      this.pumpRequested = true;
+      return;
+    }
+
+    this.pumping = true;
+    this.fillSlots()
+      .catch(error => this.logger.error('Failed to dequeue tasks:', error))
+      .finally(() => {
+        this.pumping = false;
+        if (this.pumpRequested) {
+          this.pumpRequested = false;
+          this.pump();
+        }
+      });
+  }
+
+  private async fillSlots(): Promise<void> {
+    while (this.running && this.active.size < this.config.maxConcurrency) {
+      const entry = await this.backend.pop();
+      if (!entry) {
+        break;
+      }
+
+      const record = await this.backend.getRecord(entry.task.id);
+      if (record?.state === 'cancelled') {
+        continue;
+      }
+      this.runEntry(entry, record);
+    }
+
+    this.queueSize = await this.backend.size();
+  }
+
+  private async runEntry(entry: QueuedTask, record?: TaskRecord): Promise<void> {
+    const { task } = entry;
+    entry.attempts++;
+    this.active.add(task.id);
+
+    const baseRecord: TaskRecord = record || {
+      id: task.id,
+      task,
+      state: 'queued',
+      attempts: 0,
+      submittedAt: entry.enqueuedAt
+    };
+    await this.updateRecord({
+      ...baseRecord,
+      state: 'running',
+      attempts: entry.attempts,
+      startedAt: baseRecord.startedAt ?? Date.now(),
+      owner: { host: hostname(), pid: process.pid }
+    });
+    await this.backend.saveHeartbeat(task.id, this.heartbeatTtl)
+      .catch(error => this.logger.error(`Failed to save heartbeat for task ${task.id}:`, error));
+    this.emit('taskStarted', task.id, entry.attempts);
+
+    let result: TaskResult | undefined;
+    let error: Error | undefined;
+
+    try {
+      if (this.cancelled.has(task.id)) {
+        throw new Error('Task cancelled');
+      }
+      result = await this.handler!(task);
+      if (!result.success) {
+        error = new Error(result.error || 'Task reported failure');
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught : new Error(String(caught));
+    } finally {
+      this.active.delete(task.id);
+    }
+
+    if (await this.wasCancelled(task.id)) {
+      // Rewrite the record in case cancel() raced with the 'running' update
+      this.cancelled.delete(task.id);
+      await this.updateRecord({ ...baseRecord, state: 'cancelled', attempts: entry.attempts, result, finishedAt: Date.now() });
+    } else if (!error) {
+      this.stats.completed++;
+      await this.updateRecord({ ...baseRecord, state: 'succeeded', attempts: entry.attempts, result, finishedAt: Date.now() });
+      this.emit('taskCompleted', task.id, result);
+    } else if (entry.attempts <= (task.retryAttempts ?? 0)) {
+      const delay = this.config.retryDelay * 2 ** (entry.attempts - 1);
+      this.stats.retried++;
+      this.logger.warn(`Retrying task ${task.id} in ${delay}ms`, {
+        attempt: entry.attempts,
+        error: error.message
+      });
+      this.emit('taskRetrying', task.id, entry.attempts, delay, error);
+
+      try {
+        await this.updateRecord({ ...baseRecord, state: 'queued', attempts: entry.attempts, error: error.message });
+        await this.backend.push(entry, Date.now() + delay);
+        setTimeout(() => this.pump(), delay).unref();
+      } catch (pushError) {
+        this.stats.failed++;
+        this.emit('taskFailed', task.id, pushError, result);
+      }
+    } else {
+      this.stats.failed++;
+      await this.updateRecord({
+        ...baseRecord,
+        state: 'failed',
+        attempts: entry.attempts,
+        result,
+        error: error.message,
+        finishedAt: Date.now()
+      });
+      this.emit('taskFailed', task.id, error, result);
+    }
+
+    this.pump();
+  }
+
+  private async updateRecord(record: TaskRecord): Promise<void> {
+    try {
+      await this.backend.saveRecord(record, this.isTerminal(record) ? this.recordTtl : undefined);
+    } catch (error) {
+      this.logger.error(`Failed to update record for task ${record.id}:`, error);
+    }
+  }
+
+  private async wasCancelled(taskId: string): Promise<boolean> {
+    if (this.cancelled.has(taskId)) {
+      return true;
+    }
+
+    const record = await this.backend.getRecord(taskId).catch(() => undefined);
+    return record?.state === 'cancelled';
+  }
+
+  /**
+   * Notice cancellations of locally running tasks made by other processes
+   */
+  private async checkCancellations(): Promise<void> {
+    for (const taskId of this.active) {
+      if (this.cancelled.has(taskId)) {
+        continue;
+      }
+
+      const record = await this.backend.getRecord(taskId);
+      // The task may have finished while the record was read
+      if (record?.state === 'cancelled' && this.active.has(taskId)) {
+        this.cancelled.add(taskId);
+        this.emit('taskCancelled', taskId);
+      }
+    }
+  }
+
+  private async refreshHeartbeats(): Promise<void> {
+    for (const taskId of this.active) {
+      await this.backend.saveHeartbeat(taskId, this.heartbeatTtl);
+    }
+  }
+
+  private isTerminal(record: TaskRecord): boolean {
+    return record.state === 'succeeded' || record.state === 'failed' || record.state === 'cancelled';
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to another user
+    return error.code === 'EPERM';
   }
-}
\ No newline at end of file
+}
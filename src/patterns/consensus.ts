@@ -1,22 +1,433 @@
-import type { Task, TaskResult, ConsensusConfig, PatternExecutor } from '../types/index.js';
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { tracer, traceContextOf } from '../monitoring/tracing.js';
+import { createTaskEvent, type TaskEventInit } from '../orchestrator/task-events.js';
+import type { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
+import type { AgentPool } from '../orchestrator/agent-pool.js';
+import type {
+  Task,
+  TaskResult,
+  ConsensusConfig,
+  PatternExecutor,
+  Proposal,
+  Vote,
+  Agreement
+} from '../types/index.js';
 
-export class ConsensusPattern implements PatternExecutor {
-  private agentPool: any;
-  private config?: ConsensusConfig;
-  
-  constructor(agentPool: any, config?: ConsensusConfig) {
+interface ConsensusRound {
+  round: number;
+  proposals: Proposal[];
+  votes: Vote[];
+  voteMatrix: Record<string, Record<string, number>>;
+  agreement: Agreement | null;
+}
+
+/**
+ * ConsensusPattern - Several agents answer independently, rank each other's
+ * answers and revise their own until enough of them agree on one answer.
+ *
+ * Proposals with the same answer are counted as one. Agreement for a round
+ * is the share of agents backing the leading answer: those whose first
+ * choice is one of its proposals, and authors of it who did not vote.
+ */
+export class ConsensusPattern extends EventEmitter implements PatternExecutor {
+  private agentPool: AgentPool;
+  private config: ConsensusConfig;
+  private logger: Logger;
+
+  constructor(agentPool: AgentPool, config?: ConsensusConfig) {
+    super();
     this.agentPool = agentPool;
-    this.config = config;
+    this.config = {
+      minAgents: 3,
+      agreementThreshold: 0.8,
+      maxRounds: 5,
+      ...config
+    };
+    this.logger = new Logger('ConsensusPattern');
   }
 
   async execute(task: Task): Promise<TaskResult> {
-    // TODO: Implement consensus pattern execution
-    return {
-      taskId: task.id,
-      success: true,
-      result: { message: 'Consensus pattern not yet implemented' },
-      executionTime: 3000,
-      agentsUsed: ['agent-1', 'agent-2', 'agent-3']
-    };
+    const startTime = Date.now();
+    const agents: ClaudeCodeAgent[] = [];
+    const rounds: ConsensusRound[] = [];
+    let proposals: Proposal[] = [];
+
+    try {
+      const agentCount = Math.max(this.config.minAgents, task.metadata?.agents || 0);
+      if (agentCount > this.agentPool.getCapacity()) {
+        throw new Error(`Consensus needs ${agentCount} agents but the pool holds ${this.agentPool.getCapacity()}`);
+      }
+
+      for (let i = 0; i < agentCount; i++) {
+        const agent = await this.agentPool.acquire();
+        agents.push(agent);
+        this.emitTaskEvent(task.id, { type: 'agent.assigned', agentId: agent.id });
+      }
+
+      // Round 1 starts from independent answers
+      proposals = await this.collectAnswers(task, agents, 1);
+
+      for (let round = 1; round <= this.config.maxRounds; round++) {
+        if (task.signal?.aborted) {
+          throw new Error('Task cancelled');
+        }
+
+        if (round > 1) {
+          proposals = await this.collectRevisions(task, agents, round, rounds[rounds.length - 1]);
+        }
+        if (proposals.length < 2) {
+          throw new Error(`Only ${proposals.length} agent(s) produced an answer; consensus needs at least 2`);
+        }
+
+        const votes = await this.collectVotes(task, agents, round, proposals);
+        const agreement = this.measureAgreement(proposals, votes);
+        rounds.push({
+          round,
+          proposals,
+          votes,
+          voteMatrix: this.buildVoteMatrix(votes),
+          agreement
+        });
+
+        this.logger.info(`Consensus round ${round} finished`, {
+          taskId: task.id,
+          agreement: agreement?.supportLevel ?? 0,
+          threshold: this.config.agreementThreshold
+        });
+
+        if (agreement && agreement.supportLevel >= this.config.agreementThreshold) {
+          break;
+        }
+      }
+
+      const finalRound = rounds[rounds.length - 1];
+      const agreement = finalRound.agreement;
+      const agreementLevel = agreement?.supportLevel ?? 0;
+      const consensusReached = !!agreement && agreementLevel >= this.config.agreementThreshold;
+
+      return {
+        taskId: task.id,
+        success: consensusReached,
+        result: {
+          pattern: 'consensus',
+          consensusReached,
+          finalAnswer: agreement?.content,
+          agreementLevel,
+          dissentingOpinions: this.collectDissent(finalRound),
+          rounds: this.summarizeRounds(rounds),
+          description: consensusReached
+            ? `Consensus among ${agents.length} agents after ${rounds.length} round(s)`
+            : `No consensus among ${agents.length} agents after ${rounds.length} round(s)`
+        },
+        error: consensusReached
+          ? undefined
+          : `Agreement ${agreementLevel.toFixed(2)} below threshold ${this.config.agreementThreshold} after ${rounds.length} round(s)`,
+        executionTime: Date.now() - startTime,
+        agentsUsed: agents.map(a => a.id),
+        metadata: {
+          pattern: 'consensus',
+          rounds: rounds.length,
+          agreementThreshold: this.config.agreementThreshold,
+          consensusReached
+        }
+      };
+
+    } catch (error) {
+      return {
+        taskId: task.id,
+        success: false,
+        // What was settled before the failure, e.g. when the task's budget ran out
+        result: proposals.length > 0
+          ? { pattern: 'consensus', proposals, rounds: this.summarizeRounds(rounds) }
+          : undefined,
+        error: error instanceof Error ? error.message : 'Unknown error in consensus execution',
+        executionTime: Date.now() - startTime,
+        agentsUsed: agents.map(a => a.id),
+        metadata: {
+          pattern: 'consensus',
+          rounds: rounds.length
+        }
+      };
+    } finally {
+      await Promise.all(agents.map(agent => this.agentPool.release(agent).catch(() => {})));
+    }
+  }
+
+  private summarizeRounds(rounds: ConsensusRound[]) {
+    return rounds.map(r => ({
+      round: r.round,
+      proposals: r.proposals,
+      voteMatrix: r.voteMatrix,
+      agreementLevel: r.agreement?.supportLevel ?? 0,
+      leadingProposal: r.agreement?.proposalId
+    }));
+  }
+
+  private async collectAnswers(task: Task, agents: ClaudeCodeAgent[], round: number): Promise<Proposal[]> {
+    const prompt = `${task.description}\n\n` +
+      'Answer independently. Respond with JSON: {"answer": <your answer>, "confidence": <0-1>, "reasoning": "<why>"}';
+
+    return this.gatherProposals(task, agents, round, () => prompt);
+  }
+
+  private async collectRevisions(
+    task: Task,
+    agents: ClaudeCodeAgent[],
+    round: number,
+    previous: ConsensusRound
+  ): Promise<Proposal[]> {
+    const peerAnswers = previous.proposals.map(p => ({
+      answer: p.content,
+      support: previous.votes.filter(v => v.proposalId === p.id && v.support).length
+    }));
+
+    return this.gatherProposals(task, agents, round, (agent) => {
+      const own = previous.proposals.find(p => p.agentId === agent.id);
+      return `${task.description}\n\n` +
+        `Your previous answer: ${JSON.stringify(own?.content ?? null)}\n` +
+        `All answers from the last round with their first-choice votes: ${JSON.stringify(peerAnswers)}\n\n` +
+        'Revise your answer, moving towards the strongest arguments where you find them convincing. ' +
+        'Respond with JSON: {"answer": <your answer>, "confidence": <0-1>, "reasoning": "<why>"}';
+    });
+  }
+
+  private async gatherProposals(
+    task: Task,
+    agents: ClaudeCodeAgent[],
+    round: number,
+    buildPrompt: (agent: ClaudeCodeAgent) => string
+  ): Promise<Proposal[]> {
+    this.emitTaskEvent(task.id, { type: 'phase.entered', phase: 'answer', iteration: round });
+    const results = await tracer.trace('consensus.answers', {
+      parent: traceContextOf(task),
+      attributes: { 'task.id': task.id, 'consensus.round': round }
+    }, (span) => Promise.all(agents.map(agent =>
+      agent.execute({
+        ...task,
+        id: `${task.id}-round-${round}-answer-${agent.id}`,
+        description: buildPrompt(agent),
+        pattern: 'proposal',
+        metadata: { ...task.metadata, phase: 'answer', round, traceContext: span.context }
+      })
+    )));
+
+    const proposals: Proposal[] = [];
+    results.forEach((result, index) => {
+      if (!result.success) {
+        this.logger.warn(`Agent ${agents[index].id} produced no answer in round ${round}`, { error: result.error });
+        return;
+      }
+
+      const payload = result.result;
+      const structured = payload && typeof payload === 'object' && 'answer' in payload;
+      proposals.push({
+        id: `r${round}-${agents[index].id}`,
+        agentId: agents[index].id,
+        content: structured ? payload.answer : payload,
+        confidence: structured && typeof payload.confidence === 'number' ? payload.confidence : 0.5,
+        timestamp: Date.now()
+      });
+    });
+
+    for (const proposal of proposals) {
+      this.emitTaskEvent(task.id, {
+        type: 'proposal.made',
+        agentId: proposal.agentId,
+        proposalId: proposal.id,
+        confidence: proposal.confidence,
+        round
+      });
+    }
+    return proposals;
+  }
+
+  /**
+   * Every agent scores the other agents' answers, which are shown under
+   * anonymous labels so that votes are not swayed by authorship.
+   */
+  private async collectVotes(
+    task: Task,
+    agents: ClaudeCodeAgent[],
+    round: number,
+    proposals: Proposal[]
+  ): Promise<Vote[]> {
+    this.emitTaskEvent(task.id, { type: 'phase.entered', phase: 'vote', iteration: round });
+    const ballots = await tracer.trace('consensus.votes', {
+      parent: traceContextOf(task),
+      attributes: { 'task.id': task.id, 'consensus.round': round }
+    }, (span) => Promise.all(agents.map(async (agent) => {
+      const candidates = proposals.filter(p => p.agentId !== agent.id);
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const labels = candidates.map((_, index) => String.fromCharCode(65 + index));
+      const listing = candidates
+        .map((p, index) => `${labels[index]}: ${JSON.stringify(p.content)}`)
+        .join('\n');
+
+      const result = await agent.execute({
+        ...task,
+        id: `${task.id}-round-${round}-vote-${agent.id}`,
+        description: `Question: ${task.description}\n\nCandidate answers:\n${listing}\n\n` +
+          'Rank the candidates from best to worst. Respond with JSON: ' +
+          '{"ranking": ["<label>", ...], "scores": {"<label>": <0-1>}, "reasoning": "<why>"}',
+        pattern: 'vote',
+        metadata: { ...task.metadata, phase: 'vote', round, traceContext: span.context }
+      });
+
+      if (!result.success) {
+        this.logger.warn(`Agent ${agent.id} did not vote in round ${round}`, { error: result.error });
+        return [];
+      }
+
+      return this.parseBallot(agent.id, result.result, candidates, labels);
+    })));
+
+    const votes = ballots.flat();
+    for (const vote of votes) {
+      this.emitTaskEvent(task.id, {
+        type: 'vote.cast',
+        agentId: vote.agentId,
+        proposalId: vote.proposalId,
+        support: vote.support,
+        confidence: vote.confidence,
+        round
+      });
+    }
+    return votes;
+  }
+
+  private emitTaskEvent(taskId: string, event: TaskEventInit): void {
+    this.emit('taskEvent', createTaskEvent(taskId, event));
+  }
+
+  private parseBallot(voterId: string, payload: any, candidates: Proposal[], labels: string[]): Vote[] {
+    if (!payload || typeof payload !== 'object') {
+      return [];
+    }
+
+    const ranking: string[] = Array.isArray(payload.ranking)
+      ? payload.ranking.map((label: any) => String(label).trim().toUpperCase()).filter((label: string) => labels.includes(label))
+      : [];
+    const scores: Record<string, number> = payload.scores && typeof payload.scores === 'object' ? payload.scores : {};
+
+    // Fall back to ordering by score when no usable ranking was given
+    if (ranking.length === 0) {
+      ranking.push(...labels
+        .filter(label => typeof scores[label] === 'number')
+        .sort((a, b) => scores[b] - scores[a]));
+    }
+    if (ranking.length === 0) {
+      return [];
+    }
+
+    return candidates.map((proposal, index) => {
+      const label = labels[index];
+      const position = ranking.indexOf(label);
+      // Borda-style score when the agent gave a ranking but no explicit score
+      const derivedScore = position === -1 ? 0 : (labels.length - position) / labels.length;
+
+      return {
+        agentId: voterId,
+        proposalId: proposal.id,
+        support: position === 0,
+        confidence: typeof scores[label] === 'number' ? scores[label] : derivedScore,
+        reasoning: position === 0 ? payload.reasoning : undefined
+      };
+    });
+  }
+
+  private measureAgreement(proposals: Proposal[], votes: Vote[]): Agreement | null {
+    const groups = this.groupEquivalentAnswers(proposals);
+    const groupOf = new Map<string, Proposal[]>();
+    groups.forEach(group => group.forEach(proposal => groupOf.set(proposal.id, group)));
+
+    // An agent backs the answer it voted first for; authors can't vote for
+    // their own answer, so one who did not vote backs what it wrote
+    const backing = new Map<string, Proposal[]>();
+    for (const proposal of proposals) {
+      backing.set(proposal.agentId, groupOf.get(proposal.id)!);
+    }
+    for (const vote of votes) {
+      if (vote.support && groupOf.has(vote.proposalId)) {
+        backing.set(vote.agentId, groupOf.get(vote.proposalId)!);
+      }
+    }
+    const participants = new Set([...proposals.map(p => p.agentId), ...votes.map(v => v.agentId)]).size;
+
+    let best: Agreement | null = null;
+    let bestScore = -1;
+
+    for (const group of groups) {
+      const ids = group.map(proposal => proposal.id);
+      const backers = Array.from(backing.values()).filter(backed => backed === group).length;
+      const supportLevel = participants > 0 ? backers / participants : 0;
+      // Total score breaks ties between equally supported answers
+      const scores = new Map(ids.map(id => [id, votes
+        .filter(v => v.proposalId === id)
+        .reduce((sum, v) => sum + v.confidence, 0)]));
+      const score = Array.from(scores.values()).reduce((sum, value) => sum + value, 0);
+
+      if (!best || supportLevel > best.supportLevel || (supportLevel === best.supportLevel && score > bestScore)) {
+        // The best scored of the equivalent proposals stands for the answer
+        const representative = [...group].sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)[0];
+        best = { proposalId: representative.id, supportLevel, content: representative.content, proposalIds: ids };
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Group proposals whose answers are the same once case, whitespace and
+   * trailing punctuation (for text) or key order (for JSON) are ignored
+   */
+  private groupEquivalentAnswers(proposals: Proposal[]): Proposal[][] {
+    const groups = new Map<string, Proposal[]>();
+    for (const proposal of proposals) {
+      const key = this.normalizeAnswer(proposal.content);
+      groups.set(key, [...(groups.get(key) || []), proposal]);
+    }
+    return Array.from(groups.values());
+  }
+
+  private normalizeAnswer(content: any): string {
+    if (typeof content === 'string') {
+      return content.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+    }
+    return JSON.stringify(content, (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+        : value
+    ) ?? String(content);
+  }
+
+  private buildVoteMatrix(votes: Vote[]): Record<string, Record<string, number>> {
+    const matrix: Record<string, Record<string, number>> = {};
+    for (const vote of votes) {
+      matrix[vote.agentId] = matrix[vote.agentId] || {};
+      matrix[vote.agentId][vote.proposalId] = vote.confidence;
+    }
+    return matrix;
+  }
+
+  private collectDissent(round: ConsensusRound): any[] {
+    const leader = round.agreement?.proposalId;
+    if (!leader) {
+      return [];
+    }
+    const leading = round.agreement?.proposalIds ?? [leader];
+
+    return round.votes
+      .filter(v => v.support && !leading.includes(v.proposalId))
+      .map(v => ({
+        agentId: v.agentId,
+        preferredProposal: v.proposalId,
+        answer: round.proposals.find(p => p.id === v.proposalId)?.content,
+        reasoning: v.reasoning
+      }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { orderStages } from './pipeline-definition.js';
+
+export const MAX_PLAN_STEPS = 20;
+
+const PlanStepSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'must be letters, digits, "_", "-" or "."'),
+  description: z.string().trim().min(1),
+  dependsOn: z.array(z.string()).default([]),
+  capabilities: z.array(z.string()).default([]),
+  acceptanceCriteria: z.array(z.string()).default([])
+});
+
+export interface PlanContext {
+  /** Steps outside the plan that have already completed and may be depended on */
+  completedSteps?: string[];
+  /** Ids already taken by other steps */
+  reservedIds?: string[];
+}
+
+/**
+ * Schema for the structured plans swarm agents are asked for. Step ids must
+ * be unique and dependencies must name other steps (or completed ones from
+ * `context`) without forming a cycle; steps that do not depend on each other
+ * run in parallel.
+ */
+export function executionPlanSchema(context: PlanContext = {}) {
+  const completed = new Set(context.completedSteps || []);
+  const reserved = new Set(context.reservedIds || []);
+
+  return z.object({
+    steps: z.array(PlanStepSchema).min(1).max(MAX_PLAN_STEPS)
+  }).superRefine((plan, ctx) => {
+    const ids = new Set<string>();
+    plan.steps.forEach((step, index) => {
+      if (ids.has(step.id) || reserved.has(step.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'id'], message: `duplicate step id "${step.id}"` });
+      }
+      ids.add(step.id);
+    });
+
+    let dependenciesKnown = true;
+    plan.steps.forEach((step, index) => {
+      step.dependsOn.forEach((dependency, position) => {
+        if ((!ids.has(dependency) && !completed.has(dependency)) || dependency === step.id) {
+          dependenciesKnown = false;
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['steps', index, 'dependsOn', position],
+            message: dependency === step.id ? 'a step cannot depend on itself' : `unknown step "${dependency}"`
+          });
+        }
+      });
+    });
+
+    if (dependenciesKnown && ids.size === plan.steps.length) {
+      try {
+        // Completed steps are already satisfied, so only edges inside the plan can form a cycle
+        orderStages(plan.steps.map(step => ({ name: step.id, dependsOn: step.dependsOn.filter(dependency => ids.has(dependency)) })));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps'], message: 'steps form a dependency cycle' });
+      }
+    }
+  });
+}
+
+export const ExecutionPlanSchema = executionPlanSchema();
+
+export type StructuredPlan = z.infer<typeof ExecutionPlanSchema>;
+export type StructuredPlanStep = StructuredPlan['steps'][number];
+
+export type PlanParseResult =
+  | { success: true; plan: StructuredPlan }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate a plan an agent produced. JSON text is parsed first, from the
+ * first code fence when the agent wrapped it in one; a bare array is taken
+ * as the step list.
+ */
+export function parseExecutionPlan(raw: unknown, context?: PlanContext): PlanParseResult {
+  let value = raw;
+  if (typeof value === 'string') {
+    const fenced = value.match(/```(?:json)?\s*([\s\S]*?)```/);
+    try {
+      value = JSON.parse(fenced ? fenced[1] : value);
+    } catch {
+      return { success: false, errors: ['plan is not valid JSON'] };
+    }
+  }
+  if (Array.isArray(value)) {
+    value = { steps: value };
+  }
+
+  const parsed = executionPlanSchema(context).safeParse(value);
+  if (parsed.success) {
+    return { success: true, plan: parsed.data };
+  }
+  return {
+    success: false,
+    errors: parsed.error.issues.map(issue => `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`)
+  };
+}
+
+/**
+ * The plan format as described to agents
+ */
+export const EXECUTION_PLAN_FORMAT =
+  '{"steps": [{"id": "<short unique id>", "description": "<what to do>", ' +
+  '"dependsOn": ["<ids of steps that must finish first>"], "capabilities": ["<capabilities the step needs>"], ' +
+  '"acceptanceCriteria": ["<how to tell the step is done>"]}]}';
@@ -1,22 +1,405 @@
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { tracer, traceContextOf, withTraceContext } from '../monitoring/tracing.js';
+import { createTaskEvent } from '../orchestrator/task-events.js';
+import type { AgentPool } from '../orchestrator/agent-pool.js';
 import type { Task, TaskResult, MapReduceConfig, PatternExecutor } from '../types/index.js';
 
-export class MapReducePattern implements PatternExecutor {
-  private agentPool: any;
-  private config?: MapReduceConfig;
-  
-  constructor(agentPool: any, config?: MapReduceConfig) {
+type InputKind = 'text' | 'files' | 'records';
+
+interface MapInput {
+  kind: InputKind;
+  chunks: any[];
+  mapPrompt?: string;
+  reducePrompt?: string;
+}
+
+interface ChunkReport {
+  index: number;
+  status: 'succeeded' | 'failed';
+  attempts: number;
+  retried: boolean;
+  agentId?: string;
+  error?: string;
+}
+
+interface ReduceLevel {
+  level: number;
+  inputs: number;
+  outputs: number;
+}
+
+/**
+ * MapReducePattern - Splits the input in task.context into chunks, maps every
+ * chunk on a pooled agent and folds the partial results with a tree of
+ * reducers until a single output remains.
+ *
+ * task.context may be a string (or { text }), an array of records (or
+ * { records }) or { files: string[] } whose paths the mappers read
+ * themselves. Optional mapPrompt, reducePrompt, chunkSize and reduceFanIn
+ * fields override the task description and the pattern config.
+ */
+export class MapReducePattern extends EventEmitter implements PatternExecutor {
+  private agentPool: AgentPool;
+  private config: MapReduceConfig;
+  private logger: Logger;
+
+  constructor(agentPool: AgentPool, config?: Partial<MapReduceConfig>) {
+    super();
     this.agentPool = agentPool;
-    this.config = config;
+    this.config = {
+      chunkSize: 1000,
+      maxMappers: 5,
+      maxReducers: 2,
+      reduceStrategy: 'merge',
+      reduceFanIn: 4,
+      chunkRetries: 2,
+      ...this.definedOnly(config)
+    };
+    this.logger = new Logger('MapReducePattern');
   }
 
   async execute(task: Task): Promise<TaskResult> {
-    // TODO: Implement mapreduce pattern execution
-    return {
-      taskId: task.id,
-      success: true,
-      result: { message: 'MapReduce pattern not yet implemented' },
-      executionTime: 4000,
-      agentsUsed: ['agent-1', 'agent-2', 'agent-3', 'agent-4']
+    const startTime = Date.now();
+    const agentsUsed = new Set<string>();
+    const strategy = this.config.reduceStrategy || 'merge';
+    let chunkReports: ChunkReport[] = [];
+    const reduceLevels: ReduceLevel[] = [];
+
+    try {
+      const input = this.parseInput(task);
+      if (strategy === 'custom' && !input.reducePrompt) {
+        throw new Error('The custom reduce strategy requires task.context.reducePrompt');
+      }
+
+      this.logger.info(`Mapping ${input.chunks.length} ${input.kind} chunk(s)`, {
+        taskId: task.id,
+        maxMappers: this.config.maxMappers,
+        reduceStrategy: strategy
+      });
+
+      // Map phase
+      this.emit('taskEvent', createTaskEvent(task.id, { type: 'phase.entered', phase: 'map' }));
+      const mapped = await tracer.trace('mapreduce.map', {
+        parent: traceContextOf(task),
+        attributes: { 'task.id': task.id, 'mapreduce.chunks': input.chunks.length }
+      }, async (span) => {
+        const results = await this.runBounded(input.chunks, this.config.maxMappers, (chunk, index) =>
+          this.mapChunk(withTraceContext(task, span), input, chunk, index, agentsUsed)
+        );
+        const failed = results.filter(m => m.report.status === 'failed').length;
+        span.setAttribute('mapreduce.failed_chunks', failed);
+        if (failed > 0) {
+          span.setError(`${failed} chunk(s) failed to map`);
+        }
+        return results;
+      });
+      chunkReports = mapped.map(m => m.report);
+
+      const outputs = mapped.filter(m => m.report.status === 'succeeded').map(m => m.output);
+      const failedChunks = chunkReports.filter(r => r.status === 'failed');
+      if (outputs.length === 0) {
+        throw new Error(`All ${input.chunks.length} chunk(s) failed to map`);
+      }
+
+      // Reduce phase: fold groups of reduceFanIn outputs level by level
+      let level = 0;
+      let current = outputs;
+      while (current.length > 1) {
+        this.throwIfCancelled(task);
+        level++;
+
+        const groups: any[][] = [];
+        for (let i = 0; i < current.length; i += this.config.reduceFanIn!) {
+          groups.push(current.slice(i, i + this.config.reduceFanIn!));
+        }
+
+        this.emit('taskEvent', createTaskEvent(task.id, { type: 'phase.entered', phase: 'reduce', iteration: level }));
+        const reduced = await tracer.trace('mapreduce.reduce', {
+          parent: traceContextOf(task),
+          attributes: { 'task.id': task.id, 'mapreduce.level': level, 'mapreduce.groups': groups.length }
+        }, (span) => this.runBounded(groups, this.config.maxReducers, (group, index) =>
+          this.reduceGroup(withTraceContext(task, span), input, group, level, index, agentsUsed)
+        ));
+        reduceLevels.push({ level, inputs: current.length, outputs: reduced.length });
+        current = reduced;
+      }
+
+      const retriedChunks = chunkReports.filter(r => r.retried).map(r => r.index);
+
+      return {
+        taskId: task.id,
+        success: failedChunks.length === 0,
+        result: {
+          pattern: 'mapreduce',
+          output: current[0],
+          chunks: chunkReports,
+          retriedChunks,
+          reduceLevels,
+          description: `Mapped ${input.chunks.length} chunk(s) and reduced them in ${reduceLevels.length} level(s)`
+        },
+        error: failedChunks.length > 0
+          ? `${failedChunks.length} of ${input.chunks.length} chunk(s) failed: ${failedChunks.map(r => r.index).join(', ')}`
+          : undefined,
+        executionTime: Date.now() - startTime,
+        agentsUsed: Array.from(agentsUsed),
+        metadata: {
+          pattern: 'mapreduce',
+          inputKind: input.kind,
+          chunkCount: input.chunks.length,
+          failedChunks: failedChunks.length,
+          retriedChunks: retriedChunks.length,
+          reduceStrategy: strategy
+        }
+      };
+
+    } catch (error) {
+      return {
+        taskId: task.id,
+        success: false,
+        result: chunkReports.length > 0 ? { pattern: 'mapreduce', chunks: chunkReports, reduceLevels } : undefined,
+        error: error instanceof Error ? error.message : 'Unknown error in mapreduce execution',
+        executionTime: Date.now() - startTime,
+        agentsUsed: Array.from(agentsUsed),
+        metadata: {
+          pattern: 'mapreduce',
+          reduceStrategy: strategy
+        }
+      };
+    }
+  }
+
+  private parseInput(task: Task): MapInput {
+    const context = task.context;
+    const chunkSize = Math.max(1, context?.chunkSize || this.config.chunkSize);
+    const prompts = {
+      mapPrompt: typeof context?.mapPrompt === 'string' ? context.mapPrompt : undefined,
+      reducePrompt: typeof context?.reducePrompt === 'string' ? context.reducePrompt : undefined
     };
+
+    if (typeof context === 'string' || typeof context?.text === 'string') {
+      const text = typeof context === 'string' ? context : context.text;
+      return { kind: 'text', chunks: this.chunkText(text, chunkSize), ...prompts };
+    }
+    if (Array.isArray(context?.files)) {
+      return { kind: 'files', chunks: this.chunkList(context.files, chunkSize), ...prompts };
+    }
+    if (Array.isArray(context) || Array.isArray(context?.records)) {
+      const records = Array.isArray(context) ? context : context.records;
+      return { kind: 'records', chunks: this.chunkList(records, chunkSize), ...prompts };
+    }
+
+    throw new Error('MapReduce needs input in task.context: a string, { text }, { files } or an array of records');
+  }
+
+  /**
+   * Split text into chunks of at most chunkSize characters, breaking at the
+   * last line boundary inside the window when there is one
+   */
+  private chunkText(text: string, chunkSize: number): string[] {
+    const chunks: string[] = [];
+    let offset = 0;
+
+    while (offset < text.length) {
+      let end = Math.min(offset + chunkSize, text.length);
+      if (end < text.length) {
+        const newline = text.lastIndexOf('\n', end - 1);
+        if (newline >= offset) {
+          end = newline + 1;
+        }
+      }
+      chunks.push(text.slice(offset, end));
+      offset = end;
+    }
+
+    if (chunks.length === 0) {
+      throw new Error('MapReduce input text is empty');
+    }
+    return chunks;
+  }
+
+  private chunkList(items: any[], chunkSize: number): any[][] {
+    if (items.length === 0) {
+      throw new Error('MapReduce input list is empty');
+    }
+
+    const chunks: any[][] = [];
+    for (let i = 0; i < items.length; i += chunkSize) {
+      chunks.push(items.slice(i, i + chunkSize));
+    }
+    return chunks;
+  }
+
+  private async mapChunk(
+    task: Task,
+    input: MapInput,
+    chunk: any,
+    index: number,
+    agentsUsed: Set<string>
+  ): Promise<{ report: ChunkReport; output?: any }> {
+    const instructions = input.mapPrompt || task.description;
+    const body = input.kind === 'files'
+      ? `Files to process:\n${(chunk as string[]).join('\n')}`
+      : input.kind === 'records'
+        ? `Records:\n${JSON.stringify(chunk, null, 2)}`
+        : `Text:\n${chunk}`;
+    const prompt = `${instructions}\n\nThis is chunk ${index + 1} of ${input.chunks.length}. ` +
+      `Process only this chunk; the partial results will be combined later.\n\n${body}`;
+
+    const maxAttempts = 1 + (this.config.chunkRetries ?? 0);
+    const report: ChunkReport = { index, status: 'failed', attempts: 0, retried: false };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.throwIfCancelled(task);
+      report.attempts = attempt;
+      report.retried = attempt > 1;
+
+      const result = await this.runOnAgent(task, `map-${index}-attempt-${attempt}`, prompt, {
+        phase: 'map',
+        chunk: index,
+        attempt
+      }, agentsUsed);
+
+      report.agentId = result.agentsUsed[0];
+      if (result.success) {
+        report.status = 'succeeded';
+        delete report.error;
+        return { report, output: result.result };
+      }
+
+      report.error = result.error;
+      this.logger.warn(`Chunk ${index} failed on attempt ${attempt}/${maxAttempts}`, {
+        taskId: task.id,
+        error: result.error
+      });
+    }
+
+    return { report };
+  }
+
+  private async reduceGroup(
+    task: Task,
+    input: MapInput,
+    group: any[],
+    level: number,
+    index: number,
+    agentsUsed: Set<string>
+  ): Promise<any> {
+    if (group.length === 1) {
+      return group[0];
+    }
+
+    switch (this.config.reduceStrategy) {
+      case 'sum':
+        return group.reduce((total, value) => this.sumValues(total, value));
+      case 'concat':
+        return group.flatMap(value => Array.isArray(value) ? value : [value]);
+      default: {
+        const instructions = this.config.reduceStrategy === 'custom'
+          ? input.reducePrompt!
+          : `Merge these partial results for the task "${task.description}" into a single result, ` +
+            'combining overlapping findings and keeping everything relevant.';
+        const prompt = `${instructions}\n\nPartial results:\n` +
+          group.map((value, i) => `${i + 1}: ${JSON.stringify(value)}`).join('\n');
+
+        const maxAttempts = 1 + (this.config.chunkRetries ?? 0);
+        let lastError: string | undefined;
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          this.throwIfCancelled(task);
+          const result = await this.runOnAgent(task, `reduce-${level}-${index}-attempt-${attempt}`, prompt, {
+            phase: 'reduce',
+            level,
+            group: index,
+            attempt
+          }, agentsUsed);
+          if (result.success) {
+            return result.result;
+          }
+          lastError = result.error;
+        }
+        throw new Error(`Reducer ${level}.${index} failed after ${maxAttempts} attempt(s): ${lastError}`);
+      }
+    }
+  }
+
+  /**
+   * Numbers are added and objects are summed key by key, so mappers may
+   * return either a count or a map of counts
+   */
+  private sumValues(a: any, b: any): any {
+    if (typeof a === 'number' && typeof b === 'number') {
+      return a + b;
+    }
+    if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+      const total: Record<string, any> = { ...a };
+      for (const [key, value] of Object.entries(b)) {
+        total[key] = key in total ? this.sumValues(total[key], value) : value;
+      }
+      return total;
+    }
+    throw new Error(`Cannot sum ${JSON.stringify(a)} and ${JSON.stringify(b)}`);
+  }
+
+  private async runOnAgent(
+    task: Task,
+    suffix: string,
+    description: string,
+    metadata: Record<string, any>,
+    agentsUsed: Set<string>
+  ): Promise<TaskResult> {
+    const agent = await this.agentPool.acquire();
+    agentsUsed.add(agent.id);
+    this.emit('taskEvent', createTaskEvent(task.id, { type: 'agent.assigned', agentId: agent.id }));
+
+    try {
+      const result = await agent.execute({
+        ...task,
+        id: `${task.id}-${suffix}`,
+        description,
+        context: undefined,
+        metadata: { ...task.metadata, ...metadata }
+      });
+      return { ...result, agentsUsed: [agent.id] };
+    } finally {
+      await this.agentPool.release(agent);
+    }
+  }
+
+  /**
+   * Run worker over items with at most `limit` in flight, keeping order.
+   * Once an item fails no further items are started, and the error is
+   * rethrown when the ones in flight have settled.
+   */
+  private async runBounded<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failure: { error: unknown } | undefined;
+
+    const lanes = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+      while (!failure && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await worker(items[index], index);
+        } catch (error) {
+          failure = failure || { error };
+        }
+      }
+    });
+
+    await Promise.all(lanes);
+    if (failure) {
+      throw failure.error;
+    }
+    return results;
+  }
+
+  private throwIfCancelled(task: Task): void {
+    if (task.signal?.aborted) {
+      throw new Error('Task cancelled');
+    }
+  }
+
+  private definedOnly(config?: Partial<MapReduceConfig>): Partial<MapReduceConfig> {
+    return Object.fromEntries(Object.entries(config || {}).filter(([, value]) => value !== undefined));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,257 @@
+import { readFile } from 'fs/promises';
+import { parse } from 'yaml';
+import type { PipelineDefinition, PipelineStageDefinition } from '../types/index.js';
+
+const NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+const BUILTIN_VARIABLES = ['task', 'previous'];
+const FAILURE_POLICIES = ['stop', 'skip', 'retry'];
+
+/**
+ * Load the pipeline definition carried by a task. `source` is either an
+ * already parsed object, YAML/JSON text, or a path to a .yaml/.yml/.json file.
+ */
+export async function loadPipelineDefinition(source: unknown, maxStages: number): Promise<PipelineDefinition> {
+  let raw = source;
+
+  if (typeof source === 'string') {
+    const text = isDefinitionPath(source) ? await readDefinitionFile(source.trim()) : source;
+    try {
+      raw = parse(text);
+    } catch (error) {
+      throw new Error(`Invalid pipeline definition: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return validatePipelineDefinition(raw, maxStages);
+}
+
+/**
+ * Check a parsed definition and report every problem at once, so a broken
+ * pipeline is rejected before any agent is leased
+ */
+export function validatePipelineDefinition(raw: any, maxStages: number): PipelineDefinition {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.stages)) {
+    throw new Error('Invalid pipeline definition: expected an object with a "stages" array');
+  }
+  if (raw.stages.length === 0) {
+    errors.push('pipeline has no stages');
+  }
+  if (raw.stages.length > maxStages) {
+    errors.push(`pipeline has ${raw.stages.length} stages but at most ${maxStages} are allowed`);
+  }
+
+  const names = new Set<string>();
+  const stages: PipelineStageDefinition[] = [];
+
+  raw.stages.forEach((stage: any, index: number) => {
+    const label = stageLabel(stage, index);
+
+    if (!stage || typeof stage !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof stage.name !== 'string' || !NAME_PATTERN.test(stage.name)) {
+      errors.push(`${label} needs a name made of letters, digits, "_" or "-"`);
+    } else if (names.has(stage.name) || BUILTIN_VARIABLES.includes(stage.name)) {
+      errors.push(`${label} reuses a name that is already taken`);
+    }
+    if (typeof stage.prompt !== 'string' || stage.prompt.trim() === '') {
+      errors.push(`${label} needs a non-empty prompt`);
+    }
+    if (stage.model !== undefined && typeof stage.model !== 'string') {
+      errors.push(`${label} model must be a string`);
+    }
+    if (stage.temperature !== undefined &&
+      (typeof stage.temperature !== 'number' || stage.temperature < 0 || stage.temperature > 1)) {
+      errors.push(`${label} temperature must be a number between 0 and 1`);
+    }
+    if (stage.dependsOn !== undefined &&
+      (!Array.isArray(stage.dependsOn) || stage.dependsOn.some((dep: any) => typeof dep !== 'string'))) {
+      errors.push(`${label} dependsOn must be a list of stage names`);
+    }
+    if (stage.inputs !== undefined && (!stage.inputs || typeof stage.inputs !== 'object' || Array.isArray(stage.inputs))) {
+      errors.push(`${label} inputs must map names to "<stage>.<field>" paths`);
+    }
+    if (stage.failureHandling !== undefined && !FAILURE_POLICIES.includes(stage.failureHandling)) {
+      errors.push(`${label} failureHandling must be one of ${FAILURE_POLICIES.join(', ')}`);
+    }
+    if (stage.retries !== undefined && (!Number.isInteger(stage.retries) || stage.retries < 0)) {
+      errors.push(`${label} retries must be a non-negative integer`);
+    }
+    if (stage.timeout !== undefined && (typeof stage.timeout !== 'number' || stage.timeout <= 0)) {
+      errors.push(`${label} timeout must be a positive number of milliseconds`);
+    }
+    if (stage.onFailure !== undefined) {
+      const compensation = stage.onFailure;
+      if (!compensation || typeof compensation !== 'object' || typeof compensation.prompt !== 'string' || compensation.prompt.trim() === '') {
+        errors.push(`${label} onFailure needs a non-empty prompt`);
+      } else if (compensation.temperature !== undefined &&
+        (typeof compensation.temperature !== 'number' || compensation.temperature < 0 || compensation.temperature > 1)) {
+        errors.push(`${label} onFailure temperature must be a number between 0 and 1`);
+      }
+    }
+
+    if (typeof stage.name === 'string') {
+      names.add(stage.name);
+    }
+
+    // Without dependsOn a stage follows the one declared before it
+    const previous = raw.stages[index - 1];
+    stages.push({
+      name: stage.name,
+      prompt: stage.prompt,
+      description: typeof stage.description === 'string' ? stage.description : undefined,
+      model: stage.model,
+      temperature: stage.temperature,
+      inputs: stage.inputs,
+      failureHandling: stage.failureHandling,
+      retries: stage.retries,
+      timeout: stage.timeout,
+      onFailure: stage.onFailure,
+      dependsOn: Array.isArray(stage.dependsOn)
+        ? stage.dependsOn
+        : index > 0 && typeof previous?.name === 'string' ? [previous.name] : []
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline definition:\n- ${errors.join('\n- ')}`);
+  }
+
+  for (const stage of stages) {
+    for (const dep of stage.dependsOn!) {
+      if (dep === stage.name) {
+        errors.push(`stage "${stage.name}" depends on itself`);
+      } else if (!names.has(dep)) {
+        errors.push(`stage "${stage.name}" depends on unknown stage "${dep}"`);
+      }
+    }
+  }
+  if (errors.length === 0) {
+    try {
+      orderStages(stages);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (errors.length === 0) {
+    for (const stage of stages) {
+      const upstream = upstreamStages(stage.name, stages);
+      const inputs = stage.inputs ?? {};
+
+      for (const [name, path] of Object.entries(inputs)) {
+        if (!NAME_PATTERN.test(name) || BUILTIN_VARIABLES.includes(name)) {
+          errors.push(`stage "${stage.name}" input "${name}" is not a valid variable name`);
+        }
+        const source = typeof path === 'string' ? path.split('.')[0] : undefined;
+        if (!source || (source !== 'task' && !upstream.has(source))) {
+          errors.push(`stage "${stage.name}" input "${name}" must reference "task" or an upstream stage, got ${JSON.stringify(path)}`);
+        }
+      }
+
+      for (const variable of templateVariables(stage.prompt)) {
+        if (!BUILTIN_VARIABLES.includes(variable) && !(variable in inputs)) {
+          errors.push(`stage "${stage.name}" prompt uses {{${variable}}} which is not a declared input`);
+        }
+      }
+      for (const variable of templateVariables(stage.onFailure?.prompt ?? '')) {
+        if (!BUILTIN_VARIABLES.includes(variable) && variable !== 'error' && !(variable in inputs)) {
+          errors.push(`stage "${stage.name}" onFailure prompt uses {{${variable}}} which is not a declared input`);
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline definition:\n- ${errors.join('\n- ')}`);
+  }
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    stages
+  };
+}
+
+/**
+ * Topological order of the stages (Kahn's algorithm), keeping declaration
+ * order among stages that are ready at the same time. Throws on cycles.
+ */
+export function orderStages<T extends { name: string; dependsOn?: string[] }>(stages: T[]): T[] {
+  const remaining = new Map(stages.map(stage => [stage.name, new Set(stage.dependsOn ?? [])]));
+  const ordered: T[] = [];
+
+  while (ordered.length < stages.length) {
+    const ready = stages.filter(stage => remaining.get(stage.name)?.size === 0);
+    if (ready.length === 0) {
+      const blocked = Array.from(remaining.keys());
+      throw new Error(`pipeline stages form a dependency cycle: ${blocked.join(', ')}`);
+    }
+
+    for (const stage of ready) {
+      remaining.delete(stage.name);
+      ordered.push(stage);
+    }
+    for (const deps of remaining.values()) {
+      ready.forEach(stage => deps.delete(stage.name));
+    }
+  }
+
+  return ordered;
+}
+
+function upstreamStages(name: string, stages: PipelineStageDefinition[]): Set<string> {
+  const byName = new Map(stages.map(stage => [stage.name, stage]));
+  const upstream = new Set<string>();
+  const pending = [...(byName.get(name)?.dependsOn ?? [])];
+
+  while (pending.length > 0) {
+    const dep = pending.pop()!;
+    if (!upstream.has(dep)) {
+      upstream.add(dep);
+      pending.push(...(byName.get(dep)?.dependsOn ?? []));
+    }
+  }
+
+  return upstream;
+}
+
+function stageLabel(stage: any, index: number): string {
+  return typeof stage?.name === 'string' ? `stage "${stage.name}"` : `stage #${index + 1}`;
+}
+
+/**
+ * Follow a "<source>.<field>..." path through the available outputs
+ */
+export function resolveInputPath(path: string, sources: Record<string, any>): any {
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), sources as any);
+}
+
+export function renderStagePrompt(template: string, values: Record<string, any>): string {
+  return template.replace(VARIABLE_PATTERN, (_match, key: string) => {
+    const value = values[key];
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  });
+}
+
+function templateVariables(template: string): string[] {
+  return Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]);
+}
+
+function isDefinitionPath(value: string): boolean {
+  return !value.includes('\n') && /\.(ya?ml|json)$/i.test(value.trim());
+}
+
+async function readDefinitionFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read pipeline definition ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,114 +1,558 @@
-import { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
-import type { Task, TaskResult, PipelineConfig, PatternExecutor, AgentConfig } from '../types/index.js';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { tracer, traceContextOf, withTraceContext } from '../monitoring/tracing.js';
+import { createTaskEvent } from '../orchestrator/task-events.js';
+import type { AgentPool } from '../orchestrator/agent-pool.js';
+import type { CheckpointStore, PipelineCheckpoint } from '../orchestrator/checkpoint-store.js';
+import { loadPipelineDefinition, orderStages, renderStagePrompt, resolveInputPath } from './pipeline-definition.js';
+import type {
+  Task,
+  TaskResult,
+  PipelineConfig,
+  PatternExecutor,
+  PipelineStageDefinition,
+  StageFailureHandling
+} from '../types/index.js';
 
-interface PipelineStage {
-  name: string;
+interface PipelineStage extends PipelineStageDefinition {
   description: string;
-  agent?: ClaudeCodeAgent;
+  dependsOn: string[];
 }
 
-export class PipelinePattern implements PatternExecutor {
-  private agentPool: any;
+interface StageTiming {
+  stage: string;
+  startedAt: number;
+  finishedAt: number;
+  duration: number;
+  offset: number;
+}
+
+interface StageRecord {
+  stage: string;
+  dependsOn: string[];
+  status: 'succeeded' | 'failed' | 'skipped' | 'not-run';
+  success: boolean;
+  failureHandling: StageFailureHandling;
+  /** Policy that took effect: 'retry' when a retry rescued the stage, otherwise how the failure was handled */
+  policyFired?: StageFailureHandling;
+  attempts: number;
+  timedOut?: boolean;
+  input?: string;
+  inputs?: Record<string, any>;
+  result?: TaskResult;
+  error?: string;
+  compensation?: { stage: string; success: boolean; result?: any; error?: string };
+  /** Restored from a checkpoint instead of run again */
+  resumed?: boolean;
+}
+
+/**
+ * PipelinePattern - Runs stages in dependency order. Stages whose
+ * dependencies have all finished run concurrently when the config allows
+ * parallel stages; a join stage sees the outputs of all its dependencies.
+ *
+ * Every attempt is bounded by the stage timeout. A stage that still fails is
+ * handled by its failure policy: 'stop' ends the pipeline, 'skip' lets the
+ * remaining stages continue without its output, and 'retry' tries again with
+ * exponential backoff before stopping.
+ *
+ * With a CheckpointStore every successful stage is persisted as it finishes;
+ * running the same task id again restores those stages and only runs the rest.
+ */
+export class PipelinePattern extends EventEmitter implements PatternExecutor {
+  private agentPool: AgentPool;
   private config?: PipelineConfig;
+  private checkpoints?: CheckpointStore;
+  private logger: Logger;
   
-  constructor(agentPool: any, config?: PipelineConfig) {
+  constructor(agentPool: AgentPool, config?: PipelineConfig, checkpoints?: CheckpointStore) {
+    super();
     this.agentPool = agentPool;
     this.config = config;
+    this.checkpoints = checkpoints;
+    this.logger = new Logger('PipelinePattern');
   }
 
   async execute(task: Task): Promise<TaskResult> {
     const startTime = Date.now();
-    const stages = this.createPipelineStages(task);
-    const stageResults: any[] = [];
-    let currentInput = task.description;
+    const stageResults: StageRecord[] = [];
+    const timeline: StageTiming[] = [];
+    const outputs: Record<string, any> = { task };
+    const running = new Map<string, Promise<void>>();
+    const finished = new Set<string>();
+    const agentsUsed = new Set<string>();
+    let stages: PipelineStage[] = [];
+    let stoppedBy: StageRecord | undefined;
 
     try {
-      // Execute stages sequentially
-      for (let i = 0; i < stages.length; i++) {
-        const stage = stages[i];
-        
-        // Create agent for this stage
-        const agentConfig: AgentConfig = {
-          maxAgents: 1,
-          defaultModel: 'claude-3-5-sonnet-20241022',
-          maxTokens: 100000,
-          temperature: 0.7,
-          spawnTimeout: 10000
-        };
-        
-        const agent = new ClaudeCodeAgent(`pipeline-agent-${stage.name}`, agentConfig);
-        await agent.start();
-        stage.agent = agent;
-
-        // Execute stage
-        const stageTask = {
-          ...task,
-          id: `${task.id}-stage-${i + 1}`,
-          description: `Stage ${i + 1} (${stage.name}): ${stage.description}\nInput: ${currentInput}`
-        };
-
-        const stageResult = await agent.execute(stageTask);
-        stageResults.push({
-          stage: stage.name,
-          input: currentInput,
-          result: stageResult,
-          success: stageResult.success
-        });
-
-        // Use this stage's output as input for next stage
-        if (stageResult.success && stageResult.result) {
-          currentInput = `Previous stage (${stage.name}) output: ${JSON.stringify(stageResult.result)}`;
+      stages = orderStages(await this.createPipelineStages(task));
+      const parallel = this.config?.allowParallelStages ?? true;
+      const checkpoint = await this.restoreCheckpoint(task, stages, { stageResults, timeline, outputs, finished });
+      let saving = Promise.resolve();
+
+      while (finished.size < stages.length && !stoppedBy) {
+        if (task.signal?.aborted) {
+          throw new Error('Task cancelled');
+        }
+
+        for (const stage of stages) {
+          if (finished.has(stage.name) || running.has(stage.name) || (!parallel && running.size > 0)) {
+            continue;
+          }
+          if (stage.dependsOn.every(dep => finished.has(dep))) {
+            running.set(stage.name, this.runStage(task, stage, stages, outputs, agentsUsed, startTime).then(({ record, timing }) => {
+              stageResults.push(record);
+              timeline.push(timing);
+              finished.add(stage.name);
+              running.delete(stage.name);
+              if (record.policyFired === 'stop') {
+                stoppedBy = stoppedBy || record;
+              }
+              if (checkpoint && record.success) {
+                checkpoint.stages[stage.name] = {
+                  stage: stage.name,
+                  record,
+                  output: outputs[stage.name],
+                  timing,
+                  completedAt: timing.finishedAt
+                };
+                // Writes are chained so two stages finishing together do not race
+                saving = saving.then(() => this.saveCheckpoint(checkpoint));
+              }
+            }));
+          }
         }
 
-        // Stop agent after stage completion
-        await agent.stop();
+        await Promise.race(running.values());
+      }
+
+      // A stop lets stages already in flight finish but starts nothing new
+      await Promise.all(running.values());
+      await saving;
+      for (const stage of stages) {
+        if (!finished.has(stage.name)) {
+          stageResults.push(this.notRunRecord(stage));
+        }
       }
 
       const successfulStages = stageResults.filter(s => s.success);
-      const finalOutput = stageResults.length > 0 ? 
-        stageResults[stageResults.length - 1].result : 
-        { message: 'No stages completed' };
+      const failedStages = stageResults.filter(s => s.status === 'failed');
+      const skippedStages = stageResults.filter(s => s.status === 'skipped');
+      const dependedOn = new Set(stages.flatMap(s => s.dependsOn));
+      const sinks = stages.filter(s => !dependedOn.has(s.name));
+      const finalOutput = sinks.length === 1
+        ? outputs[sinks[0].name]
+        : Object.fromEntries(sinks.map(s => [s.name, outputs[s.name]]));
+      const failedStage = stoppedBy as StageRecord | undefined;
+      if (checkpoint && failedStages.length === 0 && skippedStages.length === 0) {
+        await this.checkpoints!.remove(task.id).catch(() => {});
+      }
 
       return {
         taskId: task.id,
-        success: successfulStages.length === stages.length,
+        // Failures handled by the 'skip' policy are tolerated
+        success: failedStages.length === 0,
         result: {
           pattern: 'pipeline',
           stages: stageResults,
-          finalOutput: finalOutput.result,
+          finalOutput,
           completedStages: successfulStages.length,
           totalStages: stages.length,
+          timeline,
+          criticalPath: this.criticalPath(stages, timeline),
           description: `Pipeline execution with ${stages.length} stages`
         },
+        error: failedStage ? `Stage "${failedStage.stage}" failed: ${failedStage.error}` : undefined,
         executionTime: Date.now() - startTime,
-        agentsUsed: stages.map(s => s.agent?.id || 'unknown').filter(id => id !== 'unknown'),
+        agentsUsed: Array.from(agentsUsed),
         metadata: {
           totalStages: stages.length,
           completedStages: successfulStages.length,
+          skippedStages: skippedStages.map(s => s.stage),
+          stoppedAt: failedStage?.stage,
+          resumedStages: stageResults.filter(s => s.resumed).map(s => s.stage),
+          stagePolicies: Object.fromEntries(
+            stageResults.filter(s => s.policyFired).map(s => [s.stage, s.policyFired])
+          ),
           pattern: 'pipeline'
         }
       };
 
     } catch (error) {
-      // Clean up any remaining agents
-      for (const stage of stages) {
-        if (stage.agent) {
-          await stage.agent.stop().catch(() => {});
-        }
-      }
-      
+      // Let stages already in flight finish and hand their agents back
+      await Promise.allSettled(running.values());
+
       return {
         taskId: task.id,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error in pipeline execution',
+        result: stageResults.length > 0 ? { pattern: 'pipeline', stages: stageResults, timeline } : undefined,
         executionTime: Date.now() - startTime,
-        agentsUsed: stages.map(s => s.agent?.id || 'unknown').filter(id => id !== 'unknown')
+        agentsUsed: Array.from(agentsUsed)
       };
     }
   }
 
-  private createPipelineStages(_task: Task): PipelineStage[] {
-    // Default pipeline stages
+  /**
+   * Load the task's checkpoint and mark its stages as done. A checkpoint made
+   * for a different stage layout is ignored and replaced.
+   */
+  private async restoreCheckpoint(
+    task: Task,
+    stages: PipelineStage[],
+    state: { stageResults: StageRecord[]; timeline: StageTiming[]; outputs: Record<string, any>; finished: Set<string> }
+  ): Promise<PipelineCheckpoint | undefined> {
+    if (!this.checkpoints) {
+      return undefined;
+    }
+
+    const fingerprint = this.fingerprint(stages);
+    const existing = await this.checkpoints.load(task.id);
+
+    if (existing && existing.fingerprint !== fingerprint) {
+      this.logger.warn(`Pipeline for task ${task.id} changed since its checkpoint, starting over`);
+    } else if (existing) {
+      for (const stage of stages) {
+        const saved = existing.stages[stage.name];
+        if (!saved) {
+          continue;
+        }
+        state.stageResults.push({ ...saved.record, resumed: true });
+        if (saved.timing) {
+          state.timeline.push(saved.timing);
+        }
+        if (saved.output !== undefined) {
+          state.outputs[stage.name] = saved.output;
+        }
+        state.finished.add(stage.name);
+      }
+
+      this.logger.info(`Resuming pipeline for task ${task.id}`, {
+        completedStages: Array.from(state.finished),
+        remainingStages: stages.length - state.finished.size
+      });
+      return { ...existing, task };
+    }
+
+    return {
+      taskId: task.id,
+      task,
+      fingerprint,
+      stages: {},
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+  }
+
+  private async saveCheckpoint(checkpoint: PipelineCheckpoint): Promise<void> {
+    try {
+      await this.checkpoints!.save(checkpoint);
+    } catch (error) {
+      this.logger.warn(`Failed to save checkpoint for task ${checkpoint.taskId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private fingerprint(stages: PipelineStage[]): string {
+    const layout = stages.map(s => ({ name: s.name, prompt: s.prompt, dependsOn: s.dependsOn, inputs: s.inputs }));
+    return createHash('sha256').update(JSON.stringify(layout)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Run a stage in its own span; its attempts and compensation are traced under it
+   */
+  private async runStage(
+    task: Task,
+    stage: PipelineStage,
+    stages: PipelineStage[],
+    outputs: Record<string, any>,
+    agentsUsed: Set<string>,
+    pipelineStart: number
+  ): Promise<{ record: StageRecord; timing: StageTiming }> {
+    return tracer.trace('pipeline.stage', {
+      parent: traceContextOf(task),
+      attributes: { 'task.id': task.id, 'pipeline.stage': stage.name }
+    }, async (span) => {
+      const outcome = await this.executeStage(withTraceContext(task, span), stage, stages, outputs, agentsUsed, pipelineStart);
+      span.setAttributes({ 'pipeline.stage.status': outcome.record.status, 'pipeline.stage.attempts': outcome.record.attempts });
+      if (!outcome.record.success) {
+        span.setError(outcome.record.error);
+      }
+      this.emit('taskEvent', createTaskEvent(task.id, {
+        type: 'stage.completed',
+        stage: stage.name,
+        // runStage never leaves a stage 'not-run'
+        status: outcome.record.status as Exclude<StageRecord['status'], 'not-run'>,
+        attempts: outcome.record.attempts,
+        error: outcome.record.error
+      }));
+      return outcome;
+    });
+  }
+
+  private async executeStage(
+    task: Task,
+    stage: PipelineStage,
+    stages: PipelineStage[],
+    outputs: Record<string, any>,
+    agentsUsed: Set<string>,
+    pipelineStart: number
+  ): Promise<{ record: StageRecord; timing: StageTiming }> {
+    const startedAt = Date.now();
+    const failureHandling = stage.failureHandling ?? this.config?.failureHandling ?? 'stop';
+    const maxAttempts = failureHandling === 'retry'
+      ? 1 + (stage.retries ?? this.config?.retryAttempts ?? 2)
+      : 1;
+    const timeout = stage.timeout ?? this.config?.stageTimeout;
+
+    const previous = this.upstreamInput(task, stage, outputs);
+    const inputs = Object.fromEntries(
+      Object.entries(stage.inputs || {}).map(([name, path]) => [name, resolveInputPath(path, outputs)])
+    );
+    const values = { ...inputs, task: task.description, previous };
+    const stageId = `${task.id}-stage-${stages.indexOf(stage) + 1}`;
+
+    const record: StageRecord = {
+      stage: stage.name,
+      dependsOn: stage.dependsOn,
+      status: 'failed',
+      success: false,
+      failureHandling,
+      attempts: 0,
+      input: previous,
+      inputs
+    };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await this.backoff(task, attempt - 1);
+      }
+
+      record.attempts = attempt;
+      const { result, timedOut } = await this.executeStageTask(task, {
+        ...task,
+        id: maxAttempts > 1 ? `${stageId}-attempt-${attempt}` : stageId,
+        description: renderStagePrompt(stage.prompt, values),
+        context: this.stageContext(task),
+        metadata: this.stageMetadata(task, stage.name, stage)
+      }, timeout, agentsUsed);
+
+      record.result = result;
+      record.timedOut = timedOut;
+      if (result.success) {
+        record.status = 'succeeded';
+        record.success = true;
+        record.error = undefined;
+        if (result.result !== undefined) {
+          outputs[stage.name] = result.result;
+        }
+        break;
+      }
+
+      record.error = result.error;
+      if (task.signal?.aborted) {
+        throw new Error('Task cancelled');
+      }
+    }
+
+    if (record.success) {
+      record.policyFired = record.attempts > 1 ? 'retry' : undefined;
+    } else {
+      record.policyFired = failureHandling === 'skip' ? 'skip' : 'stop';
+      record.status = failureHandling === 'skip' ? 'skipped' : 'failed';
+
+      if (stage.onFailure) {
+        record.compensation = await this.compensate(task, stage, stageId, { ...values, error: record.error }, agentsUsed);
+      }
+    }
+
+    const finishedAt = Date.now();
+    return {
+      record,
+      timing: {
+        stage: stage.name,
+        startedAt,
+        finishedAt,
+        duration: finishedAt - startedAt,
+        offset: startedAt - pipelineStart
+      }
+    };
+  }
+
+  private async compensate(
+    task: Task,
+    stage: PipelineStage,
+    stageId: string,
+    values: Record<string, any>,
+    agentsUsed: Set<string>
+  ): Promise<StageRecord['compensation']> {
+    const compensation = stage.onFailure!;
+    const name = compensation.name || `${stage.name}-on-failure`;
+
+    const { result } = await this.executeStageTask(task, {
+      ...task,
+      id: `${stageId}-on-failure`,
+      description: renderStagePrompt(compensation.prompt, values),
+      context: this.stageContext(task),
+      metadata: this.stageMetadata(task, name, compensation)
+    }, stage.timeout ?? this.config?.stageTimeout, agentsUsed);
+
+    return { stage: name, success: result.success, result: result.result, error: result.error };
+  }
+
+  /**
+   * Run one attempt on a pooled agent. The attempt is aborted through its
+   * signal when the stage timeout expires or the whole task is cancelled.
+   */
+  private async executeStageTask(
+    task: Task,
+    stageTask: Task,
+    timeout: number | undefined,
+    agentsUsed: Set<string>
+  ): Promise<{ result: TaskResult; timedOut: boolean }> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    task.signal?.addEventListener('abort', onAbort, { once: true });
+    if (task.signal?.aborted) {
+      controller.abort();
+    }
+
+    // Borrow an agent for this attempt; waiting for one doesn't count
+    // against the stage timeout
+    let agent;
+    try {
+      agent = await this.agentPool.acquire();
+    } catch (error) {
+      task.signal?.removeEventListener('abort', onAbort);
+      throw error;
+    }
+    agentsUsed.add(agent.id);
+    this.emit('taskEvent', createTaskEvent(task.id, { type: 'agent.assigned', agentId: agent.id, stage: stageTask.metadata?.stage }));
+
+    let timedOut = false;
+    const timer = timeout ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout) : undefined;
+
+    try {
+      const result = await agent.execute({ ...stageTask, signal: controller.signal });
+      if (timedOut) {
+        return { result: { ...result, success: false, error: `Stage timed out after ${timeout}ms` }, timedOut };
+      }
+      return { result, timedOut };
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      task.signal?.removeEventListener('abort', onAbort);
+      // Return agent to the pool after the attempt
+      await this.agentPool.release(agent);
+    }
+  }
+
+  private stageMetadata(task: Task, name: string, overrides: { model?: string; temperature?: number }): Record<string, any> {
+    return {
+      ...task.metadata,
+      stage: name,
+      ...(overrides.model !== undefined && { model: overrides.model }),
+      ...(overrides.temperature !== undefined && { temperature: overrides.temperature })
+    };
+  }
+
+  private async backoff(task: Task, retry: number): Promise<void> {
+    const delay = (this.config?.retryDelay ?? 1000) * 2 ** (retry - 1);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (task.signal?.aborted) {
+      throw new Error('Task cancelled');
+    }
+  }
+
+  private notRunRecord(stage: PipelineStage): StageRecord {
+    return {
+      stage: stage.name,
+      dependsOn: stage.dependsOn,
+      status: 'not-run',
+      success: false,
+      failureHandling: stage.failureHandling ?? this.config?.failureHandling ?? 'stop',
+      attempts: 0
+    };
+  }
+
+  /**
+   * What {{previous}} expands to: the task itself for a root stage, otherwise
+   * the outputs of the stage's dependencies
+   */
+  private upstreamInput(task: Task, stage: PipelineStage, outputs: Record<string, any>): string {
+    const available = stage.dependsOn.filter(dep => outputs[dep] !== undefined);
+    if (available.length === 0) {
+      return task.description;
+    }
+
+    return available
+      .map(dep => `Previous stage (${dep}) output: ${JSON.stringify(outputs[dep])}`)
+      .join('\n');
+  }
+
+  /**
+   * Walk back from the stage that finished last, always through the
+   * dependency that finished last, to find the chain that bounded the run
+   */
+  private criticalPath(stages: PipelineStage[], timeline: StageTiming[]): string[] {
+    const timings = new Map(timeline.map(t => [t.stage, t]));
+    const byName = new Map(stages.map(s => [s.name, s]));
+    const latest = (names: string[]) => names
+      .filter(name => timings.has(name))
+      .sort((a, b) => timings.get(b)!.finishedAt - timings.get(a)!.finishedAt)[0];
+
+    const path: string[] = [];
+    let current = latest(stages.map(s => s.name));
+    while (current) {
+      path.unshift(current);
+      current = latest(byName.get(current)?.dependsOn ?? []);
+    }
+    return path;
+  }
+
+  /**
+   * Stages come from the declarative definition in task.context.pipeline
+   * when one is given, otherwise the default analyze/plan/execute/validate run
+   */
+  private async createPipelineStages(task: Task): Promise<PipelineStage[]> {
+    const source = task.context?.pipeline;
+    if (source !== undefined) {
+      const definition = await loadPipelineDefinition(source, this.config?.maxStages ?? 10);
+      return definition.stages.map(stage => ({
+        ...stage,
+        description: stage.description || stage.name,
+        dependsOn: stage.dependsOn ?? []
+      }));
+    }
+
+    const defaults = this.defaultStages();
+    return defaults.map((stage, index) => ({
+      ...stage,
+      prompt: `Stage ${index + 1} (${stage.name}): ${stage.description}\nInput: {{previous}}`,
+      dependsOn: index > 0 ? [defaults[index - 1].name] : []
+    }));
+  }
+
+  /**
+   * The definition itself is not useful to the agents, the rest of the context is
+   */
+  private stageContext(task: Task): any {
+    if (!task.context || typeof task.context !== 'object' || !('pipeline' in task.context)) {
+      return task.context;
+    }
+
+    const context = { ...task.context };
+    delete context.pipeline;
+    return Object.keys(context).length > 0 ? context : undefined;
+  }
+
+  private defaultStages(): Array<{ name: string; description: string }> {
     return [
       {
         name: 'analyze',
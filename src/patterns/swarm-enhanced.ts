@@ -1,12 +1,20 @@
 import { EventEmitter } from 'events';
-import { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
+import type { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
+import type { AgentPool } from '../orchestrator/agent-pool.js';
 import { Logger } from '../utils/logger.js';
+import { tracer, traceContextOf } from '../monitoring/tracing.js';
+import { createTaskEvent, type TaskEventInit } from '../orchestrator/task-events.js';
+import { countVotes, type VoteTally } from './voting.js';
+import { EXECUTION_PLAN_FORMAT, MAX_PLAN_STEPS, parseExecutionPlan, type StructuredPlanStep } from './execution-plan.js';
+import { reputationScore, type ReputationProfile, type ReputationStore, type ReputationUpdate } from '../orchestrator/reputation-store.js';
 import type { 
   Task, 
   TaskResult, 
   SwarmConfig, 
-  PatternExecutor, 
-  AgentConfig 
+  PatternExecutor,
+  SwarmResultAggregation,
+  TraceContext,
+  UsageRecorder
 } from '../types/index.js';
 
 interface SwarmAgent {
@@ -21,6 +29,8 @@ interface AgentPerformance {
   successRate: number;
   averageTime: number;
   lastTaskTime?: number;
+  // Exploration runs cut off by the time box
+  timeouts: number;
   specialties: Map<string, number>;
 }
 
@@ -29,12 +39,23 @@ interface SwarmState {
   discoveries: Map<string, any>;
   consensusData: ConsensusData;
   finalPlan?: ExecutionPlan;
+  exploration?: ExplorationSummary;
+}
+
+interface ExplorationSummary {
+  // 'completed' when every agent finished in time
+  endedBy: 'completed' | 'time-box' | 'converged';
+  duration: number;
+  timedOut: string[];
+  // Agents stopped because the swarm had already converged
+  stoppedEarly: string[];
 }
 
 interface ConsensusData {
   proposals: Map<string, Proposal>;
   votes: Map<string, Vote[]>;
   agreements: Agreement[];
+  tally?: VoteTally;
 }
 
 interface Proposal {
@@ -63,6 +84,10 @@ interface ExecutionPlan {
   steps: ExecutionStep[];
   assignments: Map<string, string[]>; // agentId -> stepIds
   dependencies: Map<string, string[]>; // stepId -> dependencyIds
+  // Where the plan came from; 'heuristic' means no valid structured plan was produced
+  source: 'proposal' | 'agent' | 'heuristic';
+  // Why the structured plans were rejected
+  errors?: string[];
 }
 
 interface ExecutionStep {
@@ -70,21 +95,50 @@ interface ExecutionStep {
   description: string;
   assignedAgent?: string;
   dependencies: string[];
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  capabilities: string[];
+  acceptanceCriteria: string[];
+  // 'skipped' steps never ran because a dependency failed; 'replaced' ones
+  // failed and were replanned into other steps
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped' | 'replaced';
   result?: any;
+  attempts: number;
+  triedAgents: string[];
+  error?: string;
+  skipReason?: string;
+  // The failed step this one was planned to replace
+  replaces?: string;
+  replacedBy?: string[];
 }
 
+/** Runs a role needs before its reputation affects the swarm size */
+const MIN_REPUTATION_RUNS = 5;
+const STRONG_REPUTATION = 0.85;
+const WEAK_REPUTATION = 0.5;
+/** Times the planner is asked for a valid plan before falling back to splitting the proposal */
+const PLAN_ATTEMPTS = 2;
+/** Word overlap at which two discoveries count as the same finding */
+const DEFAULT_CONVERGENCE_SIMILARITY = 0.6;
+/** Longest the agents get to evaluate each other's discoveries before proposing */
+const DISCOVERY_EVALUATION_TIME = 2000;
+
 export class EnhancedSwarmPattern extends EventEmitter implements PatternExecutor {
-  private agentPool: any;
+  private agentPool: AgentPool;
   private config: SwarmConfig;
   private logger: Logger;
   private swarmAgents: Map<string, SwarmAgent> = new Map();
   private state: SwarmState;
   private communicationChannel: EventEmitter;
-
-  constructor(agentPool: any, config?: SwarmConfig) {
+  private signal?: AbortSignal;
+  private usage?: UsageRecorder;
+  private taskId = '';
+  private phaseTraceContext?: TraceContext;
+  private reputationStore?: ReputationStore;
+  private reputation: Record<string, ReputationProfile> = {};
+
+  constructor(agentPool: AgentPool, config?: SwarmConfig, reputationStore?: ReputationStore) {
     super();
     this.agentPool = agentPool;
+    this.reputationStore = reputationStore;
     this.config = {
       defaultAgents: 5,
       minConsensus: 0.7,
@@ -113,34 +167,36 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
 
   async execute(task: Task): Promise<TaskResult> {
     const startTime = Date.now();
+    this.signal = task.signal;
+    this.usage = task.usage;
+    this.taskId = task.id;
     this.logger.info(`Starting enhanced swarm execution for task: ${task.id}`);
 
     try {
-      // Phase 1: Initialize swarm
+      // Phase 1: Initialize swarm, shaped by how its roles did in earlier tasks
+      this.reputation = await this.loadReputation();
       await this.initializeSwarm(task);
 
       // Phase 2: Exploration phase
-      this.state.phase = 'exploration';
-      const explorationResults = await this.explorationPhase(task);
+      this.throwIfCancelled();
+      const explorationResults = await this.runPhase(task, 'exploration', () => this.explorationPhase(task));
 
       // Phase 3: Coordination phase
-      this.state.phase = 'coordination';
-      await this.coordinationPhase(explorationResults);
+      this.throwIfCancelled();
+      await this.runPhase(task, 'coordination', () => this.coordinationPhase(explorationResults));
 
       // Phase 4: Consensus building
-      this.state.phase = 'consensus';
-      const consensus = await this.consensusPhase();
+      this.throwIfCancelled();
+      const consensus = await this.runPhase(task, 'consensus', () => this.consensusPhase());
 
       // Phase 5: Execution phase
-      this.state.phase = 'execution';
-      const executionResult = await this.executionPhase(consensus);
-
-      // Clean up
-      await this.cleanupSwarm();
+      this.throwIfCancelled();
+      const executionResult = await this.runPhase(task, 'execution', () => this.executionPhase(task, consensus));
 
-      return {
+      // Summarise before cleaning up, which lets go of the agents
+      const result: TaskResult = {
         taskId: task.id,
-        success: true,
+        success: executionResult.success === true,
         result: {
           pattern: 'enhanced-swarm',
           consensus: consensus,
@@ -154,20 +210,42 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
           totalAgents: this.swarmAgents.size,
           phases: ['exploration', 'coordination', 'consensus', 'execution'],
           consensusLevel: this.calculateConsensusLevel(),
+          votingRule: this.state.consensusData.tally?.rule,
+          resultAggregation: this.config.resultAggregation || 'consensus',
+          executionStatus: executionResult.execution?.status,
+          exploration: this.state.exploration,
           pattern: 'enhanced-swarm'
         }
       };
+      if (!result.success) {
+        result.error = this.describeExecutionFailure(executionResult);
+      }
+
+      // Clean up
+      await this.saveReputation();
+      await this.cleanupSwarm();
+
+      return result;
 
     } catch (error) {
       this.logger.error('Swarm execution failed:', error);
+      const agentsUsed = Array.from(this.swarmAgents.keys());
+      await this.saveReputation();
       await this.emergencyCleanup();
       
+      // What the swarm found before it stopped, e.g. when the task's budget ran out
       return {
         taskId: task.id,
         success: false,
+        result: {
+          pattern: 'enhanced-swarm',
+          phase: this.state.phase,
+          discoveries: Array.from(this.state.discoveries.entries()),
+          proposals: Array.from(this.state.consensusData.proposals.entries())
+        },
         error: error instanceof Error ? error.message : 'Unknown error in enhanced swarm execution',
         executionTime: Date.now() - startTime,
-        agentsUsed: Array.from(this.swarmAgents.keys())
+        agentsUsed
       };
     }
   }
@@ -176,12 +254,18 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     const numAgents = await this.determineOptimalAgentCount(task);
     this.logger.info(`Initializing swarm with ${numAgents} agents`);
 
-    const agentPromises = [];
+    const agentPromises: Promise<void>[] = [];
     for (let i = 0; i < numAgents; i++) {
       agentPromises.push(this.createSwarmAgent(i, task));
     }
 
-    await Promise.all(agentPromises);
+    // Wait for every lease before failing, so the cleanup releases all the
+    // agents that were acquired
+    const failed = (await Promise.allSettled(agentPromises))
+      .find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
     this.setupCommunicationChannels();
   }
 
@@ -189,17 +273,35 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     // Analyze task complexity to determine optimal agent count
     const complexity = this.analyzeTaskComplexity(task);
     const baseCount = this.config.defaultAgents || 3;
+    // Never ask for more agents than the pool can lease at once
+    const capacity = this.agentPool.getCapacity();
     
     if (!this.config.adaptiveScaling) {
-      return baseCount;
+      return Math.min(capacity, baseCount);
     }
 
     // Scale based on complexity
-    if (complexity.score > 0.8) return Math.min(10, baseCount * 2);
-    if (complexity.score > 0.6) return Math.min(7, Math.ceil(baseCount * 1.5));
-    if (complexity.score < 0.3) return Math.max(2, Math.floor(baseCount * 0.7));
-    
-    return baseCount;
+    let count = baseCount;
+    if (complexity.score > 0.8) count = Math.min(10, baseCount * 2);
+    else if (complexity.score > 0.6) count = Math.min(7, Math.ceil(baseCount * 1.5));
+    else if (complexity.score < 0.3) count = Math.max(2, Math.floor(baseCount * 0.7));
+
+    return Math.min(capacity, this.adjustCountForReputation(count));
+  }
+
+  /**
+   * Roles with a strong record need one agent less, weak ones an extra agent
+   */
+  private adjustCountForReputation(count: number): number {
+    const known = Object.values(this.reputation).filter(profile => profile.runs >= MIN_REPUTATION_RUNS);
+    if (known.length === 0) {
+      return count;
+    }
+
+    const average = known.reduce((sum, profile) => sum + reputationScore(profile), 0) / known.length;
+    if (average >= STRONG_REPUTATION) return Math.max(2, count - 1);
+    if (average < WEAK_REPUTATION) return Math.min(this.config.maxAgents || 10, count + 1);
+    return count;
   }
 
   private analyzeTaskComplexity(task: Task): { score: number; factors: string[] } {
@@ -240,17 +342,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     const role = this.assignAgentRole(index, task);
     const agentId = `swarm-${role}-${index + 1}`;
     
-    const agentConfig: AgentConfig = {
-      maxAgents: 1,
-      defaultModel: 'claude-3-5-sonnet-20241022',
-      maxTokens: 100000,
-      temperature: this.getTemperatureForRole(role),
-      spawnTimeout: 15000,
-      capabilities: this.getCapabilitiesForRole(role)
-    };
-
-    const agent = new ClaudeCodeAgent(agentId, agentConfig);
-    await agent.start();
+    const agent = await this.agentPool.acquire(this.getCapabilitiesForRole(role));
 
     const swarmAgent: SwarmAgent = {
       agent,
@@ -260,12 +352,64 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
         tasksCompleted: 0,
         successRate: 1.0,
         averageTime: 0,
+        timeouts: 0,
         specialties: new Map()
       }
     };
 
     this.swarmAgents.set(agentId, swarmAgent);
-    this.logger.info(`Created agent ${agentId} with role: ${role}`);
+    this.emitTaskEvent({ type: 'agent.assigned', agentId, role, pooledAgent: agent.id });
+    this.logger.info(`Created agent ${agentId} with role: ${role}`, { pooledAgent: agent.id });
+  }
+
+  /**
+   * Enter a phase and run it in its own span, which the agent tasks started
+   * during the phase are traced under
+   */
+  private async runPhase<T>(task: Task, phase: SwarmState['phase'], run: () => Promise<T>): Promise<T> {
+    this.state.phase = phase;
+    this.emitTaskEvent({ type: 'phase.entered', phase });
+    return tracer.trace(`swarm.${phase}`, {
+      parent: traceContextOf(task),
+      attributes: { 'task.id': task.id, 'swarm.agents': this.swarmAgents.size }
+    }, async (span) => {
+      this.phaseTraceContext = span.context;
+      try {
+        return await run();
+      } finally {
+        this.phaseTraceContext = undefined;
+      }
+    });
+  }
+
+  /**
+   * Run a task on a swarm agent with the sampling temperature of its role
+   */
+  private executeAgentTask(swarmAgent: SwarmAgent, task: Task): Promise<TaskResult> {
+    return swarmAgent.agent.execute({
+      ...task,
+      signal: task.signal ?? this.signal,
+      usage: task.usage ?? this.usage,
+      metadata: {
+        ...task.metadata,
+        temperature: this.getTemperatureForRole(swarmAgent.role),
+        role: swarmAgent.role,
+        capabilities: this.getCapabilitiesForRole(swarmAgent.role),
+        traceContext: this.phaseTraceContext ?? traceContextOf(task),
+        // Swarm sub-task ids don't carry the task id, so name the task to audit tool calls under
+        auditTaskId: this.taskId
+      }
+    });
+  }
+
+  private emitTaskEvent(event: TaskEventInit): void {
+    this.emit('taskEvent', createTaskEvent(this.taskId, event));
+  }
+
+  private throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new Error('Task cancelled');
+    }
   }
 
   private assignAgentRole(index: number, task: Task): string {
@@ -273,7 +417,9 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       return 'generalist';
     }
 
-    const roles = ['explorer', 'analyzer', 'validator', 'synthesizer', 'executor'];
+    // Best reputed roles first, so a small swarm keeps its strongest profiles
+    const roles = ['explorer', 'analyzer', 'validator', 'synthesizer', 'executor']
+      .sort((a, b) => reputationScore(this.reputation[b]) - reputationScore(this.reputation[a]));
     const taskKeywords = task.description.toLowerCase();
 
     // Assign roles based on task content
@@ -348,45 +494,150 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     });
   }
 
+  /**
+   * Every agent explores the task in parallel. Exploration ends when all of
+   * them are done, at maxExplorationTime, or as soon as convergenceQuorum
+   * agents have made similar discoveries; agents still running then are
+   * cancelled and the swarm goes on with the discoveries that arrived.
+   */
   private async explorationPhase(task: Task): Promise<Map<string, any>> {
     this.logger.info('Starting exploration phase');
     const explorationResults = new Map<string, any>();
-    const explorationTasks: Promise<any>[] = [];
+    const finished = new Set<string>();
+    const timeBox = this.config.maxExplorationTime || 30000;
+    const startTime = Date.now();
 
-    this.swarmAgents.forEach((swarmAgent, agentId) => {
+    const controller = new AbortController();
+    const onCancel = () => controller.abort();
+    this.signal?.addEventListener('abort', onCancel, { once: true });
+    if (this.signal?.aborted) {
+      controller.abort();
+    }
+
+    let ended = false;
+    let onConverged = () => {};
+    const converged = new Promise<'converged'>(resolve => { onConverged = () => resolve('converged'); });
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'time-box'>(resolve => { timer = setTimeout(() => resolve('time-box'), timeBox); });
+
+    const explorationTasks = Array.from(this.swarmAgents.entries()).map(([agentId, swarmAgent]) => {
       const agentTask = {
         ...task,
         id: `${task.id}-explore-${agentId}`,
         description: this.createExplorationPrompt(task, swarmAgent.role),
+        signal: controller.signal,
         metadata: {
           phase: 'exploration',
           role: swarmAgent.role
         }
       };
 
-      const explorationPromise = swarmAgent.agent.execute(agentTask)
+      return this.executeAgentTask(swarmAgent, agentTask)
         .then(result => {
+          finished.add(agentId);
+          // Results of cancelled laggards come in after exploration has ended
+          if (ended) {
+            return null;
+          }
           explorationResults.set(agentId, result);
           this.updateAgentPerformance(swarmAgent, result);
+          if (this.hasConverged(explorationResults)) {
+            onConverged();
+          }
           return result;
         })
         .catch(error => {
+          finished.add(agentId);
           this.logger.error(`Agent ${agentId} exploration failed:`, error);
           return null;
         });
-
-      explorationTasks.push(explorationPromise);
     });
 
-    // Wait for exploration with timeout
-    await Promise.race([
-      Promise.all(explorationTasks),
-      new Promise(resolve => setTimeout(resolve, this.config.maxExplorationTime || 30000))
-    ]);
+    try {
+      const endedBy = await Promise.race([
+        Promise.all(explorationTasks).then(() => 'completed' as const),
+        timedOut,
+        converged
+      ]);
+      ended = true;
+
+      const laggards = Array.from(this.swarmAgents.values()).filter(agent => !finished.has(agent.id));
+      const duration = Date.now() - startTime;
+      if (laggards.length > 0) {
+        this.logger.info(`Exploration ended by ${endedBy}, cancelling ${laggards.length} agent(s)`, {
+          agents: laggards.map(agent => agent.id)
+        });
+        if (endedBy === 'time-box') {
+          laggards.forEach(agent => this.recordTimeout(agent, task, duration));
+        }
+        controller.abort();
+        await Promise.all(explorationTasks);
+      }
+
+      this.state.exploration = {
+        endedBy,
+        duration,
+        timedOut: endedBy === 'time-box' ? laggards.map(agent => agent.id) : [],
+        stoppedEarly: endedBy === 'converged' ? laggards.map(agent => agent.id) : []
+      };
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener('abort', onCancel);
+    }
 
     return explorationResults;
   }
 
+  /**
+   * Count an exploration run cut off by the time box as a failed run
+   */
+  private recordTimeout(swarmAgent: SwarmAgent, task: Task, elapsed: number): void {
+    swarmAgent.performance.timeouts++;
+    this.updateAgentPerformance(swarmAgent, {
+      taskId: `${task.id}-explore-${swarmAgent.id}`,
+      success: false,
+      error: `Exploration timed out after ${elapsed}ms`,
+      executionTime: elapsed,
+      agentsUsed: [swarmAgent.agent.id]
+    });
+  }
+
+  /**
+   * Whether convergenceQuorum agents have made discoveries that all resemble
+   * one of them, judged by the overlap of their words
+   */
+  private hasConverged(explorationResults: Map<string, any>): boolean {
+    const quorum = this.config.convergenceQuorum;
+    if (!quorum || quorum < 2) {
+      return false;
+    }
+
+    const similarity = this.config.convergenceSimilarity ?? DEFAULT_CONVERGENCE_SIMILARITY;
+    const discoveries = Array.from(explorationResults.values())
+      .filter(result => result?.success)
+      .map(result => this.discoveryTerms(result.result));
+
+    return discoveries.some(terms =>
+      discoveries.filter(other => this.termOverlap(terms, other) >= similarity).length >= quorum
+    );
+  }
+
+  private discoveryTerms(discovery: any): Set<string> {
+    const text = typeof discovery === 'string' ? discovery : JSON.stringify(discovery ?? '');
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+  }
+
+  /**
+   * Jaccard similarity of two sets of words
+   */
+  private termOverlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0;
+    }
+    const shared = Array.from(a).filter(term => b.has(term)).length;
+    return shared / (a.size + b.size - shared);
+  }
+
   private createExplorationPrompt(task: Task, role: string): string {
     const basePrompt = task.description;
     
@@ -407,24 +658,39 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
   private async coordinationPhase(explorationResults: Map<string, any>): Promise<void> {
     this.logger.info('Starting coordination phase');
 
-    // Share exploration results among agents
-    for (const [agentId, result] of explorationResults) {
-      if (result && result.success) {
-        this.state.discoveries.set(agentId, result.result);
-        
-        // Broadcast discovery to other agents
-        await this.broadcastDiscovery(agentId, result.result);
-      }
+    const controller = new AbortController();
+    const onCancel = () => controller.abort();
+    this.signal?.addEventListener('abort', onCancel, { once: true });
+    if (this.signal?.aborted) {
+      controller.abort();
     }
 
-    // Allow agents to process shared discoveries
-    await this.processSharedDiscoveries();
+    try {
+      // Share exploration results among agents
+      const broadcasts: Promise<void>[] = [];
+      for (const [agentId, result] of explorationResults) {
+        if (result && result.success) {
+          this.state.discoveries.set(agentId, result.result);
+
+          // Broadcast discovery to other agents
+          broadcasts.push(this.broadcastDiscovery(agentId, result.result, controller.signal));
+        }
+      }
+
+      // Allow agents to process shared discoveries
+      await this.processSharedDiscoveries(broadcasts, controller);
+    } finally {
+      this.signal?.removeEventListener('abort', onCancel);
+    }
 
     // Collect proposals from agents
     await this.collectProposals();
   }
 
-  private async broadcastDiscovery(sourceAgentId: string, discovery: any): Promise<void> {
+  /**
+   * Have every other agent evaluate a discovery; resolves once they all have
+   */
+  private async broadcastDiscovery(sourceAgentId: string, discovery: any, signal: AbortSignal): Promise<void> {
     const message = {
       type: 'discovery',
       source: sourceAgentId,
@@ -435,21 +701,24 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     // Simulate communication delay
     await new Promise(resolve => setTimeout(resolve, this.config.communicationDelay || 100));
 
+    const evaluations: Promise<void>[] = [];
     this.swarmAgents.forEach((swarmAgent, agentId) => {
       if (agentId !== sourceAgentId) {
         // Each agent processes the discovery
-        this.processDiscoveryForAgent(swarmAgent, message);
+        evaluations.push(this.processDiscoveryForAgent(swarmAgent, message, signal));
       }
     });
+    await Promise.all(evaluations);
   }
 
-  private async processDiscoveryForAgent(swarmAgent: SwarmAgent, message: any): Promise<void> {
+  private async processDiscoveryForAgent(swarmAgent: SwarmAgent, message: any, signal: AbortSignal): Promise<void> {
     // Agent evaluates the discovery and may generate insights or proposals
     const evaluationTask = {
       id: `eval-${message.source}-${swarmAgent.id}`,
       description: `Evaluate this discovery from ${message.source}: ${JSON.stringify(message.content)}`,
       priority: 'normal' as const,
-      pattern: 'evaluation',
+      pattern: 'evaluation' as const,
+      signal,
       metadata: {
         phase: 'coordination',
         messageType: message.type
@@ -457,21 +726,37 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     };
 
     try {
-      const evaluation = await swarmAgent.agent.execute(evaluationTask);
-      if (evaluation.success && evaluation.result) {
+      const evaluation = await this.executeAgentTask(swarmAgent, evaluationTask);
+      // An evaluation cut off at the deadline has nothing finished to add
+      if (evaluation.success && evaluation.result && !signal.aborted) {
         // Agent might generate a proposal based on the discovery
-        this.handleAgentInsight(swarmAgent.id, evaluation.result);
+        this.handleAgentInsight(swarmAgent.id, message.source, evaluation.result);
       }
     } catch (error) {
       this.logger.error(`Agent ${swarmAgent.id} failed to process discovery:`, error);
     }
   }
 
-  private async processSharedDiscoveries(): Promise<void> {
+  /**
+   * Wait for the agents to evaluate each other's discoveries, for at most
+   * DISCOVERY_EVALUATION_TIME; evaluations still running then are cancelled
+   */
+  private async processSharedDiscoveries(broadcasts: Promise<void>[], controller: AbortController): Promise<void> {
     this.logger.info('Processing shared discoveries across swarm');
-    
-    // Give agents time to process and respond to discoveries
-    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<'deadline'>(resolve => { timer = setTimeout(() => resolve('deadline'), DISCOVERY_EVALUATION_TIME); });
+    const evaluated = Promise.all(broadcasts);
+
+    try {
+      if (await Promise.race([evaluated.then(() => 'evaluated' as const), deadline]) === 'deadline') {
+        this.logger.info(`Cancelling discovery evaluations still running after ${DISCOVERY_EVALUATION_TIME}ms`);
+        controller.abort();
+        await evaluated;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private async collectProposals(): Promise<void> {
@@ -494,7 +779,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       id: `proposal-${swarmAgent.id}`,
       description: `Based on all discoveries, propose a solution approach. Consider: ${JSON.stringify(discoveries)}`,
       priority: 'high' as const,
-      pattern: 'proposal',
+      pattern: 'proposal' as const,
       metadata: {
         phase: 'coordination',
         role: swarmAgent.role
@@ -502,7 +787,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     };
 
     try {
-      const result = await swarmAgent.agent.execute(proposalTask);
+      const result = await this.executeAgentTask(swarmAgent, proposalTask);
       if (result.success && result.result) {
         const proposal: Proposal = {
           id: `prop-${swarmAgent.id}-${Date.now()}`,
@@ -513,6 +798,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
         };
 
         this.state.consensusData.proposals.set(proposal.id, proposal);
+        this.emitTaskEvent({ type: 'proposal.made', agentId: swarmAgent.id, proposalId: proposal.id, confidence: proposal.confidence });
         this.logger.info(`Collected proposal from ${swarmAgent.id}`);
       }
     } catch (error) {
@@ -544,17 +830,39 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
 
   private async consensusPhase(): Promise<any> {
     this.logger.info('Starting consensus phase');
+    const aggregation = this.config.resultAggregation || 'consensus';
 
-    // Each agent votes on all proposals
-    await this.conductVoting();
+    if (aggregation === 'first' || aggregation === 'best') {
+      // Pick a proposal without spending agent calls on voting
+      this.selectProposal(aggregation);
+    } else {
+      // Each agent votes on all proposals
+      await this.conductVoting();
 
-    // Tally votes and determine agreements
-    this.tallyVotes();
+      // Tally votes and determine agreements
+      this.tallyVotes(aggregation);
+    }
 
     // Build final consensus
     return this.buildConsensus();
   }
 
+  private selectProposal(aggregation: 'first' | 'best'): void {
+    const proposals = Array.from(this.state.consensusData.proposals.values());
+    const selected = aggregation === 'first'
+      ? proposals.sort((a, b) => a.timestamp - b.timestamp)[0]
+      : proposals.sort((a, b) => b.confidence - a.confidence)[0];
+
+    if (selected) {
+      this.state.consensusData.agreements.push({
+        proposalId: selected.id,
+        supportLevel: selected.confidence,
+        content: selected.content
+      });
+      this.logger.info(`Selected proposal ${selected.id} (${aggregation}) without voting`);
+    }
+  }
+
   private async conductVoting(): Promise<void> {
     const proposals = Array.from(this.state.consensusData.proposals.values());
     const votingPromises: Promise<void>[] = [];
@@ -576,7 +884,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       id: `vote-${swarmAgent.id}-${proposal.id}`,
       description: `Evaluate this proposal and vote: ${JSON.stringify(proposal.content)}. Consider feasibility, effectiveness, and alignment with requirements.`,
       priority: 'high' as const,
-      pattern: 'vote',
+      pattern: 'vote' as const,
       metadata: {
         phase: 'consensus',
         proposalId: proposal.id
@@ -584,7 +892,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     };
 
     try {
-      const result = await swarmAgent.agent.execute(voteTask);
+      const result = await this.executeAgentTask(swarmAgent, voteTask);
       if (result.success && result.result) {
         const vote: Vote = {
           agentId: swarmAgent.id,
@@ -598,32 +906,45 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
           this.state.consensusData.votes.set(proposal.id, []);
         }
         this.state.consensusData.votes.get(proposal.id)!.push(vote);
+        this.emitTaskEvent({
+          type: 'vote.cast',
+          agentId: vote.agentId,
+          proposalId: vote.proposalId,
+          support: vote.support,
+          confidence: vote.confidence
+        });
       }
     } catch (error) {
       this.logger.error(`Agent ${swarmAgent.id} failed to vote on proposal ${proposal.id}:`, error);
     }
   }
 
-  private tallyVotes(): void {
-    this.logger.info('Tallying votes for consensus');
+  private tallyVotes(aggregation: SwarmResultAggregation): void {
+    const rule = this.config.votingRule || 'threshold';
+    this.logger.info('Tallying votes for consensus', { rule });
 
-    for (const [proposalId, votes] of this.state.consensusData.votes) {
-      const proposal = this.state.consensusData.proposals.get(proposalId);
-      if (!proposal) continue;
+    const { proposals, votes } = this.state.consensusData;
+    const tally = countVotes(rule, Array.from(proposals.keys()), Array.from(votes.values()).flat(), {
+      minConsensus: this.config.minConsensus || 0.7,
+      approvalThreshold: this.config.approvalThreshold ?? 0.5,
+      voterWeight: agentId => this.swarmAgents.get(agentId)?.performance.successRate ?? 1
+    });
+    this.state.consensusData.tally = tally;
 
-      const supportVotes = votes.filter(v => v.support);
-      const totalVotes = votes.length;
-      const supportLevel = totalVotes > 0 ? supportVotes.length / totalVotes : 0;
+    const accepted = tally.proposals.filter(entry => entry.passed);
+    if (accepted.length === 0 && aggregation === 'majority' && tally.voters > 0) {
+      // 'majority' settles for the leading proposal when none reaches agreement
+      accepted.push(tally.proposals[0]);
+    }
 
-      if (supportLevel >= (this.config.minConsensus || 0.7)) {
-        const agreement: Agreement = {
-          proposalId,
-          supportLevel,
-          content: proposal.content
-        };
-        this.state.consensusData.agreements.push(agreement);
-        this.logger.info(`Proposal ${proposalId} achieved consensus with ${(supportLevel * 100).toFixed(1)}% support`);
-      }
+    for (const entry of accepted) {
+      const proposal = proposals.get(entry.proposalId)!;
+      this.state.consensusData.agreements.push({
+        proposalId: entry.proposalId,
+        supportLevel: entry.score,
+        content: proposal.content
+      });
+      this.logger.info(`Proposal ${entry.proposalId} achieved consensus with a ${rule} score of ${(entry.score * 100).toFixed(1)}%`);
     }
   }
 
@@ -631,11 +952,28 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     const agreements = this.state.consensusData.agreements;
     
     if (agreements.length === 0) {
+      const fallback = this.fallbackAgreement();
+      if (fallback) {
+        // Executed like an agreement, but not reported as one
+        this.logger.warn(`No consensus achieved, falling back to proposal ${fallback.proposalId}`);
+        return {
+          status: 'fallback',
+          message: 'No proposal achieved the required consensus level; using the highest confidence proposal',
+          primaryAgreement: fallback,
+          allAgreements: [],
+          consensusLevel: 0,
+          participatingAgents: this.swarmAgents.size,
+          votingDetails: this.getVotingDetails(),
+          voting: this.getVotingOutcome()
+        };
+      }
+
       return {
         status: 'no-consensus',
         message: 'No proposals achieved the required consensus level',
         proposals: Array.from(this.state.consensusData.proposals.values()),
-        minConsensusRequired: this.config.minConsensus || 0.7
+        minConsensusRequired: this.config.minConsensus || 0.7,
+        voting: this.getVotingOutcome()
       };
     }
 
@@ -648,10 +986,30 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       allAgreements: agreements,
       consensusLevel: this.calculateConsensusLevel(),
       participatingAgents: this.swarmAgents.size,
-      votingDetails: this.getVotingDetails()
+      votingDetails: this.getVotingDetails(),
+      voting: this.getVotingOutcome()
     };
   }
 
+  /**
+   * The 'consensus' aggregation falls back to the proposal made with the
+   * highest confidence when voting agrees on none
+   */
+  private fallbackAgreement(): Agreement | undefined {
+    if ((this.config.resultAggregation || 'consensus') !== 'consensus') {
+      return undefined;
+    }
+
+    const best = Array.from(this.state.consensusData.proposals.values())
+      .sort((a, b) => b.confidence - a.confidence)[0];
+    if (!best) {
+      return undefined;
+    }
+
+    const score = this.state.consensusData.tally?.proposals.find(entry => entry.proposalId === best.id)?.score;
+    return { proposalId: best.id, supportLevel: score ?? 0, content: best.content };
+  }
+
   private calculateConsensusLevel(): number {
     const agreements = this.state.consensusData.agreements;
     if (agreements.length === 0) return 0;
@@ -660,6 +1018,19 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     return totalSupport / agreements.length;
   }
 
+  /**
+   * How the executed proposal was chosen: the aggregation, the voting rule
+   * and its full tally (neither when the aggregation skips voting)
+   */
+  private getVotingOutcome(): any {
+    const tally = this.state.consensusData.tally;
+    return {
+      resultAggregation: this.config.resultAggregation || 'consensus',
+      rule: tally?.rule,
+      tally
+    };
+  }
+
   private getVotingDetails(): any {
     const details: any = {
       totalProposals: this.state.consensusData.proposals.size,
@@ -680,7 +1051,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     return details;
   }
 
-  private async executionPhase(consensus: any): Promise<any> {
+  private async executionPhase(task: Task, consensus: any): Promise<any> {
     this.logger.info('Starting execution phase');
 
     if (consensus.status === 'no-consensus') {
@@ -688,10 +1059,10 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     }
 
     // Create execution plan from consensus
-    const executionPlan = this.createExecutionPlan(consensus);
+    const executionPlan = await this.createExecutionPlan(task, consensus);
     this.state.finalPlan = executionPlan;
 
-    // Assign tasks to agents based on their specialties and performance
+    // Assign steps to agents based on their capabilities and performance
     this.assignExecutionTasks(executionPlan);
 
     // Execute the plan
@@ -704,61 +1075,147 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       plan: executionPlan,
       execution: executionResult,
       validation: validation,
-      success: validation.passed
+      status: executionResult.status,
+      success: executionResult.success && validation.passed
     };
   }
 
-  private handleNoConsensus(): any {
-    // Fallback strategy when no consensus is reached
-    this.logger.warn('No consensus achieved, using fallback strategy');
-
-    // Use the highest confidence proposal
-    const proposals = Array.from(this.state.consensusData.proposals.values());
-    proposals.sort((a, b) => b.confidence - a.confidence);
+  /**
+   * Why the execution phase did not succeed, naming the plan steps that
+   * failed or never ran
+   */
+  private describeExecutionFailure(executionResult: any): string {
+    if (!executionResult.execution) {
+      return executionResult.message || 'Swarm execution failed';
+    }
 
-    if (proposals.length > 0) {
-      return {
-        status: 'fallback',
-        message: 'Using highest confidence proposal due to lack of consensus',
-        selectedProposal: proposals[0],
-        confidence: proposals[0].confidence
-      };
+    const { status, completedSteps, totalSteps, failedSteps, notRun } = executionResult.execution;
+    if (status === 'succeeded') {
+      return 'Swarm execution did not pass validation';
     }
 
+    const details = [
+      ...failedSteps.map((step: any) => `${step.stepId} failed: ${step.error || 'unknown error'}`),
+      ...notRun.map((step: any) => `${step.stepId} skipped: ${step.reason || 'not run'}`)
+    ];
+    return `Swarm execution ${status} (${completedSteps}/${totalSteps} steps completed)` +
+      (details.length > 0 ? `; ${details.join('; ')}` : '');
+  }
+
+  /**
+   * Nothing to execute: there were no proposals, or the aggregation has no
+   * fallback for a vote that picked none
+   */
+  private handleNoConsensus(): any {
+    this.logger.warn('No consensus achieved, nothing to execute');
+
     return {
       status: 'failed',
-      message: 'No viable proposals generated by the swarm'
+      message: this.state.consensusData.proposals.size > 0
+        ? 'No proposal achieved the required consensus level'
+        : 'No viable proposals generated by the swarm'
     };
   }
 
-  private createExecutionPlan(consensus: any): ExecutionPlan {
+  /**
+   * Turn the agreed proposal into a plan: the proposal itself when it already
+   * is a valid structured plan, otherwise one an agent writes for it, with
+   * the validation errors fed back on a retry. Splitting the proposal into
+   * a chain of steps is the last resort.
+   */
+  private async createExecutionPlan(task: Task, consensus: any): Promise<ExecutionPlan> {
+    const { proposalId, content } = consensus.primaryAgreement;
+
+    const fromProposal = parseExecutionPlan(content);
+    if (fromProposal.success) {
+      return this.buildExecutionPlan(fromProposal.plan.steps, 'proposal');
+    }
+
+    let errors: string[] = [];
+    const planner = this.selectPlanner(proposalId);
+    for (let attempt = 1; planner && attempt <= PLAN_ATTEMPTS; attempt++) {
+      this.throwIfCancelled();
+      const result = await this.executeAgentTask(planner, {
+        id: `plan-${planner.id}-${attempt}`,
+        description: this.createPlanningPrompt(task, content, errors),
+        priority: 'high' as const,
+        pattern: 'plan',
+        metadata: { phase: 'execution' }
+      });
+      if (!result.success) {
+        errors = [`planner failed: ${result.error}`];
+        break;
+      }
+
+      const parsed = parseExecutionPlan(result.result);
+      if (parsed.success) {
+        return this.buildExecutionPlan(parsed.plan.steps, 'agent');
+      }
+      errors = parsed.errors;
+      this.logger.warn(`Plan from ${planner.id} failed validation`, { attempt, errors });
+    }
+
+    const steps = this.parseExecutionSteps(content).map((description, index) => ({
+      id: `step-${index + 1}`,
+      description: String(description),
+      dependsOn: index > 0 ? [`step-${index}`] : [],
+      capabilities: [],
+      acceptanceCriteria: []
+    }));
+    return { ...this.buildExecutionPlan(steps, 'heuristic'), errors };
+  }
+
+  private buildExecutionPlan(steps: StructuredPlanStep[], source: ExecutionPlan['source']): ExecutionPlan {
     const plan: ExecutionPlan = {
       steps: [],
       assignments: new Map(),
-      dependencies: new Map()
+      dependencies: new Map(),
+      source
     };
 
-    // Convert consensus agreement into actionable steps
-    const primaryContent = consensus.primaryAgreement.content;
-    
-    // This is a simplified version - in practice, you'd parse the content more intelligently
-    const steps = this.parseExecutionSteps(primaryContent);
-    
-    steps.forEach((step, index) => {
-      const stepId = `step-${index + 1}`;
-      const executionStep: ExecutionStep = {
-        id: stepId,
-        description: step,
-        dependencies: index > 0 ? [`step-${index}`] : [],
-        status: 'pending'
-      };
-      plan.steps.push(executionStep);
-      plan.dependencies.set(stepId, executionStep.dependencies);
-    });
+    for (const step of steps) {
+      plan.steps.push(this.toExecutionStep(step));
+      plan.dependencies.set(step.id, step.dependsOn);
+    }
 
     return plan;
   }
 
+  private toExecutionStep(step: StructuredPlanStep): ExecutionStep {
+    return {
+      id: step.id,
+      description: step.description,
+      dependencies: step.dependsOn,
+      capabilities: step.capabilities,
+      acceptanceCriteria: step.acceptanceCriteria,
+      status: 'pending',
+      attempts: 0,
+      triedAgents: []
+    };
+  }
+
+  /**
+   * The author of the agreed proposal plans it, or the strongest agent when
+   * the author is gone
+   */
+  private selectPlanner(proposalId: string): SwarmAgent | undefined {
+    const author = this.state.consensusData.proposals.get(proposalId)?.agentId;
+    return (author && this.swarmAgents.get(author)) ||
+      Array.from(this.swarmAgents.values()).sort((a, b) => this.agentStrength(b) - this.agentStrength(a))[0];
+  }
+
+  private createPlanningPrompt(task: Task, content: any, errors: string[]): string {
+    const roles = Array.from(new Set(Array.from(this.swarmAgents.values()).map(agent => agent.role)))
+      .map(role => `- ${role}: ${this.getCapabilitiesForRole(role).join(', ')}`)
+      .join('\n');
+
+    return `Break the agreed solution for "${task.description}" into an execution plan: ${JSON.stringify(content)}\n\n` +
+      `Agents available, by role and capabilities:\n${roles}\n\n` +
+      `Respond with JSON only: ${EXECUTION_PLAN_FORMAT}. ` +
+      `Steps that do not depend on each other run in parallel. Use at most ${MAX_PLAN_STEPS} steps.` +
+      (errors.length > 0 ? `\n\nYour previous plan was rejected: ${errors.join('; ')}` : '');
+  }
+
   private parseExecutionSteps(content: any): string[] {
     // Extract actionable steps from consensus content
     if (typeof content === 'string') {
@@ -774,68 +1231,317 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     return ['Execute the agreed upon solution'];
   }
 
-  private assignExecutionTasks(plan: ExecutionPlan): void {
-    // Assign steps to agents based on their performance and specialties
-    const availableAgents = Array.from(this.swarmAgents.values())
-      .sort((a, b) => b.performance.successRate - a.performance.successRate);
+  private assignExecutionTasks(plan: ExecutionPlan, steps: ExecutionStep[] = plan.steps): void {
+    // The hardest steps pick first
+    const ordered = [...steps].sort((a, b) =>
+      this.stepDifficulty(b) - this.stepDifficulty(a) || b.description.length - a.description.length
+    );
 
-    plan.steps.forEach((step, index) => {
-      const agent = availableAgents[index % availableAgents.length];
-      step.assignedAgent = agent.id;
-      
-      if (!plan.assignments.has(agent.id)) {
-        plan.assignments.set(agent.id, []);
+    for (const step of ordered) {
+      this.assignStep(plan, step);
+    }
+  }
+
+  /**
+   * Give a step to the agent whose role covers most of the capabilities it
+   * needs, then the least loaded one, then the one with the strongest
+   * record. Returns false when every agent is excluded.
+   */
+  private assignStep(plan: ExecutionPlan, step: ExecutionStep, exclude: string[] = []): boolean {
+    const agents = Array.from(this.swarmAgents.values()).filter(agent => !exclude.includes(agent.id));
+    if (agents.length === 0) {
+      return false;
+    }
+
+    // Load is the steps an agent still has to run
+    const load = new Map<string, number>();
+    for (const other of plan.steps) {
+      if (other !== step && other.assignedAgent && (other.status === 'pending' || other.status === 'in-progress')) {
+        load.set(other.assignedAgent, (load.get(other.assignedAgent) || 0) + 1);
       }
-      plan.assignments.get(agent.id)!.push(step.id);
+    }
+
+    const agent = agents
+      .map(candidate => ({
+        candidate,
+        coverage: this.capabilityCoverage(step, candidate),
+        load: load.get(candidate.id) || 0,
+        strength: this.agentStrength(candidate)
+      }))
+      .sort((a, b) => b.coverage - a.coverage || a.load - b.load || b.strength - a.strength)[0].candidate;
+
+    if (step.assignedAgent) {
+      const previous = plan.assignments.get(step.assignedAgent) || [];
+      plan.assignments.set(step.assignedAgent, previous.filter(id => id !== step.id));
+    }
+    step.assignedAgent = agent.id;
+    if (!plan.assignments.has(agent.id)) {
+      plan.assignments.set(agent.id, []);
+    }
+    plan.assignments.get(agent.id)!.push(step.id);
+    return true;
+  }
+
+  /**
+   * Share of the step's required capabilities the agent's role has
+   */
+  private capabilityCoverage(step: ExecutionStep, swarmAgent: SwarmAgent): number {
+    if (step.capabilities.length === 0) {
+      return 1;
+    }
+    const available = new Set(this.getCapabilitiesForRole(swarmAgent.role).map(capability => capability.toLowerCase()));
+    return step.capabilities.filter(capability => available.has(capability.toLowerCase())).length / step.capabilities.length;
+  }
+
+  /**
+   * An agent's runs in this task on top of its role's history
+   */
+  private agentStrength(swarmAgent: SwarmAgent): number {
+    const history = this.reputation[swarmAgent.role];
+    const { tasksCompleted, successRate } = swarmAgent.performance;
+    return reputationScore({
+      runs: (history?.runs || 0) + tasksCompleted,
+      successes: (history?.successes || 0) + successRate * tasksCompleted
     });
   }
 
+  private stepDifficulty(step: ExecutionStep): number {
+    return this.analyzeTaskComplexity({ id: step.id, description: step.description, pattern: 'swarm' }).score;
+  }
+
+  /**
+   * Start each step as soon as its dependencies have completed and its agent
+   * is free, so independent branches of the plan run in parallel. A failed
+   * step is retried on an agent that has not tried it yet; once it has
+   * failed for good the synthesizer may replan it, and otherwise every step
+   * depending on it is skipped. Steps that never ran are listed with the
+   * reason in the result.
+   */
   private async executePlan(plan: ExecutionPlan): Promise<any> {
     const results = new Map<string, any>();
-    const pendingSteps = new Set(plan.steps.map(s => s.id));
-    const completedSteps = new Set<string>();
-
-    while (pendingSteps.size > 0) {
-      // Find steps that can be executed (dependencies satisfied)
-      const executableSteps = plan.steps.filter(step => 
-        pendingSteps.has(step.id) &&
-        step.dependencies.every(dep => completedSteps.has(dep))
-      );
+    const running = new Map<string, Promise<void>>();
+    const busyAgents = new Set<string>();
+    const awaitingReplan: ExecutionStep[] = [];
+    const replans: Array<{ stepId: string; replacedBy: string[] }> = [];
+    const maxAttempts = 1 + Math.max(0, this.config.stepRetries ?? 1);
+
+    const release = (key: string, agentId?: string) => {
+      running.delete(key);
+      if (agentId) {
+        busyAgents.delete(agentId);
+      }
+    };
 
-      if (executableSteps.length === 0) {
-        this.logger.error('Deadlock detected in execution plan');
-        break;
+    let cancelled = false;
+    let idle = false;
+    while (!idle) {
+      cancelled = this.signal?.aborted === true;
+
+      for (const step of [...awaitingReplan]) {
+        const replanner = this.selectReplanner();
+        if (cancelled || !replanner) {
+          awaitingReplan.splice(awaitingReplan.indexOf(step), 1);
+          this.skipDependents(plan, step);
+          continue;
+        }
+        if (busyAgents.has(replanner.id)) {
+          continue;
+        }
+
+        awaitingReplan.splice(awaitingReplan.indexOf(step), 1);
+        busyAgents.add(replanner.id);
+        const key = `replan-${step.id}`;
+        running.set(key, this.replanStep(plan, step, replanner).then((replacement) => {
+          release(key, replanner.id);
+          if (replacement) {
+            replans.push({ stepId: step.id, replacedBy: replacement.map(added => added.id) });
+          } else {
+            this.skipDependents(plan, step);
+          }
+        }));
       }
 
-      // Execute steps in parallel
-      const executionPromises = executableSteps.map(step => 
-        this.executeStep(step, plan)
+      const executableSteps = cancelled ? [] : plan.steps.filter(step =>
+        step.status === 'pending' &&
+        step.dependencies.every(dep => plan.steps.find(other => other.id === dep)?.status === 'completed')
       );
 
-      const stepResults = await Promise.all(executionPromises);
-
-      // Update results and status
-      stepResults.forEach((result, index) => {
-        const step = executableSteps[index];
-        results.set(step.id, result);
-        step.status = result.success ? 'completed' : 'failed';
-        step.result = result;
-        
-        pendingSteps.delete(step.id);
-        if (result.success) {
-          completedSteps.add(step.id);
+      for (const step of executableSteps) {
+        // An agent works on one step at a time
+        if (step.assignedAgent && busyAgents.has(step.assignedAgent)) {
+          continue;
         }
-      });
+        const agentId = step.assignedAgent;
+        step.status = 'in-progress';
+        if (agentId) {
+          busyAgents.add(agentId);
+        }
+
+        running.set(step.id, this.executeStep(step, plan).then((result) => {
+          release(step.id, agentId);
+          results.set(step.id, result);
+          step.result = result;
+          step.attempts++;
+          if (agentId) {
+            step.triedAgents.push(agentId);
+          }
+
+          if (result.success) {
+            step.status = 'completed';
+          } else if (this.retryStep(plan, step, result, maxAttempts)) {
+            step.status = 'pending';
+          } else {
+            step.status = 'failed';
+            step.error = result.error;
+            if (this.config.replanOnFailure !== false && !step.replaces && !result.metadata?.cancelled) {
+              awaitingReplan.push(step);
+            } else {
+              this.skipDependents(plan, step);
+            }
+          }
+        }));
+      }
+
+      idle = running.size === 0;
+      if (!idle) {
+        await Promise.race(running.values());
+      }
     }
 
+    // Nothing is running and nothing could start, so the remaining steps can never run
+    const stranded = plan.steps.filter(step => step.status === 'pending');
+    if (stranded.length > 0 && !cancelled) {
+      this.logger.error('Deadlock detected in execution plan', { steps: stranded.map(step => step.id) });
+    }
+    for (const step of stranded) {
+      step.status = 'skipped';
+      step.skipReason = cancelled ? 'task cancelled' : 'dependencies can never complete';
+    }
+
+    const completedSteps = plan.steps.filter(step => step.status === 'completed').length;
+    const resolved = plan.steps.every(step => step.status === 'completed' || step.status === 'replaced');
+
     return {
-      completedSteps: completedSteps.size,
+      status: resolved ? 'succeeded' : completedSteps > 0 ? 'partial' : 'failed',
+      completedSteps,
       totalSteps: plan.steps.length,
       results: Object.fromEntries(results),
-      success: completedSteps.size === plan.steps.length
+      failedSteps: plan.steps
+        .filter(step => step.status === 'failed')
+        .map(step => ({ stepId: step.id, error: step.error, attempts: step.attempts, agents: step.triedAgents })),
+      notRun: plan.steps
+        .filter(step => step.status === 'skipped')
+        .map(step => ({ stepId: step.id, description: step.description, reason: step.skipReason })),
+      replans,
+      success: resolved
     };
   }
 
+  /**
+   * Move a failed step to an agent that has not tried it yet, if it has
+   * attempts left. Cancelled runs are not retried.
+   */
+  private retryStep(plan: ExecutionPlan, step: ExecutionStep, result: any, maxAttempts: number): boolean {
+    if (result.metadata?.cancelled || this.signal?.aborted || step.attempts >= maxAttempts) {
+      return false;
+    }
+    if (!this.assignStep(plan, step, step.triedAgents)) {
+      return false;
+    }
+
+    this.logger.warn(`Step ${step.id} failed, retrying on ${step.assignedAgent}`, {
+      attempt: step.attempts + 1,
+      error: result.error
+    });
+    return true;
+  }
+
+  /**
+   * Skip every pending step that depends, directly or not, on the failed one
+   */
+  private skipDependents(plan: ExecutionPlan, failed: ExecutionStep): void {
+    const blocked = new Set([failed.id]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of plan.steps) {
+        const dependency = step.status === 'pending' && step.dependencies.find(dep => blocked.has(dep));
+        if (dependency) {
+          step.status = 'skipped';
+          step.skipReason = dependency === failed.id
+            ? `dependency ${dependency} failed`
+            : `dependency ${dependency} was skipped`;
+          blocked.add(step.id);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * The synthesizer replans failed steps, or the strongest agent when the
+   * swarm has none
+   */
+  private selectReplanner(): SwarmAgent | undefined {
+    const agents = Array.from(this.swarmAgents.values());
+    return agents.find(agent => agent.role === 'synthesizer') ||
+      agents.sort((a, b) => this.agentStrength(b) - this.agentStrength(a))[0];
+  }
+
+  /**
+   * Ask for steps that reach a failed step's goal another way and splice
+   * them into the plan: its dependents wait for the replacement instead.
+   * Returns the new steps, or undefined when no valid replacement came back.
+   */
+  private async replanStep(plan: ExecutionPlan, failed: ExecutionStep, replanner: SwarmAgent): Promise<ExecutionStep[] | undefined> {
+    const completed = plan.steps.filter(step => step.status === 'completed').map(step => step.id);
+    const result = await this.executeAgentTask(replanner, {
+      id: `replan-${failed.id}`,
+      description: `Step "${failed.id}" of the execution plan failed after ${failed.attempts} attempt(s): ${failed.description}\n` +
+        `Error: ${failed.error || 'unknown'}\n\n` +
+        `Completed steps: ${completed.join(', ') || 'none'}\n\n` +
+        `Plan steps that reach the same goal another way. They may depend on each other and on completed steps; ` +
+        `do not reuse existing step ids. Respond with JSON only: ${EXECUTION_PLAN_FORMAT}.`,
+      priority: 'high' as const,
+      pattern: 'plan' as const,
+      metadata: { phase: 'execution', stepId: failed.id }
+    });
+    if (!result.success) {
+      this.logger.warn(`Replanning step ${failed.id} failed`, { error: result.error });
+      return undefined;
+    }
+
+    const parsed = parseExecutionPlan(result.result, {
+      completedSteps: completed,
+      reservedIds: plan.steps.map(step => step.id)
+    });
+    if (!parsed.success) {
+      this.logger.warn(`Replacement for step ${failed.id} failed validation`, { errors: parsed.errors });
+      return undefined;
+    }
+
+    const added = parsed.plan.steps.map(step => ({ ...this.toExecutionStep(step), replaces: failed.id }));
+    // The steps nothing else in the replacement waits for finish it
+    const finalSteps = added.filter(step => !added.some(other => other.dependencies.includes(step.id))).map(step => step.id);
+
+    for (const step of plan.steps) {
+      if (step.dependencies.includes(failed.id)) {
+        step.dependencies = [...step.dependencies.filter(dep => dep !== failed.id), ...finalSteps];
+        plan.dependencies.set(step.id, step.dependencies);
+      }
+    }
+    for (const step of added) {
+      plan.steps.push(step);
+      plan.dependencies.set(step.id, step.dependencies);
+    }
+    failed.status = 'replaced';
+    failed.replacedBy = added.map(step => step.id);
+    this.assignExecutionTasks(plan, added);
+
+    this.logger.info(`Replanned step ${failed.id}`, { replacedBy: failed.replacedBy });
+    return added;
+  }
+
   private async executeStep(step: ExecutionStep, plan: ExecutionPlan): Promise<any> {
     if (!step.assignedAgent) {
       return { success: false, error: 'No agent assigned to step' };
@@ -846,21 +1552,24 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       return { success: false, error: 'Assigned agent not found' };
     }
 
+    const criteria = step.acceptanceCriteria.map(criterion => `- ${criterion}`).join('\n');
     const executionTask = {
       id: `exec-${step.id}`,
-      description: step.description,
+      description: criteria ? `${step.description}\n\nAcceptance criteria:\n${criteria}` : step.description,
       priority: 'high' as const,
-      pattern: 'execution',
+      pattern: 'execution' as const,
       metadata: {
         phase: 'execution',
         stepId: step.id,
-        dependencies: step.dependencies
+        dependencies: step.dependencies,
+        requiredCapabilities: step.capabilities,
+        acceptanceCriteria: step.acceptanceCriteria
       }
     };
 
     try {
       step.status = 'in-progress';
-      const result = await swarmAgent.agent.execute(executionTask);
+      const result = await this.executeAgentTask(swarmAgent, executionTask);
       this.updateAgentPerformance(swarmAgent, result);
       return result;
     } catch (error) {
@@ -905,7 +1614,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
       id: `validate-${validator.id}`,
       description: `Validate the execution results: ${JSON.stringify(executionResult)}. Check for completeness, correctness, and quality.`,
       priority: 'high' as const,
-      pattern: 'validation',
+      pattern: 'validation' as const,
       metadata: {
         phase: 'validation',
         role: validator.role
@@ -913,7 +1622,7 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     };
 
     try {
-      const result = await validator.agent.execute(validationTask);
+      const result = await this.executeAgentTask(validator, validationTask);
       return {
         validatorId: validator.id,
         passed: result.success && result.result?.valid,
@@ -931,6 +1640,11 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
   }
 
   private updateAgentPerformance(swarmAgent: SwarmAgent, result: TaskResult): void {
+    // A cancelled run says nothing about the agent
+    if (result.metadata?.cancelled) {
+      return;
+    }
+
     const performance = swarmAgent.performance;
     
     performance.tasksCompleted++;
@@ -960,7 +1674,8 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     const performances = Array.from(this.swarmAgents.values()).map(agent => ({
       agentId: agent.id,
       role: agent.role,
-      performance: agent.performance
+      performance: agent.performance,
+      reputation: reputationScore(this.reputation[agent.role])
     }));
 
     const totalTasks = performances.reduce((sum, p) => sum + p.performance.tasksCompleted, 0);
@@ -1024,23 +1739,56 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
     this.logger.info(`Agent ${agentId} voted on proposal ${vote.proposalId}`);
   }
 
-  private handleAgentInsight(agentId: string, insight: any): void {
-    // Store insights that might lead to new proposals
-    const insightKey = `insight-${agentId}-${Date.now()}`;
+  private handleAgentInsight(agentId: string, discoverySource: string, insight: any): void {
+    // Store insights that might lead to new proposals, one per agent and discovery
+    const insightKey = `insight-${agentId}-${discoverySource}`;
     this.state.discoveries.set(insightKey, {
       type: 'insight',
       source: agentId,
+      discovery: discoverySource,
       content: insight,
       timestamp: Date.now()
     });
   }
 
+  private async loadReputation(): Promise<Record<string, ReputationProfile>> {
+    return this.reputationStore ? this.reputationStore.load() : {};
+  }
+
+  /**
+   * Add what each role did in this task to its persisted record
+   */
+  private async saveReputation(): Promise<void> {
+    if (!this.reputationStore) {
+      return;
+    }
+
+    const updates = new Map<string, ReputationUpdate>();
+    for (const swarmAgent of this.swarmAgents.values()) {
+      const { tasksCompleted, successRate, averageTime, specialties } = swarmAgent.performance;
+      const update = updates.get(swarmAgent.role) || { profile: swarmAgent.role, runs: 0, successes: 0, totalTime: 0, specialties: {} };
+      update.runs += tasksCompleted;
+      update.successes += Math.round(successRate * tasksCompleted);
+      update.totalTime += averageTime * tasksCompleted;
+      for (const [specialty, score] of specialties) {
+        update.specialties![specialty] = (update.specialties![specialty] || 0) + score;
+      }
+      updates.set(swarmAgent.role, update);
+    }
+
+    try {
+      await this.reputationStore.record(Array.from(updates.values()));
+    } catch (error) {
+      this.logger.warn('Failed to save agent reputation', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   private async cleanupSwarm(): Promise<void> {
     this.logger.info('Cleaning up swarm resources');
     
     const cleanupPromises = Array.from(this.swarmAgents.values()).map(swarmAgent =>
-      swarmAgent.agent.stop().catch(error => 
-        this.logger.error(`Failed to stop agent ${swarmAgent.id}:`, error)
+      this.agentPool.release(swarmAgent.agent).catch(error => 
+        this.logger.error(`Failed to release agent ${swarmAgent.id}:`, error)
       )
     );
     
@@ -1052,9 +1800,9 @@ export class EnhancedSwarmPattern extends EventEmitter implements PatternExecuto
   private async emergencyCleanup(): Promise<void> {
     this.logger.warn('Performing emergency cleanup');
     
-    // Force stop all agents
+    // Return all agents to the pool regardless of their state
     const forceStopPromises = Array.from(this.swarmAgents.values()).map(swarmAgent =>
-      swarmAgent.agent.stop().catch(() => {})
+      this.agentPool.release(swarmAgent.agent).catch(() => {})
     );
     
     await Promise.allSettled(forceStopPromises);
@@ -1,6 +1,10 @@
+import { EventEmitter } from 'events';
 import { EnhancedSwarmPattern } from './swarm-enhanced.js';
-import { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
-import type { Task, TaskResult, SwarmConfig, PatternExecutor, AgentConfig } from '../types/index.js';
+import { createTaskEvent } from '../orchestrator/task-events.js';
+import type { ClaudeCodeAgent } from '../agents/claude-code-agent.js';
+import type { AgentPool } from '../orchestrator/agent-pool.js';
+import type { ReputationStore } from '../orchestrator/reputation-store.js';
+import type { Task, TaskResult, SwarmConfig, PatternExecutor } from '../types/index.js';
 
 /**
  * SwarmPattern - Orchestrates multiple agents working in parallel to explore solutions
@@ -12,12 +16,13 @@ import type { Task, TaskResult, SwarmConfig, PatternExecutor, AgentConfig } from
  * - Role-based agent specialization
  * - Adaptive scaling based on task complexity
  */
-export class SwarmPattern implements PatternExecutor {
+export class SwarmPattern extends EventEmitter implements PatternExecutor {
   private enhancedPattern: EnhancedSwarmPattern;
-  private agentPool: any;
+  private agentPool: AgentPool;
   private config?: SwarmConfig;
   
-  constructor(agentPool: any, config?: SwarmConfig) {
+  constructor(agentPool: AgentPool, config?: SwarmConfig, reputation?: ReputationStore) {
+    super();
     this.agentPool = agentPool;
     this.config = config;
     
@@ -25,7 +30,8 @@ export class SwarmPattern implements PatternExecutor {
     const useEnhanced = config?.advanced !== false;
     
     if (useEnhanced) {
-      this.enhancedPattern = new EnhancedSwarmPattern(agentPool, config);
+      this.enhancedPattern = new EnhancedSwarmPattern(agentPool, config, reputation);
+      this.enhancedPattern.on('taskEvent', (event) => this.emit('taskEvent', event));
     } else {
       // Fallback to basic implementation
       this.enhancedPattern = null as any;
@@ -47,23 +53,15 @@ export class SwarmPattern implements PatternExecutor {
    */
   private async executeBasic(task: Task): Promise<TaskResult> {
     const startTime = Date.now();
-    const numAgents = this.config?.defaultAgents || 3;
+    const numAgents = Math.min(this.config?.defaultAgents || 3, this.agentPool.getCapacity());
     const agents: ClaudeCodeAgent[] = [];
 
     try {
-      // Create and start agents
+      // Borrow agents from the pool
       for (let i = 0; i < numAgents; i++) {
-        const agentConfig: AgentConfig = {
-          maxAgents: 1,
-          defaultModel: 'claude-3-5-sonnet-20241022',
-          maxTokens: 100000,
-          temperature: 0.7,
-          spawnTimeout: 10000
-        };
-        
-        const agent = new ClaudeCodeAgent(`swarm-agent-${i + 1}`, agentConfig);
-        await agent.start();
+        const agent = await this.agentPool.acquire();
         agents.push(agent);
+        this.emit('taskEvent', createTaskEvent(task.id, { type: 'agent.assigned', agentId: agent.id }));
       }
 
       // Execute task on all agents in parallel
@@ -83,8 +81,8 @@ export class SwarmPattern implements PatternExecutor {
       const successfulResults = agentResults.filter(r => r.success);
       const consensus = this.generateBasicConsensus(successfulResults);
 
-      // Stop all agents
-      await Promise.all(agents.map(agent => agent.stop()));
+      // Return all agents to the pool
+      await Promise.all(agents.map(agent => this.agentPool.release(agent)));
 
       return {
         taskId: task.id,
@@ -106,8 +104,8 @@ export class SwarmPattern implements PatternExecutor {
       };
 
     } catch (error) {
-      // Clean up agents on error
-      await Promise.all(agents.map(agent => agent.stop().catch(() => {})));
+      // Return agents to the pool on error
+      await Promise.all(agents.map(agent => this.agentPool.release(agent).catch(() => {})));
       
       return {
         taskId: task.id,
@@ -158,9 +156,21 @@ export interface SwarmOptions extends SwarmConfig {
   minConsensus?: number;
   
   /**
-   * Maximum time for exploration phase in ms (default: 30000)
+   * Maximum time for exploration phase in ms (default: 30000). Agents still
+   * exploring then are cancelled and recorded as timed out.
    */
   maxExplorationTime?: number;
+
+  /**
+   * End exploration once this many agents have made similar discoveries
+   * (default: off)
+   */
+  convergenceQuorum?: number;
+
+  /**
+   * Word overlap from 0 to 1 at which two discoveries are similar (default: 0.6)
+   */
+  convergenceSimilarity?: number;
   
   /**
    * Enable adaptive scaling based on task complexity (default: true)
@@ -0,0 +1,138 @@
+import type { SwarmVotingRule } from '../types/index.js';
+
+/**
+ * One agent's vote on one proposal
+ */
+export interface Ballot {
+  agentId: string;
+  proposalId: string;
+  support: boolean;
+  confidence: number;
+}
+
+export interface VotingOptions {
+  /** Score the threshold rules require */
+  minConsensus: number;
+  /** Minimum confidence of a supporting vote for it to count as an approval */
+  approvalThreshold: number;
+  /** Weight of a voter under 'performance-weighted', e.g. its success rate */
+  voterWeight?: (agentId: string) => number;
+}
+
+export interface ProposalTally {
+  proposalId: string;
+  /** The rule's score, from 0 to 1 */
+  score: number;
+  votes: number;
+  supporting: number;
+  /** Approvals or Borda points, for the rules that count them */
+  points?: number;
+  passed: boolean;
+}
+
+export interface VoteTally {
+  rule: SwarmVotingRule;
+  /** Score a proposal had to reach, for the threshold rules */
+  threshold?: number;
+  voters: number;
+  /** Every proposal, best first */
+  proposals: ProposalTally[];
+}
+
+/**
+ * Count the ballots cast on `proposalIds` under `rule`. Threshold rules pass
+ * every proposal whose score reaches the threshold; 'approval' and 'borda'
+ * pass the highest scoring proposal(s).
+ */
+export function countVotes(
+  rule: SwarmVotingRule,
+  proposalIds: string[],
+  ballots: Ballot[],
+  options: VotingOptions
+): VoteTally {
+  const voters = new Set(ballots.map(ballot => ballot.agentId)).size;
+  const bordaPoints = rule === 'borda' ? countBordaPoints(ballots) : undefined;
+
+  const proposals: ProposalTally[] = proposalIds.map((proposalId) => {
+    const votes = ballots.filter(ballot => ballot.proposalId === proposalId);
+    const tally: ProposalTally = {
+      proposalId,
+      score: 0,
+      votes: votes.length,
+      supporting: votes.filter(vote => vote.support).length,
+      passed: false
+    };
+
+    switch (rule) {
+      case 'threshold':
+      case 'majority':
+        tally.score = weightedSupport(votes, () => 1);
+        break;
+      case 'confidence-weighted':
+        tally.score = weightedSupport(votes, vote => vote.confidence);
+        break;
+      case 'performance-weighted':
+        tally.score = weightedSupport(votes, vote => options.voterWeight?.(vote.agentId) ?? 1);
+        break;
+      case 'approval':
+        tally.points = votes.filter(vote => vote.support && vote.confidence >= options.approvalThreshold).length;
+        tally.score = voters > 0 ? tally.points / voters : 0;
+        break;
+      case 'borda': {
+        const { points, possible } = bordaPoints!.get(proposalId) || { points: 0, possible: 0 };
+        tally.points = points;
+        tally.score = possible > 0 ? points / possible : 0;
+        break;
+      }
+      default:
+        throw new Error(`Unknown voting rule: ${rule}`);
+    }
+    return tally;
+  });
+
+  let threshold: number | undefined;
+  if (rule === 'approval' || rule === 'borda') {
+    const top = Math.max(0, ...proposals.map(tally => tally.score));
+    proposals.forEach(tally => { tally.passed = top > 0 && tally.score === top; });
+  } else if (rule === 'majority') {
+    threshold = 0.5;
+    proposals.forEach(tally => { tally.passed = tally.score > 0.5; });
+  } else {
+    threshold = options.minConsensus;
+    proposals.forEach(tally => { tally.passed = tally.votes > 0 && tally.score >= options.minConsensus; });
+  }
+
+  // Stable sort, so equal scores keep the order the proposals were made in
+  proposals.sort((a, b) => b.score - a.score || b.supporting - a.supporting);
+
+  return { rule, ...(threshold !== undefined && { threshold }), voters, proposals };
+}
+
+function weightedSupport(votes: Ballot[], weight: (vote: Ballot) => number): number {
+  const total = votes.reduce((sum, vote) => sum + weight(vote), 0);
+  const support = votes.filter(vote => vote.support).reduce((sum, vote) => sum + weight(vote), 0);
+  return total > 0 ? support / total : 0;
+}
+
+/**
+ * Each voter ranks the proposals it voted on by support, then confidence.
+ * Out of n, its first choice earns n points and its last 1.
+ */
+function countBordaPoints(ballots: Ballot[]): Map<string, { points: number; possible: number }> {
+  const byVoter = new Map<string, Ballot[]>();
+  for (const ballot of ballots) {
+    byVoter.set(ballot.agentId, [...(byVoter.get(ballot.agentId) || []), ballot]);
+  }
+
+  const totals = new Map<string, { points: number; possible: number }>();
+  for (const voterBallots of byVoter.values()) {
+    const ranked = [...voterBallots].sort((a, b) => Number(b.support) - Number(a.support) || b.confidence - a.confidence);
+    ranked.forEach((ballot, position) => {
+      const entry = totals.get(ballot.proposalId) || { points: 0, possible: 0 };
+      entry.points += ranked.length - position;
+      entry.possible += ranked.length;
+      totals.set(ballot.proposalId, entry);
+    });
+  }
+  return totals;
+}
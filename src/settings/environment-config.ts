@@ -60,6 +60,24 @@ export class EnvironmentConfig {
               default: 'consensus',
               enum: ['first', 'best', 'consensus', 'majority'],
               description: 'How to aggregate swarm results'
+            },
+            votingRule: {
+              type: 'string',
+              default: 'threshold',
+              enum: ['threshold', 'majority', 'confidence-weighted', 'performance-weighted', 'approval', 'borda'],
+              description: 'How swarm votes on proposals are counted'
+            },
+            stepRetries: {
+              type: 'number',
+              default: 1,
+              min: 0,
+              max: 5,
+              description: 'Retries of a failed swarm plan step on another agent'
+            },
+            replanOnFailure: {
+              type: 'boolean',
+              default: true,
+              description: 'Let the synthesizer replace swarm plan steps that failed for good'
             }
           },
           pipeline: {
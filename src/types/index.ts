@@ -2,7 +2,7 @@
  * Core type definitions for the Claude Orchestration system
  */
 
-export type ExecutionPattern = 'swarm' | 'pipeline' | 'consensus' | 'mapreduce' | 'collaborative' | 'evaluation' | 'proposal' | 'vote' | 'execution' | 'validation';
+export type ExecutionPattern = 'swarm' | 'pipeline' | 'consensus' | 'mapreduce' | 'collaborative' | 'evaluation' | 'proposal' | 'vote' | 'plan' | 'execution' | 'validation';
 
 export interface Task {
   id: string;
@@ -13,8 +13,81 @@ export interface Task {
   retryAttempts?: number;
   context?: any;
   metadata?: Record<string, any>;
+  /** Runtime-only cancellation signal, never persisted with the task */
+  signal?: AbortSignal;
+  /** Runtime-only collector of the agents' token usage, shared with sub-tasks and never persisted */
+  usage?: UsageRecorder;
 }
 
+/**
+ * Tokens and estimated cost of one or more agent executions
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Some counts were estimated from text length because the agent reported none */
+  estimated?: boolean;
+}
+
+/**
+ * Limits for Task.metadata.budget. Execution is aborted once either is exceeded.
+ */
+export interface TaskBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+export interface UsageRecorder {
+  record(agentId: string, usage: TokenUsage): void;
+}
+
+export type TaskState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface TaskRecord {
+  id: string;
+  task: Task;
+  state: TaskState;
+  attempts: number;
+  submittedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: TaskResult;
+  error?: string;
+  /** Process that picked the task up, kept from the last time it ran */
+  owner?: { host: string; pid: number };
+}
+
+/**
+ * Progress of a task, emitted by the orchestrator as 'taskEvent' and
+ * streamed by Orchestrator.subscribe(taskId)
+ */
+export type TaskEvent = { taskId: string; timestamp: number } & (
+  | { type: 'task.queued'; pattern: ExecutionPattern; description: string }
+  | { type: 'task.started'; attempt: number }
+  | { type: 'task.retrying'; attempt: number; delay: number; error: string }
+  | {
+      type: 'phase.entered';
+      phase: string;
+      /** Consensus round or reduce level */
+      iteration?: number;
+    }
+  | {
+      type: 'agent.assigned';
+      agentId: string;
+      role?: string;
+      stage?: string;
+      /** Pool agent behind a swarm agent */
+      pooledAgent?: string;
+    }
+  | { type: 'stage.completed'; stage: string; status: 'succeeded' | 'failed' | 'skipped'; attempts: number; error?: string }
+  | { type: 'proposal.made'; agentId: string; proposalId: string; confidence: number; round?: number }
+  | { type: 'vote.cast'; agentId: string; proposalId: string; support: boolean; confidence: number; round?: number }
+  | { type: 'task.finished'; state: 'succeeded' | 'failed' | 'cancelled'; error?: string; executionTime?: number }
+);
+
+export type TaskEventType = TaskEvent['type'];
+
 export interface TaskResult {
   taskId: string;
   success: boolean;
@@ -33,17 +106,87 @@ export interface AgentConfig {
   temperature: number;
   spawnTimeout: number;
   capabilities?: string[];
+  command?: AgentCommandConfig;
+  /**
+   * Prices in USD per million tokens, keyed by model name or a part of it
+   * (e.g. "sonnet"); merged over the built-in table
+   */
+  pricing?: Record<string, ModelPrice>;
+}
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Command template used by ClaudeCodeAgent to run a task in a subprocess.
+ * Arguments may reference {{prompt}}, {{model}}, {{taskId}}, {{pattern}},
+ * {{maxTokens}}, {{temperature}} and {{workingDirectory}}. When no argument
+ * references {{prompt}}, the prompt is written to the process stdin instead.
+ */
+export interface AgentCommandConfig {
+  command: string;
+  args?: string[];
+  /**
+   * Appended to args when the agent's tool calls are routed through the
+   * orchestrator; {{mcpConfig}} expands to an MCP config pointing at it
+   */
+  mcpArgs?: string[];
+  /**
+   * Appended to args when a tool policy applies to the agent; {{allowedTools}}
+   * and {{disallowedTools}} expand to comma-separated lists of the CLI's
+   * built-in tools the policy permits and refuses. An option whose list is
+   * empty is left out.
+   */
+  toolArgs?: string[];
+  env?: Record<string, string>;
+  killGracePeriod?: number;
 }
 
 export interface TaskQueueConfig {
   maxConcurrency: number;
   retryDelay: number;
   redisUrl?: string;
+  keyPrefix?: string;
+  pollInterval?: number;
+  /** How long records of finished tasks are kept, in ms (default 7 days) */
+  recordTtl?: number;
+  /** A running task whose owner has not refreshed its heartbeat for this long is abandoned, in ms (default 30s) */
+  heartbeatTtl?: number;
 }
 
 export interface MCPConfig {
   servers: string[];
   serverPath?: string;
+  /** Delay before the first restart of a crashed server, doubled on every further attempt */
+  restartDelay?: number;
+  maxRestartDelay?: number;
+  maxRestarts?: number;
+  connectTimeout?: number;
+  /** Interval of the health pings sent to running servers; 0 disables them */
+  pingInterval?: number;
+  pingTimeout?: number;
+  /** Which servers and tools agents may call, by role and capability */
+  toolPolicy?: MCPToolPolicy;
+  /** Where agents reach the servers' tools through the orchestrator (default 127.0.0.1 on a free port) */
+  gateway?: { host?: string; port?: number };
+}
+
+/**
+ * Tool patterns are "<server>:<tool>" and may use "*" as a wildcard,
+ * e.g. "filesystem:read_*" or "github:*"
+ */
+export interface ToolPermission {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface MCPToolPolicy {
+  /** Applies to agents that no role or capability rule covers */
+  defaultAction?: 'allow' | 'deny';
+  roles?: Record<string, ToolPermission>;
+  capabilities?: Record<string, ToolPermission>;
 }
 
 export interface MemoryConfig {
@@ -56,6 +199,28 @@ export interface MonitoringConfig {
   port: number;
   metricsInterval: number;
   enableTracing: boolean;
+  tracing?: TracingConfig;
+}
+
+export interface TracingConfig {
+  serviceName?: string;
+  /** OTLP/HTTP collector, e.g. http://localhost:4318 (spans are posted to /v1/traces) */
+  otlpEndpoint?: string;
+  otlpHeaders?: Record<string, string>;
+  /** Append each exported batch as a line of OTLP JSON to this file */
+  file?: string;
+  /** How often finished spans are exported (ms) */
+  exportInterval?: number;
+}
+
+/**
+ * Identifies the span a piece of work runs under. Carried on
+ * Task.metadata.traceContext so that patterns, agents and tool calls
+ * join the trace of the task that started them.
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
 }
 
 export interface PatternConfig {
@@ -75,12 +240,84 @@ export interface SwarmConfig {
   adaptiveScaling?: boolean;
   specialization?: boolean;
   communicationDelay?: number;
+  /** How votes on the proposals are counted (default 'threshold') */
+  votingRule?: SwarmVotingRule;
+  /** Minimum confidence for a supporting vote to count as an approval under the 'approval' rule (default 0.5) */
+  approvalThreshold?: number;
+  /** How the proposal the swarm executes is picked (default 'consensus') */
+  resultAggregation?: SwarmResultAggregation;
+  /** Times a failed plan step is retried, each on an agent that has not tried it yet (default 1) */
+  stepRetries?: number;
+  /** Ask the synthesizer for replacement steps when a step fails for good (default true) */
+  replanOnFailure?: boolean;
+  /** End exploration early once this many agents have made similar discoveries (default: off) */
+  convergenceQuorum?: number;
+  /** Word overlap, from 0 to 1, at which two discoveries count as similar (default 0.6) */
+  convergenceSimilarity?: number;
 }
 
+/**
+ * - threshold: share of supporting votes, must reach minConsensus
+ * - majority: share of supporting votes, must exceed one half
+ * - confidence-weighted: votes weighted by the voter's confidence, must reach minConsensus
+ * - performance-weighted: votes weighted by the voter's success rate, must reach minConsensus
+ * - approval: most approvals (supporting votes with enough confidence) wins
+ * - borda: each voter's votes ranked by support and confidence, most points wins
+ */
+export type SwarmVotingRule = 'threshold' | 'majority' | 'confidence-weighted' | 'performance-weighted' | 'approval' | 'borda';
+
+/**
+ * - first: the first proposal made, without voting
+ * - best: the proposal made with the highest confidence, without voting
+ * - consensus: the proposal the voting rule agrees on, falling back to the highest confidence proposal
+ *   without agreement (consensus status 'fallback')
+ * - majority: the proposal the voting rule ranks first, even without agreement
+ */
+export type SwarmResultAggregation = 'first' | 'best' | 'consensus' | 'majority';
+
+export type StageFailureHandling = 'stop' | 'skip' | 'retry';
+
 export interface PipelineConfig {
   maxStages: number;
   stageTimeout: number;
   allowParallelStages: boolean;
+  failureHandling?: StageFailureHandling;
+  retryAttempts?: number;
+  retryDelay?: number;
+}
+
+/**
+ * Declarative pipeline supplied in task.context.pipeline. Stage prompts are
+ * templates that may reference {{task}}, {{previous}} and the names of the
+ * stage's input mappings; a mapping such as `plan: "plan.steps"` picks a
+ * field from an upstream stage's output (or from `task`).
+ */
+export interface PipelineDefinition {
+  name?: string;
+  stages: PipelineStageDefinition[];
+}
+
+export interface PipelineStageDefinition {
+  name: string;
+  prompt: string;
+  description?: string;
+  model?: string;
+  temperature?: number;
+  inputs?: Record<string, string>;
+  /** Stages that must finish first; defaults to the preceding stage, [] starts immediately */
+  dependsOn?: string[];
+  failureHandling?: StageFailureHandling;
+  retries?: number;
+  timeout?: number;
+  /** Compensating stage run once this stage has finally failed; its prompt may use {{error}} */
+  onFailure?: PipelineCompensationDefinition;
+}
+
+export interface PipelineCompensationDefinition {
+  name?: string;
+  prompt: string;
+  model?: string;
+  temperature?: number;
 }
 
 export interface ConsensusConfig {
@@ -93,6 +330,9 @@ export interface MapReduceConfig {
   chunkSize: number;
   maxMappers: number;
   maxReducers: number;
+  reduceStrategy?: 'merge' | 'sum' | 'concat' | 'custom';
+  reduceFanIn?: number;
+  chunkRetries?: number;
 }
 
 export interface OrchestratorConfig {
@@ -112,6 +352,11 @@ export interface AgentStatus {
   uptime: number;
   tasksCompleted: number;
   lastError?: string;
+  /** Role and capabilities the current task runs with, used for tool permissions */
+  role?: string;
+  capabilities?: string[];
+  /** Span of the current task, the parent of the tool calls the agent makes */
+  traceContext?: TraceContext;
 }
 
 export interface AgentCapability {
@@ -134,11 +379,27 @@ export interface Agent {
 
 export interface MCPServer {
   name: string;
-  transport: 'stdio' | 'sse';
+  /** 'http' is the streamable HTTP transport */
+  transport: 'stdio' | 'sse' | 'http';
   command?: string;
   args?: string[];
   env?: Record<string, string>;
   url?: string;
+  /** Sent with every request to a remote server, e.g. an Authorization header */
+  headers?: Record<string, string>;
+}
+
+export type MCPServerState = 'stopped' | 'starting' | 'running' | 'restarting' | 'failed';
+
+export interface MCPServerStatus {
+  name: string;
+  transport: MCPServer['transport'];
+  state: MCPServerState;
+  tools: string[];
+  restarts: number;
+  connectedAt?: number;
+  lastError?: string;
+  missingEnv?: string[];
 }
 
 export interface ToolCall {
@@ -153,6 +414,27 @@ export interface ToolResult {
   result?: any;
   error?: string;
   executionTime: number;
+  /** Set when the tool policy refused the call */
+  denied?: ToolDenial;
+}
+
+export interface ToolDenial {
+  code: 'TOOL_DENIED';
+  agentId: string;
+  role?: string;
+  server: string;
+  tool: string;
+  reason: string;
+}
+
+/**
+ * One routed tool call as recorded in a task's audit log
+ */
+export interface ToolAuditEntry {
+  taskId?: string;
+  server?: string;
+  call: ToolCall;
+  result: ToolResult;
 }
 
 export interface PatternExecutor {
@@ -175,6 +457,8 @@ export interface MetricsSnapshot {
   activeAgents: number;
   queueSize: number;
   uptime: number;
+  toolCalls?: { succeeded: number; failed: number; denied: number };
+  usage?: TokenUsage;
 }
 
 // Supervisor System Types
@@ -205,6 +489,8 @@ export interface TeamMetrics {
   issuesResolved: number;
   blockedTasks: number;
   teamEfficiency: number;
+  tokensUsed: number;
+  costUsd: number;
 }
 
 export interface WorkSession {
@@ -346,6 +632,8 @@ export interface Agreement {
   proposalId: string;
   supportLevel: number;
   content: any;
+  /** Every proposal with the same answer as proposalId */
+  proposalIds?: string[];
 }
 
 export interface ExecutionPlan {
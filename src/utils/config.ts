@@ -27,7 +27,12 @@ const defaultConfig: OrchestratorConfig = {
   monitoring: {
     port: parseInt(process.env.MONITORING_PORT || '3000'),
     metricsInterval: parseInt(process.env.METRICS_INTERVAL || '1000'),
-    enableTracing: true
+    enableTracing: true,
+    tracing: {
+      serviceName: process.env.OTEL_SERVICE_NAME || 'claude-orchestration',
+      otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      file: process.env.TRACES_FILE
+    }
   },
   patterns: {
     swarm: {
@@ -17,6 +17,8 @@ export class Logger {
       defaultMeta: { component },
       transports: [
         new winston.transports.Console({
+          // Set when stdout carries a protocol, e.g. `claude-orchestrate mcp-serve`
+          stderrLevels: process.env.LOG_STDERR === 'true' ? Object.keys(winston.config.npm.levels) : undefined,
           format: winston.format.combine(
             winston.format.colorize(),
             winston.format.simple()
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { resolve } from 'path';
+import { ClaudeCodeAgent, type AgentTools } from '../../src/agents/claude-code-agent.js';
+import { ToolPolicy } from '../../src/mcp/tool-policy.js';
+import type { AgentCommandConfig, Task } from '../../src/types/index.js';
+
+const FAKE_CLI = resolve(__dirname, '../fixtures/fake-claude.js');
+
+function createAgent(command: Partial<AgentCommandConfig> = {}, tools: AgentTools = {}): ClaudeCodeAgent {
+  return new ClaudeCodeAgent('agent-1', {
+    maxAgents: 1,
+    defaultModel: 'sonnet',
+    maxTokens: 1000,
+    temperature: 0.5,
+    spawnTimeout: 1000,
+    command: { command: process.execPath, args: [FAKE_CLI, '-p', '{{prompt}}'], killGracePeriod: 500, ...command }
+  }, undefined, tools);
+}
+
+function task(description: string, overrides: Partial<Task> = {}): Task {
+  return { id: `task-${description}`, description, pattern: 'swarm', ...overrides };
+}
+
+describe('ClaudeCodeAgent', () => {
+  let agent: ClaudeCodeAgent;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    agent = createAgent();
+    await agent.start();
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should unwrap the Claude Code JSON envelope', async () => {
+    const result = await agent.execute(task('envelope {"answer":42}'));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ answer: 42 });
+    expect(result.metadata).toMatchObject({
+      sessionId: 'session-1',
+      numTurns: 1,
+      tokenUsage: { inputTokens: 10, outputTokens: 5 }
+    });
+    expect(agent.status).toBe('idle');
+  });
+
+  it('should return plain text output unchanged', async () => {
+    const result = await agent.execute(task('hello there'));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toBe('hello there');
+    expect(result.metadata?.tokenUsage?.estimated).toBe(true);
+  });
+
+  it('should write the prompt to stdin when the template has no {{prompt}}', async () => {
+    const stdinAgent = createAgent({ args: [FAKE_CLI] });
+    await stdinAgent.start();
+    try {
+      const result = await stdinAgent.execute(task('envelope from stdin'));
+      expect(result.result).toBe('from stdin');
+    } finally {
+      await stdinAgent.stop();
+    }
+  });
+
+  it('should fail with the exit code and stderr of a failed process', async () => {
+    const result = await agent.execute(task('fail'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('exited with code 2: something broke');
+    expect(result.metadata?.exitCode).toBe(2);
+    expect(agent.status).toBe('error');
+  });
+
+  it('should fail when the envelope reports an error', async () => {
+    const result = await agent.execute(task('error rate limited'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Claude Code reported an error: rate limited');
+  });
+
+  it('should kill a process that runs past the task timeout', async () => {
+    const startTime = Date.now();
+    const result = await agent.execute(task('sleep 5000', { timeout: 200 }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Claude Code process timed out after 200ms');
+    expect(Date.now() - startTime).toBeLessThan(3000);
+  });
+
+  it('should cancel a run when its signal is aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const result = await agent.execute(task('sleep 5000', { signal: controller.signal }));
+
+    expect(result.success).toBe(false);
+    expect(result.metadata?.cancelled).toBe(true);
+    expect(agent.status).toBe('idle');
+  });
+
+  it('should not start a process for a task cancelled beforehand', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await agent.execute(task('envelope never', { signal: controller.signal }));
+
+    expect(result.metadata?.cancelled).toBe(true);
+    expect(result.metadata?.tokenUsage).toBeUndefined();
+  });
+
+  it('should only kill the aborted run when several run at once', async () => {
+    const controller = new AbortController();
+    const aborted = agent.execute(task('sleep 3000', { signal: controller.signal }));
+    const other = agent.execute(task('sleep 600'));
+    setTimeout(() => controller.abort(), 100);
+
+    const [abortedResult, otherResult] = await Promise.all([aborted, other]);
+
+    expect(abortedResult.metadata?.cancelled).toBe(true);
+    expect(otherResult.success).toBe(true);
+    expect(otherResult.result).toEqual({ slept: 600 });
+  });
+
+  it('should stay busy until every concurrent run has finished', async () => {
+    const short = agent.execute(task('sleep 100'));
+    const long = agent.execute(task('sleep 600'));
+
+    await short;
+    expect(agent.status).toBe('busy');
+    await long;
+    expect(agent.status).toBe('idle');
+  });
+
+  it('should kill every running process on stop', async () => {
+    const startTime = Date.now();
+    const runs = [agent.execute(task('sleep 5000')), agent.execute(task('sleep 5000'))];
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await agent.stop();
+
+    const results = await Promise.all(runs);
+    expect(results.every(result => !result.success)).toBe(true);
+    expect(Date.now() - startTime).toBeLessThan(3000);
+  });
+});
+
+describe('ClaudeCodeAgent with a tool policy', () => {
+  let agent: ClaudeCodeAgent;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    agent = createAgent({}, { policy: new ToolPolicy() });
+    await agent.start();
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+    jest.restoreAllMocks();
+  });
+
+  function optionValue(args: string[], option: string): string[] | undefined {
+    const index = args.indexOf(option);
+    return index === -1 ? undefined : args[index + 1].split(',');
+  }
+
+  it('should keep read-only roles from the CLI\'s write tools', async () => {
+    const result = await agent.execute(task('args', {
+      metadata: { role: 'validator', capabilities: ['file-operations', 'code-analysis'] }
+    }));
+
+    expect(optionValue(result.result, '--disallowedTools')).toEqual(expect.arrayContaining(['Write', 'Edit', 'MultiEdit', 'Bash']));
+    expect(optionValue(result.result, '--allowedTools')).toEqual(expect.arrayContaining(['Read', 'Grep']));
+    expect(optionValue(result.result, '--allowedTools')).not.toContain('Write');
+  });
+
+  it('should leave out the disallowed tools option when the policy allows everything', async () => {
+    const result = await agent.execute(task('args', {
+      metadata: { role: 'executor', capabilities: ['file-operations', 'implementation'] }
+    }));
+
+    expect(optionValue(result.result, '--allowedTools')).toEqual(expect.arrayContaining(['Write', 'Bash']));
+    expect(result.result).not.toContain('--disallowedTools');
+  });
+});
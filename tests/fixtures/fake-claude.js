@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+// Stand-in for the `claude` CLI. The prompt (the argument after -p, or stdin)
+// picks the behaviour:
+//   envelope <text>  print a Claude Code JSON result envelope
+//   error <text>     print an envelope with is_error set
+//   fail             write to stderr and exit with code 2
+//   sleep <ms>       wait, then print a JSON document
+//   args             print the command-line arguments as JSON
+//   tools            list the tools of the server given with --mcp-config
+//   tool <name> <json-args>  call a tool on that server and print the reply
+//   anything else    echo the prompt as plain text
+const index = process.argv.indexOf('-p');
+
+// Minimal MCP client for the HTTP+SSE transport the orchestrator's gateway serves
+async function connectMcp() {
+  const config = JSON.parse(process.argv[process.argv.indexOf('--mcp-config') + 1]);
+  const { url } = Object.values(config.mcpServers)[0];
+  const response = await fetch(url, { headers: { Accept: 'text/event-stream' } });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const pending = new Map();
+  let endpointReady;
+  const endpoint = new Promise(resolve => { endpointReady = resolve; });
+  (async () => {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const event = (block.match(/^event: (.*)$/m) || [])[1] || 'message';
+        const data = (block.match(/^data: (.*)$/m) || [])[1];
+        if (event === 'endpoint') {
+          endpointReady(new URL(data, url));
+        } else if (data) {
+          const message = JSON.parse(data);
+          pending.get(message.id)?.(message);
+        }
+      }
+    }
+  })().catch(() => {});
+
+  const post = async message => fetch(await endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', ...message })
+  });
+  let nextId = 0;
+  const request = async (method, params) => {
+    const id = ++nextId;
+    const reply = new Promise(resolve => pending.set(id, resolve));
+    await post({ id, method, params });
+    return reply;
+  };
+
+  await request('initialize', { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'fake-claude', version: '0.0.0' } });
+  await post({ method: 'notifications/initialized' });
+  return request;
+}
+
+async function useTools(command, name, args) {
+  const request = await connectMcp();
+  if (command === 'tools') {
+    const { result } = await request('tools/list', {});
+    console.log(JSON.stringify(result.tools.map(tool => tool.name)));
+  } else {
+    const { result } = await request('tools/call', { name, arguments: args ? JSON.parse(args) : {} });
+    console.log(JSON.stringify({ isError: !!result.isError, text: result.content.map(item => item.text).join('\n') }));
+  }
+  process.exit(0);
+}
+
+function run(prompt) {
+  const [command, ...rest] = prompt.trim().split(' ');
+  const text = rest.join(' ');
+
+  switch (command) {
+    case 'envelope':
+    case 'error':
+      console.log(JSON.stringify({
+        type: 'result',
+        is_error: command === 'error',
+        result: text,
+        session_id: 'session-1',
+        num_turns: 1,
+        usage: { input_tokens: 10, output_tokens: 5 }
+      }));
+      break;
+    case 'fail':
+      process.stderr.write('something broke\n');
+      process.exit(2);
+      break;
+    case 'sleep':
+      setTimeout(() => console.log(JSON.stringify({ slept: Number(text) })), Number(text));
+      break;
+    case 'args':
+      console.log(JSON.stringify(process.argv.slice(2)));
+      break;
+    case 'tools':
+    case 'tool':
+      useTools(command, rest[0], rest.slice(1).join(' ')).catch((error) => {
+        process.stderr.write(`${error.message}\n`);
+        process.exit(3);
+      });
+      break;
+    default:
+      console.log(prompt);
+  }
+}
+
+if (index >= 0) {
+  run(process.argv[index + 1] || '');
+} else {
+  let input = '';
+  process.stdin.on('data', chunk => { input += chunk; });
+  process.stdin.on('end', () => run(input));
+}
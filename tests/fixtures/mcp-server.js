@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+// Stand-in MCP server on stdio with a few tools:
+//   echo        replies with its "text" argument
+//   write_file  pretends to write "path"
+//   fail        replies with an error result
+//   crash       exits the process, to exercise restarts
+async function main() {
+  // The SDK is published as ES modules only
+  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+  const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+  const { ListToolsRequestSchema, CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+  const tools = ['echo', 'write_file', 'fail', 'crash'].map(name => ({
+    name,
+    description: `Fixture tool ${name}`,
+    inputSchema: { type: 'object', properties: {} }
+  }));
+
+  const server = new Server({ name: 'fixture', version: '0.0.0' });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const args = request.params.arguments || {};
+    switch (request.params.name) {
+      case 'echo':
+        return { content: [{ type: 'text', text: String(args.text) }] };
+      case 'write_file':
+        return { content: [{ type: 'text', text: `wrote ${args.path}` }] };
+      case 'crash':
+        process.exit(1);
+        break;
+      default:
+        return { content: [{ type: 'text', text: 'fixture failure' }], isError: true };
+    }
+  });
+
+  await server.connect(new StdioServerTransport());
+}
+
+main().catch((error) => {
+  process.stderr.write(`${error.stack}\n`);
+  process.exit(1);
+});
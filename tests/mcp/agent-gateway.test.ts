@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { ClaudeCodeAgent } from '../../src/agents/claude-code-agent.js';
+import { AgentToolGateway } from '../../src/mcp/agent-gateway.js';
+import type { MCPManager } from '../../src/mcp/server.js';
+import type { Task } from '../../src/types/index.js';
+import { createFixtureManager, waitForEvent } from './helpers.js';
+
+const FAKE_CLI = resolve(__dirname, '../fixtures/fake-claude.js');
+
+function task(id: string, description: string, metadata: Record<string, any> = {}): Task {
+  return { id, description, pattern: 'swarm', metadata };
+}
+
+describe('AgentToolGateway', () => {
+  let directory: string;
+  let manager: MCPManager;
+  let gateway: AgentToolGateway;
+  let agent: ClaudeCodeAgent;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    directory = mkdtempSync(join(tmpdir(), 'agent-gateway-'));
+    manager = createFixtureManager(directory);
+    const started = waitForEvent(manager, 'serverStarted');
+    await manager.start();
+    await started;
+
+    gateway = new AgentToolGateway(manager);
+    await gateway.start();
+    agent = new ClaudeCodeAgent('agent-1', {
+      maxAgents: 1,
+      defaultModel: 'sonnet',
+      maxTokens: 1000,
+      temperature: 0.5,
+      spawnTimeout: 1000,
+      command: { command: process.execPath, args: [FAKE_CLI, '-p', '{{prompt}}'] }
+    }, directory, { gateway });
+    await agent.start();
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+    await gateway.stop();
+    await manager.stop();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should offer the servers\' tools to the agent process', async () => {
+    const result = await agent.execute(task('task-list', 'tools'));
+
+    expect(result.result).toEqual(['filesystem__echo', 'filesystem__write_file', 'filesystem__fail', 'filesystem__crash']);
+  });
+
+  it('should only list the tools the run\'s role may call', async () => {
+    const result = await agent.execute(task('task-list', 'tools', { role: 'validator', capabilities: ['file-operations'] }));
+
+    expect(result.result).not.toContain('filesystem__write_file');
+    expect(result.result).toContain('filesystem__echo');
+  });
+
+  it('should route the agent\'s tool calls through the manager and audit them', async () => {
+    const result = await agent.execute(task('task-1-stage-1', 'tool filesystem__echo {"text":"hi"}'));
+
+    expect(result.result).toEqual({ isError: false, text: 'hi' });
+    const log = manager.takeAuditLog('task-1');
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({
+      taskId: 'task-1-stage-1',
+      server: 'filesystem',
+      call: { toolName: 'filesystem:echo', agentId: 'agent-1', arguments: { text: 'hi' } }
+    });
+  });
+
+  it('should apply the tool policy for the role of the run', async () => {
+    const result = await agent.execute(task('exec-step-1', 'tool filesystem__write_file {"path":"a.txt"}', {
+      role: 'validator',
+      auditTaskId: 'swarm-task'
+    }));
+
+    expect(result.result).toMatchObject({ isError: true });
+    expect(result.result.text).toContain('Tool call denied');
+    const log = manager.takeAuditLog('swarm-task');
+    expect(log[0].result.denied).toMatchObject({ code: 'TOOL_DENIED', role: 'validator', tool: 'write_file' });
+  });
+
+  it('should audit calls to tools that do not exist', async () => {
+    const result = await agent.execute(task('task-2', 'tool nothing__here'));
+
+    expect(result.result).toMatchObject({ isError: true });
+    expect(manager.takeAuditLog('task-2')).toHaveLength(1);
+  });
+
+  it('should close a run\'s session once the run is over', async () => {
+    const session = gateway.openSession({ agentId: 'agent-1', taskId: 'task-3' });
+    const open = await fetch(session.url);
+    expect(open.status).toBe(200);
+    await open.body?.cancel();
+
+    session.close();
+
+    expect((await fetch(session.url)).status).toBe(404);
+  });
+});
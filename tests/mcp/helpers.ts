@@ -0,0 +1,23 @@
+import { writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { MCPManager } from '../../src/mcp/server.js';
+import type { MCPConfig } from '../../src/types/index.js';
+
+const FIXTURE_SERVER = resolve(__dirname, '../fixtures/mcp-server.js');
+
+/**
+ * Manager for the stdio fixture server, registered as "filesystem" so the
+ * default tool policy's rules for filesystem tools apply to it. `env` goes
+ * into the server definition as written, placeholders included.
+ */
+export function createFixtureManager(directory: string, overrides: Partial<MCPConfig> = {}, env?: Record<string, string>): MCPManager {
+  const serverPath = join(directory, 'mcp-servers.json');
+  writeFileSync(serverPath, JSON.stringify({
+    mcpServers: { filesystem: { command: process.execPath, args: [FIXTURE_SERVER], env } }
+  }));
+  return new MCPManager({ servers: ['filesystem'], serverPath, pingInterval: 0, restartDelay: 20, ...overrides });
+}
+
+export function waitForEvent(emitter: MCPManager, event: string): Promise<any[]> {
+  return new Promise(resolve => emitter.once(event, (...args: any[]) => resolve(args)));
+}
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SseClientTransport, StreamableHttpClientTransport, readEventStream, type ServerSentEvent } from '../../src/mcp/http-transport.js';
+import { MCPManager } from '../../src/mcp/server.js';
+import { waitForEvent } from './helpers.js';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+async function listen(handler: Handler): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    Promise.resolve(handler(req, res)).catch(() => res.writeHead(500).end());
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+async function close(server: Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+}
+
+async function connectClient(transport: SseClientTransport | StreamableHttpClientTransport) {
+  const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+/**
+ * Stand-in for a streamable HTTP MCP server: initialize opens a session,
+ * tools/call replies as an event stream and everything else as JSON
+ */
+function streamableServer() {
+  const sessions = new Set<string>();
+  const received: Array<{ method?: string; headers: IncomingHttpHeaders }> = [];
+  const deleted: string[] = [];
+  let sessionCounter = 0;
+
+  const handler: Handler = async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (req.method === 'DELETE') {
+      deleted.push(sessionId!);
+      sessions.delete(sessionId!);
+      res.writeHead(200).end();
+      return;
+    }
+
+    const message = JSON.parse(await readBody(req));
+    received.push({ method: message.method, headers: req.headers });
+    if (message.method !== 'initialize' && !sessions.has(sessionId!)) {
+      res.writeHead(404).end('Unknown session');
+      return;
+    }
+    if (message.id === undefined) {
+      res.writeHead(202).end();
+      return;
+    }
+
+    const results: Record<string, any> = {
+      'initialize': { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'stand-in', version: '0.0.0' } },
+      'tools/list': { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] },
+      'tools/call': { content: [{ type: 'text', text: message.params?.arguments?.text }] }
+    };
+    const reply = JSON.stringify({ jsonrpc: '2.0', id: message.id, result: results[message.method] ?? {} });
+
+    if (message.method === 'initialize') {
+      const id = `session-${++sessionCounter}`;
+      sessions.add(id);
+      res.setHeader('Mcp-Session-Id', id);
+    }
+    if (message.method === 'tools/call') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' }).end(`event: message\ndata: ${reply}\n\n`);
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(reply);
+    }
+  };
+
+  return { handler, sessions, received, deleted };
+}
+
+describe('readEventStream', () => {
+  it('should split a stream into events across chunk boundaries', async () => {
+    const chunks = ['event: endpoint\ndata: /mess', 'ages\n\n: comment\n\ndata: {"a":1}\r\n', 'data: {"b":2}\r\n\r\n'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      }
+    });
+    const events: ServerSentEvent[] = [];
+
+    await readEventStream(body, event => events.push(event));
+
+    expect(events).toEqual([
+      { event: 'endpoint', data: '/messages' },
+      { event: 'message', data: '{"a":1}\n{"b":2}' }
+    ]);
+  });
+});
+
+describe('SseClientTransport', () => {
+  let server: Server;
+  let url: string;
+  let headers: IncomingHttpHeaders[];
+
+  beforeEach(async () => {
+    headers = [];
+    // The SDK's own server transport stands in for a remote SSE server
+    const [{ Server: McpServer }, { SSEServerTransport }, { ListToolsRequestSchema, CallToolRequestSchema }] = await Promise.all([
+      import('@modelcontextprotocol/sdk/server/index.js'),
+      import('@modelcontextprotocol/sdk/server/sse.js'),
+      import('@modelcontextprotocol/sdk/types.js')
+    ]);
+    const transports = new Map<string, InstanceType<typeof SSEServerTransport>>();
+
+    ({ server, url } = await listen(async (req, res) => {
+      headers.push(req.headers);
+      const requestUrl = new URL(req.url!, 'http://localhost');
+      if (req.method === 'GET' && requestUrl.pathname === '/sse') {
+        const transport = new SSEServerTransport('/messages', res);
+        transports.set(transport.sessionId, transport);
+        const mcp = new McpServer({ name: 'stand-in', version: '0.0.0' });
+        mcp.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [{ name: 'echo', inputSchema: { type: 'object' } }] }));
+        mcp.setRequestHandler(CallToolRequestSchema, async request => ({
+          content: [{ type: 'text', text: String(request.params.arguments?.text) }]
+        }));
+        await mcp.connect(transport);
+      } else if (req.method === 'POST' && requestUrl.pathname === '/messages') {
+        await transports.get(requestUrl.searchParams.get('sessionId')!)!.handlePostMessage(req, res);
+      } else if (requestUrl.pathname === '/foreign') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('event: endpoint\ndata: http://elsewhere.example.com/messages\n\n');
+      } else if (requestUrl.pathname === '/silent') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' }).end();
+      } else {
+        res.writeHead(404).end();
+      }
+    }));
+  });
+
+  afterEach(async () => {
+    await close(server);
+  });
+
+  it('should talk to an SSE server and send the configured headers', async () => {
+    const client = await connectClient(new SseClientTransport(`${url}/sse`, { Authorization: 'Bearer secret' }));
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'over sse' } });
+    await client.close();
+
+    expect(tools.map(tool => tool.name)).toEqual(['echo']);
+    expect(result.content).toEqual([{ type: 'text', text: 'over sse' }]);
+    expect(headers.every(h => h.authorization === 'Bearer secret')).toBe(true);
+  });
+
+  it('should refuse an endpoint on another origin', async () => {
+    const transport = new SseClientTransport(`${url}/foreign`);
+
+    await expect(transport.start()).rejects.toThrow('does not match');
+  });
+
+  it('should fail when the stream ends before announcing an endpoint', async () => {
+    await expect(new SseClientTransport(`${url}/silent`).start()).rejects.toThrow('ended before announcing an endpoint');
+  });
+
+  it('should fail on an HTTP error', async () => {
+    await expect(new SseClientTransport(`${url}/missing`).start()).rejects.toThrow('HTTP 404');
+  });
+});
+
+describe('StreamableHttpClientTransport', () => {
+  let standIn: ReturnType<typeof streamableServer>;
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    standIn = streamableServer();
+    ({ server, url } = await listen(standIn.handler));
+  });
+
+  afterEach(async () => {
+    await close(server);
+  });
+
+  it('should keep the session id and read JSON and event stream replies', async () => {
+    const client = await connectClient(new StreamableHttpClientTransport(`${url}/mcp`, { 'X-Api-Key': 'key' }));
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'streamed' } });
+
+    expect(tools.map(tool => tool.name)).toEqual(['echo']);
+    expect(result.content).toEqual([{ type: 'text', text: 'streamed' }]);
+    const afterInitialize = standIn.received.slice(1);
+    expect(afterInitialize.every(request => request.headers['mcp-session-id'] === 'session-1')).toBe(true);
+    expect(standIn.received.every(request => request.headers['x-api-key'] === 'key')).toBe(true);
+
+    await client.close();
+    expect(standIn.deleted).toEqual(['session-1']);
+  });
+
+  it('should close when the server forgets the session', async () => {
+    const transport = new StreamableHttpClientTransport(`${url}/mcp`);
+    const client = await connectClient(transport);
+    const closed = new Promise<void>(resolve => {
+      client.onclose = () => resolve();
+    });
+    standIn.sessions.clear();
+
+    await expect(client.listTools()).rejects.toThrow();
+    await closed;
+  });
+});
+
+describe('MCPManager with a remote server', () => {
+  let directory: string;
+  let server: Server;
+  let manager: MCPManager | undefined;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-http-'));
+  });
+
+  afterEach(async () => {
+    await manager?.stop();
+    await close(server);
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env.STAND_IN_TOKEN;
+  });
+
+  it('should connect over streamable HTTP with expanded headers', async () => {
+    const standIn = streamableServer();
+    let url: string;
+    ({ server, url } = await listen(standIn.handler));
+    process.env.STAND_IN_TOKEN = 'from-env';
+    const serverPath = join(directory, 'mcp-servers.json');
+    writeFileSync(serverPath, JSON.stringify({
+      mcpServers: { remote: { type: 'streamable-http', url: `${url}/mcp`, headers: { Authorization: 'Bearer ${STAND_IN_TOKEN}' } } }
+    }));
+    manager = new MCPManager({ servers: ['remote'], serverPath, pingInterval: 0 });
+
+    const started = waitForEvent(manager, 'serverStarted');
+    await manager.start();
+    await started;
+    const result = await manager.callTool('agent-1', 'remote:echo', { text: 'remote' });
+
+    expect(manager.getStatus().servers[0]).toMatchObject({ name: 'remote', transport: 'http', state: 'running', tools: ['echo'] });
+    expect(result).toMatchObject({ success: true, result: [{ type: 'text', text: 'remote' }] });
+    expect(standIn.received[0].headers.authorization).toBe('Bearer from-env');
+  });
+
+  it('should reconnect when a health ping goes unanswered', async () => {
+    const standIn = streamableServer();
+    let answerPings = true;
+    let url: string;
+    ({ server, url } = await listen(async (req, res) => {
+      if (!answerPings && req.method === 'POST') {
+        // Hold the ping until the test is over
+        return;
+      }
+      await standIn.handler(req, res);
+    }));
+    const serverPath = join(directory, 'mcp-servers.json');
+    writeFileSync(serverPath, JSON.stringify({ mcpServers: { remote: { type: 'http', url: `${url}/mcp` } } }));
+    manager = new MCPManager({ servers: ['remote'], serverPath, pingInterval: 50, pingTimeout: 50, restartDelay: 20 });
+
+    const started = waitForEvent(manager, 'serverStarted');
+    await manager.start();
+    await started;
+    const stopped = waitForEvent(manager, 'serverStopped');
+    answerPings = false;
+    const [, reason] = await stopped;
+    const restarted = waitForEvent(manager, 'serverStarted');
+    answerPings = true;
+    await restarted;
+
+    expect(reason).toContain('Health ping failed');
+    expect(manager.getStatus().servers[0]).toMatchObject({ state: 'running', restarts: 1 });
+  });
+});
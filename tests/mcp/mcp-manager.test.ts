@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MCPManager } from '../../src/mcp/server.js';
+import { createFixtureManager, waitForEvent } from './helpers.js';
+
+describe('MCPManager with a stdio server', () => {
+  let directory: string;
+  let manager: MCPManager;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-manager-'));
+    manager = createFixtureManager(directory);
+    const started = waitForEvent(manager, 'serverStarted');
+    await manager.start();
+    await started;
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should list the tools of the running server', () => {
+    expect(manager.listTools().map(tool => tool.name)).toEqual(['echo', 'write_file', 'fail', 'crash']);
+    expect(manager.getStatus().activeServers).toEqual(['filesystem']);
+  });
+
+  it('should call a tool and record it in the task audit log', async () => {
+    const result = await manager.callTool('agent-1', 'echo', { text: 'hello' }, { taskId: 'task-1-stage-1' });
+
+    expect(result).toMatchObject({ success: true, result: [{ type: 'text', text: 'hello' }] });
+    const log = manager.takeAuditLog('task-1');
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ taskId: 'task-1-stage-1', server: 'filesystem', call: { toolName: 'echo', agentId: 'agent-1' } });
+    expect(manager.takeAuditLog('task-1')).toEqual([]);
+  });
+
+  it('should report tool errors as failed calls', async () => {
+    const result = await manager.callTool('agent-1', 'filesystem:fail', {}, { taskId: 'task-2' });
+
+    expect(result).toMatchObject({ success: false, error: 'fixture failure' });
+  });
+
+  it('should deny and audit calls the role may not make', async () => {
+    const result = await manager.callTool('agent-1', 'write_file', { path: 'x' }, { taskId: 'task-3', role: 'validator' });
+
+    expect(result.success).toBe(false);
+    expect(result.denied).toMatchObject({ code: 'TOOL_DENIED', role: 'validator', server: 'filesystem', tool: 'write_file' });
+    expect(manager.getAuditLog('task-3')).toHaveLength(1);
+    expect(manager.getStatus().deniedToolCalls).toEqual({ 'filesystem:write_file': 1 });
+  });
+
+  it('should audit calls to tools no server offers', async () => {
+    const result = await manager.callTool('agent-1', 'missing', {}, { taskId: 'task-4' });
+
+    expect(result).toMatchObject({ success: false, error: 'No running MCP server offers tool missing' });
+    expect(manager.getAuditLog('task-4')[0].server).toBeUndefined();
+  });
+
+  it('should restart a server that exits', async () => {
+    const stopped = waitForEvent(manager, 'serverStopped');
+    const restarted = waitForEvent(manager, 'serverStarted');
+    await manager.callTool('agent-1', 'crash');
+    await stopped;
+    await restarted;
+
+    expect(manager.getStatus().servers[0]).toMatchObject({ state: 'running', restarts: 1 });
+    expect((await manager.callTool('agent-1', 'echo', { text: 'back' })).success).toBe(true);
+  });
+});
+
+describe('MCPManager supervision', () => {
+  let directory: string;
+  let manager: MCPManager | undefined;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-manager-'));
+  });
+
+  afterEach(async () => {
+    await manager?.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should give up on a server that keeps crashing after maxRestarts', async () => {
+    manager = createFixtureManager(directory, { maxRestarts: 1 });
+    const started = waitForEvent(manager, 'serverStarted');
+    await manager.start();
+    await started;
+
+    const restarted = waitForEvent(manager, 'serverStarted');
+    await manager.callTool('agent-1', 'crash');
+    await restarted;
+    const failed = waitForEvent(manager, 'serverFailed');
+    await manager.callTool('agent-1', 'crash');
+
+    expect((await failed)[0]).toBe('filesystem');
+    expect(manager.getStatus().servers[0]).toMatchObject({ state: 'failed', restarts: 1, tools: [] });
+    expect(manager.listTools()).toEqual([]);
+  });
+
+  it('should fail a server whose env references an unset variable and name the variable', async () => {
+    delete process.env.MCP_FIXTURE_TOKEN;
+    manager = createFixtureManager(directory, {}, {
+      TOKEN: '${MCP_FIXTURE_TOKEN}',
+      REGION: '${MCP_FIXTURE_REGION:-eu}'
+    });
+    const failed = waitForEvent(manager, 'serverFailed');
+    await manager.start();
+
+    const message = 'Server "filesystem" needs unset environment variables: MCP_FIXTURE_TOKEN';
+    expect(await failed).toEqual(['filesystem', message]);
+    expect(manager.getStatus().servers[0]).toMatchObject({
+      state: 'failed',
+      restarts: 0,
+      lastError: message,
+      missingEnv: ['MCP_FIXTURE_TOKEN']
+    });
+  });
+});
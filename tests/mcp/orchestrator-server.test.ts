@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { OrchestratorMCPServer } from '../../src/mcp/orchestrator-server.js';
+import type { Orchestrator } from '../../src/orchestrator/index.js';
+import { createOrchestrator, useScratchDirectory } from '../orchestrator/helpers.js';
+
+/**
+ * One end of an in-process transport pair; messages sent on one end arrive
+ * at the other
+ */
+class LinkedTransport implements Transport {
+  peer?: LinkedTransport;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  static pair(): [LinkedTransport, LinkedTransport] {
+    const first = new LinkedTransport();
+    const second = new LinkedTransport();
+    first.peer = second;
+    second.peer = first;
+    return [first, second];
+  }
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const peer = this.peer;
+    setImmediate(() => peer?.onmessage?.(message));
+  }
+
+  async close(): Promise<void> {
+    const peer = this.peer;
+    this.peer = undefined;
+    if (peer) {
+      peer.peer = undefined;
+      peer.onclose?.();
+    }
+    this.onclose?.();
+  }
+}
+
+function textOf(result: any): string {
+  return result.content[0].text;
+}
+
+const PIPELINE = `
+stages:
+  - name: answer
+    prompt: "envelope {{task}}"
+`;
+
+describe('OrchestratorMCPServer', () => {
+  let leaveScratchDirectory: () => void;
+  let orchestrator: Orchestrator;
+  let server: OrchestratorMCPServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    leaveScratchDirectory = useScratchDirectory('orchestrator-server-');
+    orchestrator = createOrchestrator();
+    await orchestrator.start();
+
+    const [serverTransport, clientTransport] = LinkedTransport.pair();
+    server = new OrchestratorMCPServer(orchestrator);
+    await server.start(serverTransport);
+    const { Client: McpClient } = await import('@modelcontextprotocol/sdk/client/index.js');
+    client = new McpClient({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await orchestrator.stop();
+    leaveScratchDirectory();
+  });
+
+  it('should list its tools', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(['submit_task', 'get_task_status', 'list_agents', 'search_memory', 'quick_capture']);
+    expect(tools[0].inputSchema).toMatchObject({ required: ['description'] });
+  });
+
+  it('should submit a task and return its id without waiting', async () => {
+    const result = await client.callTool({ name: 'submit_task', arguments: { description: 'hello', pipeline: PIPELINE } });
+
+    expect(result.isError).toBeFalsy();
+    const { taskId, state } = JSON.parse(textOf(result));
+    expect(state).toBe('queued');
+    expect((await orchestrator.waitFor(taskId, 10000)).state).toBe('succeeded');
+
+    const status = JSON.parse(textOf(await client.callTool({ name: 'get_task_status', arguments: { taskId } })));
+    expect(status).toMatchObject({ id: taskId, state: 'succeeded', task: { pattern: 'pipeline', metadata: { submittedBy: 'mcp' } } });
+  });
+
+  it('should return the finished record when asked to wait', async () => {
+    const result = await client.callTool({
+      name: 'submit_task',
+      arguments: { description: 'waited', pipeline: PIPELINE, wait: true, timeout: 10000 }
+    });
+
+    const record = JSON.parse(textOf(result));
+    expect(record.state).toBe('succeeded');
+    expect(record.result.result.finalOutput).toBe('waited');
+  });
+
+  it('should report invalid arguments as tool errors', async () => {
+    const missing = await client.callTool({ name: 'submit_task', arguments: { description: ' ' } });
+    expect(missing).toMatchObject({ isError: true, content: [{ type: 'text', text: '"description" must be a non-empty string' }] });
+
+    const pattern = await client.callTool({ name: 'submit_task', arguments: { description: 'x', pattern: 'gossip' } });
+    expect(pattern).toMatchObject({ isError: true, content: [{ text: 'Unknown execution pattern: gossip' }] });
+
+    const unknown = await client.callTool({ name: 'get_task_status', arguments: { taskId: 'nope' } });
+    expect(unknown).toMatchObject({ isError: true, content: [{ text: 'Task not found: nope' }] });
+
+    expect(await client.callTool({ name: 'drop_tables', arguments: {} })).toMatchObject({ isError: true });
+    expect(orchestrator.getStatus().taskQueue.queueSize).toBe(0);
+  });
+});
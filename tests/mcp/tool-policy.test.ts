@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { ToolPolicy, matchesToolPattern } from '../../src/mcp/tool-policy.js';
+
+describe('ToolPolicy', () => {
+  it('should match tool patterns with wildcards', () => {
+    expect(matchesToolPattern('filesystem:read_*', 'filesystem:read_file')).toBe(true);
+    expect(matchesToolPattern('filesystem:read_*', 'filesystem:write_file')).toBe(false);
+    expect(matchesToolPattern('github:*', 'github:get.issue')).toBe(true);
+  });
+
+  it('should let a role deny what its capabilities allow', () => {
+    const policy = new ToolPolicy();
+    const validator = { role: 'validator', capabilities: ['file-operations'] };
+
+    expect(policy.check(validator, 'filesystem', 'read_file').allowed).toBe(true);
+    expect(policy.check(validator, 'filesystem', 'write_file')).toMatchObject({
+      allowed: false,
+      reason: 'filesystem:write_file is denied for role "validator"'
+    });
+  });
+
+  it('should refuse tools none of the agent\'s rules allow', () => {
+    const policy = new ToolPolicy();
+
+    expect(policy.check({ capabilities: ['code-analysis'] }, 'github', 'create_issue').allowed).toBe(false);
+  });
+
+  it('should apply the default action to agents no rule covers', () => {
+    expect(new ToolPolicy().check({ role: 'writer' }, 'filesystem', 'write_file').allowed).toBe(true);
+    expect(new ToolPolicy({ defaultAction: 'deny' }).check({}, 'filesystem', 'read_file').allowed).toBe(false);
+  });
+
+  it('should split the CLI\'s built-in tools by what the agent may use', () => {
+    const policy = new ToolPolicy({ roles: { reviewer: { allow: ['claude:Read', 'claude:Grep'] } } });
+
+    const { allowed, disallowed } = policy.cliTools({ role: 'reviewer' });
+
+    expect(allowed).toEqual(['Grep', 'Read']);
+    expect(disallowed).toEqual(expect.arrayContaining(['Bash', 'Write', 'WebFetch']));
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { readEventStream, type ServerSentEvent } from '../../src/mcp/http-transport.js';
+import { Dashboard, type DashboardSource } from '../../src/monitoring/dashboard.js';
+import { MetricsCollector } from '../../src/monitoring/metrics.js';
+import { createTaskEvent } from '../../src/orchestrator/task-events.js';
+import type { TaskEvent } from '../../src/types/index.js';
+import { monitoringConfig } from './helpers.js';
+
+/**
+ * Orchestrator stand-in: a fixed status, and per-task event lists that
+ * subscribe() replays
+ */
+class FakeSource extends EventEmitter implements DashboardSource {
+  taskEvents: Record<string, TaskEvent[]> = {};
+
+  getStatus() {
+    return { isRunning: true, runningTasks: [] };
+  }
+
+  async *subscribe(taskId: string): AsyncIterableIterator<TaskEvent> {
+    yield* this.taskEvents[taskId] || [];
+  }
+}
+
+/**
+ * Read server-sent events from `url` until `count` have arrived, calling
+ * `onOpen` once the stream is connected
+ */
+async function readEvents(url: string, count: number, onOpen: () => void = () => {}): Promise<ServerSentEvent[]> {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
+  expect(response.headers.get('content-type')).toBe('text/event-stream');
+  const events: ServerSentEvent[] = [];
+  onOpen();
+  await readEventStream(response.body!, (event) => {
+    events.push(event);
+    if (events.length === count) {
+      controller.abort();
+    }
+  }).catch((error) => {
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+  });
+  return events;
+}
+
+describe('Dashboard', () => {
+  let source: FakeSource;
+  let metrics: MetricsCollector;
+  let dashboard: Dashboard;
+  let base: string;
+
+  beforeEach(async () => {
+    const config = await monitoringConfig();
+    base = `http://127.0.0.1:${config.port}`;
+    source = new FakeSource();
+    metrics = new MetricsCollector(config);
+    dashboard = new Dashboard(source, 250);
+    dashboard.attach(metrics);
+    await metrics.start();
+    dashboard.start();
+  });
+
+  afterEach(async () => {
+    dashboard.stop();
+    await metrics.stop();
+  });
+
+  it('should serve the page and the status next to the metrics', async () => {
+    const page = await fetch(`${base}/`);
+    expect(page.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(await page.text()).toContain('<html');
+
+    const status = await (await fetch(`${base}/api/status`)).json();
+    expect(status).toMatchObject({ isRunning: true, recentErrors: [] });
+  });
+
+  it('should push the status on connect and failures as they happen', async () => {
+    // The client is registered by the time the response headers arrive
+    const events = await readEvents(`${base}/events`, 3, () => source.emit('taskFailed', 'task-1', new Error('agent crashed')));
+
+    const byType = (type: string) => events.filter(event => event.event === type).map(event => JSON.parse(event.data));
+    expect(events[0].event).toBe('status');
+    expect(byType('failure')).toEqual([
+      { timestamp: expect.any(Number), source: 'task', subject: 'task-1', message: 'agent crashed' }
+    ]);
+    // Status pushes continue on the interval and include the failure
+    expect(byType('status')[1].recentErrors).toHaveLength(1);
+  });
+
+  it('should stream the events of one task and end with it', async () => {
+    source.taskEvents['task-2'] = [
+      createTaskEvent('task-2', { type: 'task.started', attempt: 1 }),
+      createTaskEvent('task-2', { type: 'task.finished', state: 'succeeded', executionTime: 5 })
+    ];
+
+    const response = await fetch(`${base}/api/task-events?taskId=task-2`);
+    const events: ServerSentEvent[] = [];
+    await readEventStream(response.body!, event => events.push(event));
+
+    expect(events.map(event => [event.event, JSON.parse(event.data).type])).toEqual([
+      ['task', 'task.started'],
+      ['task', 'task.finished']
+    ]);
+    expect((await fetch(`${base}/api/task-events`)).status).toBe(400);
+  });
+});
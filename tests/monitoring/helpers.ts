@@ -0,0 +1,19 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { MonitoringConfig } from '../../src/types/index.js';
+
+/**
+ * A port nothing listens on right now. MetricsCollector does not report the
+ * port it got, so tests pick one up front instead of passing 0.
+ */
+export async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+export async function monitoringConfig(overrides: Partial<MonitoringConfig> = {}): Promise<MonitoringConfig> {
+  return { port: await freePort(), metricsInterval: 60000, enableTracing: false, ...overrides };
+}
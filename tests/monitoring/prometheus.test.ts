@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { MetricsCollector } from '../../src/monitoring/metrics.js';
+import { MetricRegistry } from '../../src/monitoring/prometheus.js';
+import { monitoringConfig } from './helpers.js';
+
+describe('MetricRegistry', () => {
+  it('should render counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricRegistry();
+    const calls = registry.counter('calls_total', 'Calls made');
+    const depth = registry.gauge('depth', 'Queue depth');
+    const latency = registry.histogram('latency_seconds', 'Call latency', [1, 0.1]);
+
+    calls.inc({ tool: 'read', outcome: 'ok' });
+    calls.inc({ outcome: 'ok', tool: 'read' }, 2);
+    calls.inc({ tool: 'say "hi"\\\n' });
+    depth.set(Infinity);
+    latency.observe(0.05, { server: 'fs' });
+    latency.observe(0.5, { server: 'fs' });
+    latency.observe(3, { server: 'fs' });
+
+    expect(registry.render()).toBe([
+      '# HELP calls_total Calls made',
+      '# TYPE calls_total counter',
+      'calls_total{tool="read",outcome="ok"} 3',
+      'calls_total{tool="say \\"hi\\"\\\\\\n"} 1',
+      '# HELP depth Queue depth',
+      '# TYPE depth gauge',
+      'depth +Inf',
+      '# HELP latency_seconds Call latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{server="fs",le="0.1"} 1',
+      'latency_seconds_bucket{server="fs",le="1"} 2',
+      'latency_seconds_bucket{server="fs",le="+Inf"} 3',
+      'latency_seconds_sum{server="fs"} 3.55',
+      'latency_seconds_count{server="fs"} 3',
+      ''
+    ].join('\n'));
+    expect(calls.total({ outcome: 'ok' })).toBe(3);
+    expect(latency.totals({ server: 'fs' })).toEqual({ sum: 3.55, count: 3 });
+  });
+});
+
+describe('MetricsCollector', () => {
+  let collector: MetricsCollector | undefined;
+
+  afterEach(async () => {
+    await collector?.stop();
+  });
+
+  it('should serve the recorded metrics at /metrics and nothing else', async () => {
+    const config = await monitoringConfig();
+    collector = new MetricsCollector(config);
+    collector.setSources({ queueSize: () => 4 });
+    await collector.start();
+    collector.recordTaskExecution('swarm', 2000, true);
+    collector.recordToolCall('filesystem', 'read_file', 'denied', 5);
+
+    const response = await fetch(`http://127.0.0.1:${config.port}/metrics`);
+    const body = await response.text();
+
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(body).toContain('orchestrator_tasks_total{pattern="swarm",outcome="succeeded"} 1\n');
+    expect(body).toContain('orchestrator_task_duration_seconds_bucket{pattern="swarm",le="5"} 1\n');
+    expect(body).toContain('orchestrator_queue_depth 4\n');
+    expect(body).toContain('orchestrator_mcp_tool_calls_total{server="filesystem",tool="read_file",outcome="denied"} 1\n');
+    // Denied calls never reached the server, so they have no latency
+    expect(body).not.toContain('orchestrator_mcp_tool_call_duration_seconds_count');
+    expect(collector.getSnapshot()).toMatchObject({ totalTasks: 1, successfulTasks: 1, averageExecutionTime: 2000, queueSize: 4 });
+
+    expect((await fetch(`http://127.0.0.1:${config.port}/other`)).status).toBe(404);
+  });
+});
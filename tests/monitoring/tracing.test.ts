@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Tracer, tracer, traceContextOf, withTraceContext } from '../../src/monitoring/tracing.js';
+import { PipelinePattern } from '../../src/patterns/pipeline.js';
+import type { Task } from '../../src/types/index.js';
+import { ScriptedPool } from '../patterns/helpers.js';
+
+/**
+ * The spans of every batch the file exporter wrote, in OTLP JSON
+ */
+function exportedSpans(file: string): any[] {
+  return readFileSync(file, 'utf8')
+    .trim()
+    .split('\n')
+    .flatMap(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans);
+}
+
+describe('Tracer', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'tracing-'));
+    file = join(directory, 'traces', 'spans.jsonl');
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should nest child spans under their parent and export them as OTLP JSON', async () => {
+    const local = new Tracer();
+    local.configure({ port: 0, metricsInterval: 1000, enableTracing: true, tracing: { file, serviceName: 'tests', exportInterval: 60000 } });
+
+    const root = local.startSpan('orchestrator.execute', { attributes: { 'task.id': 't1', ignored: undefined } });
+    const task: Task = withTraceContext({ id: 't1', description: 'x', pattern: 'swarm' }, root);
+    await local.trace('agent.execute', { parent: traceContextOf(task), kind: 'client', attributes: { retries: 2, ratio: 0.5 } }, async () => 'done');
+    await expect(local.trace('mcp.tool', { parent: root.context }, async () => {
+      throw new Error('tool failed');
+    })).rejects.toThrow('tool failed');
+    root.end();
+    root.end();
+    await local.shutdown();
+
+    const payload = JSON.parse(readFileSync(file, 'utf8'));
+    expect(payload.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'tests' } }]);
+    const [agent, tool, rootSpan] = exportedSpans(file);
+    expect(rootSpan).toMatchObject({ name: 'orchestrator.execute', kind: 1, status: { code: 1 } });
+    expect(rootSpan.parentSpanId).toBeUndefined();
+    expect(rootSpan.attributes).toEqual([{ key: 'task.id', value: { stringValue: 't1' } }]);
+
+    for (const child of [agent, tool]) {
+      expect(child.traceId).toBe(rootSpan.traceId);
+      expect(child.parentSpanId).toBe(rootSpan.spanId);
+      expect(child.spanId).not.toBe(rootSpan.spanId);
+    }
+    expect(agent).toMatchObject({
+      kind: 3,
+      attributes: [{ key: 'retries', value: { intValue: 2 } }, { key: 'ratio', value: { doubleValue: 0.5 } }]
+    });
+    expect(tool.status).toEqual({ code: 2, message: 'tool failed' });
+    expect(BigInt(rootSpan.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(rootSpan.startTimeUnixNano));
+  });
+
+  it('should record nothing until tracing is enabled', async () => {
+    const local = new Tracer();
+    local.configure({ port: 0, metricsInterval: 1000, enableTracing: false, tracing: { file } });
+
+    local.startSpan('ignored').end();
+    await local.flush();
+
+    expect(local.isEnabled()).toBe(false);
+    expect(() => readFileSync(file)).toThrow();
+  });
+
+  it('should carry the task span into pipeline stages and their agents', async () => {
+    tracer.configure({ port: 0, metricsInterval: 1000, enableTracing: true, tracing: { file, exportInterval: 60000 } });
+    const pool = new ScriptedPool(1, () => ({ result: 'ok' }));
+    const root = tracer.startSpan('orchestrator.execute');
+    const task: Task = withTraceContext({
+      id: 'traced',
+      description: 'Trace me',
+      pattern: 'pipeline',
+      context: { pipeline: { stages: [{ name: 'first', prompt: 'one' }, { name: 'second', prompt: 'two' }] } }
+    }, root);
+
+    const result = await new PipelinePattern(pool, { maxStages: 5, stageTimeout: 1000, allowParallelStages: true }).execute(task);
+    root.end();
+    await tracer.flush();
+
+    expect(result.success).toBe(true);
+    const stages = exportedSpans(file).filter(span => span.name === 'pipeline.stage');
+    expect(stages).toHaveLength(2);
+    for (const stage of stages) {
+      expect(stage.traceId).toBe(root.context.traceId);
+      expect(stage.parentSpanId).toBe(root.context.spanId);
+    }
+    // Agents get the context of their stage's span, not of the task
+    expect(pool.scripted[0].tasks.map(sent => traceContextOf(sent)?.spanId).sort()).toEqual(stages.map(stage => stage.spanId).sort());
+  });
+});
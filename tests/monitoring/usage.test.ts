@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { Orchestrator } from '../../src/orchestrator/index.js';
+import { UsageMeter, estimateCost, priceFor } from '../../src/monitoring/usage.js';
+import { createOrchestrator, useScratchDirectory } from '../orchestrator/helpers.js';
+
+describe('UsageMeter', () => {
+  it('should total usage per agent and report an exceeded token budget once', () => {
+    const reasons: string[] = [];
+    const meter = new UsageMeter({ maxTokens: 100 }, reason => reasons.push(reason));
+
+    meter.record('agent-1', { inputTokens: 40, outputTokens: 20, costUsd: 0.01 });
+    expect(meter.exceededBy()).toBeUndefined();
+    meter.record('agent-2', { inputTokens: 30, outputTokens: 20, costUsd: 0.02, estimated: true });
+    meter.record('agent-1', { inputTokens: 10, outputTokens: 0, costUsd: 0 });
+
+    expect(reasons).toEqual(['used 110 tokens of a 100 token budget']);
+    expect(meter.exceededBy()).toBe('used 110 tokens of a 100 token budget');
+    expect(meter.total()).toEqual({ inputTokens: 80, outputTokens: 40, costUsd: 0.03, estimated: true });
+    expect(meter.byAgent()['agent-1']).toEqual({ inputTokens: 50, outputTokens: 20, costUsd: 0.01 });
+  });
+
+  it('should report an exceeded cost budget', () => {
+    const meter = new UsageMeter({ maxCostUsd: 0.05 });
+
+    meter.record('agent-1', { inputTokens: 1, outputTokens: 1, costUsd: 0.06 });
+
+    expect(meter.exceededBy()).toBe('spent $0.0600 of a $0.05 budget');
+  });
+
+  it('should price models by the longest matching name', () => {
+    expect(priceFor('claude-3-5-haiku-20241022')).toEqual({ input: 0.8, output: 4 });
+    expect(priceFor('claude-3-haiku-20240307')).toEqual({ input: 0.25, output: 1.25 });
+    expect(priceFor('custom-model', { custom: { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+    expect(priceFor('unknown')).toBeUndefined();
+    expect(estimateCost('sonnet', 1000000, 100000)).toBeCloseTo(4.5);
+  });
+});
+
+describe('task budgets', () => {
+  let orchestrator: Orchestrator;
+  let leaveScratchDirectory: () => void;
+
+  beforeEach(async () => {
+    leaveScratchDirectory = useScratchDirectory('usage-');
+    orchestrator = createOrchestrator();
+    await orchestrator.start();
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+    leaveScratchDirectory();
+  });
+
+  it('should abort a task once its agents use up its budget', async () => {
+    const startedAt = Date.now();
+    // The fake CLI reports 15 tokens per envelope; the sleeping stage runs alongside
+    await orchestrator.submit({
+      id: 'budgeted',
+      description: 'budgeted',
+      pattern: 'pipeline',
+      context: {
+        pipeline: {
+          stages: [
+            { name: 'quick', prompt: 'envelope done', dependsOn: [] },
+            { name: 'slow', prompt: 'sleep 10000', dependsOn: [] }
+          ]
+        }
+      },
+      metadata: { budget: { maxTokens: 10 } }
+    });
+
+    const record = await orchestrator.waitFor('budgeted', 8000);
+
+    expect(record.state).toBe('failed');
+    expect(record.result).toMatchObject({
+      success: false,
+      error: 'Budget exceeded: used 15 tokens of a 10 token budget',
+      metadata: { budgetExceeded: true, tokenUsage: { inputTokens: 10, outputTokens: 5 } }
+    });
+    // The sleeping agent was stopped rather than waited for
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+});
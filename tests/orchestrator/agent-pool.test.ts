@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AgentPool } from '../../src/orchestrator/agent-pool.js';
+import type { AgentConfig } from '../../src/types/index.js';
+
+function createPool(overrides: Partial<AgentConfig> = {}): AgentPool {
+  return new AgentPool({
+    maxAgents: 2,
+    defaultModel: 'sonnet',
+    maxTokens: 1000,
+    temperature: 0.5,
+    spawnTimeout: 1000,
+    ...overrides
+  });
+}
+
+describe('AgentPool', () => {
+  let pool: AgentPool;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    pool = createPool();
+    await pool.initialize({}, { healthCheckInterval: 60000 });
+  });
+
+  afterEach(async () => {
+    await pool.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should pre-warm maxAgents agents', () => {
+    expect(pool.getStatus()).toHaveLength(2);
+  });
+
+  it('should lease each agent to one caller at a time', async () => {
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+
+    expect(first.id).not.toBe(second.id);
+    await expect(pool.acquire([], 50)).rejects.toThrow('Timed out after 50ms');
+  });
+
+  it('should hand a released agent to the longest waiting caller', async () => {
+    const first = await pool.acquire();
+    await pool.acquire();
+
+    const served: string[] = [];
+    const waiters = ['a', 'b'].map(name => pool.acquire().then((agent) => {
+      served.push(name);
+      return agent;
+    }));
+
+    await pool.release(first);
+    const agent = await waiters[0];
+
+    expect(agent.id).toBe(first.id);
+    expect(served).toEqual(['a']);
+
+    await pool.release(agent);
+    await waiters[1];
+    expect(served).toEqual(['a', 'b']);
+  });
+
+  it('should not let a new caller take a released agent ahead of queued waiters', async () => {
+    const first = await pool.acquire();
+    await pool.acquire();
+
+    const served: string[] = [];
+    const waitFor = (name: string) => pool.acquire().then((agent) => {
+      served.push(name);
+      return agent;
+    });
+    const waiters = [waitFor('a'), waitFor('b')];
+    await new Promise(resolve => setImmediate(resolve));
+
+    // The third caller arrives while the released agent is still unassigned
+    const releasing = pool.release(first);
+    const latecomer = waitFor('c');
+    await releasing;
+
+    await pool.release(await waiters[0]);
+    await pool.release(await waiters[1]);
+    await latecomer;
+
+    expect(served).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not lease two agents for one waiter when releases overlap', async () => {
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    const waiter = pool.acquire();
+    await new Promise(resolve => setImmediate(resolve));
+
+    await Promise.all([pool.release(first), pool.release(second)]);
+    await waiter;
+
+    // The other agent must be free again
+    await expect(pool.acquire([], 100)).resolves.toBeDefined();
+  });
+
+  it('should give an agent leased for a waiter that timed out to the next waiter', async () => {
+    const first = await pool.acquire();
+    await pool.acquire();
+    const expired = pool.acquire([], 20);
+    const waiting = pool.acquire([], 1000);
+
+    await expect(expired).rejects.toThrow('Timed out');
+    await pool.release(first);
+
+    await expect(waiting).resolves.toBe(first);
+  });
+
+  it('should replace an idle agent that lacks the requested capabilities', async () => {
+    const agent = await pool.acquire(['translation']);
+
+    expect(agent.config.capabilities).toContain('translation');
+    expect(pool.getStatus()).toHaveLength(2);
+  });
+
+  it('should replace an agent released in the error state', async () => {
+    const errors: string[] = [];
+    pool.on('agentError', (agentId: string) => errors.push(agentId));
+    const agent = await pool.acquire();
+    agent.status = 'error';
+
+    await pool.release(agent);
+
+    expect(errors).toEqual([agent.id]);
+    expect(pool.getStatus().map(status => status.id)).not.toContain(agent.id);
+    expect(pool.getStatus()).toHaveLength(2);
+  });
+
+  it('should reject waiting callers on shutdown', async () => {
+    await pool.acquire();
+    await pool.acquire();
+    const waiter = pool.acquire();
+
+    await pool.shutdown();
+
+    await expect(waiter).rejects.toThrow('Agent pool is shutting down');
+    await expect(pool.acquire()).rejects.toThrow('Agent pool is not running');
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheckpointStore, type PipelineCheckpoint } from '../../src/orchestrator/checkpoint-store.js';
+import type { Task } from '../../src/types/index.js';
+
+function checkpoint(task: Task): PipelineCheckpoint {
+  return { taskId: task.id, task, fingerprint: 'abc', stages: {}, createdAt: 1, updatedAt: 1 };
+}
+
+describe('CheckpointStore', () => {
+  let directory: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'checkpoints-'));
+    store = new CheckpointStore(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip a checkpoint and remove it', async () => {
+    const task: Task = { id: 'task/1', description: 'build', pattern: 'pipeline', context: { pipeline: { stages: [] } } };
+    await store.save(checkpoint(task));
+
+    expect(await store.load('task/1')).toMatchObject({ taskId: 'task/1', task, fingerprint: 'abc' });
+    expect(readdirSync(join(directory, 'checkpoints'))).toEqual(['task%2F1.json']);
+
+    await store.remove('task/1');
+    expect(await store.load('task/1')).toBeUndefined();
+  });
+
+  it('should save the task as submitted, without what the run added', async () => {
+    const memories = { totalContext: 'remembered' };
+    const controller = new AbortController();
+    await store.save(checkpoint({
+      id: 'enriched',
+      description: 'build',
+      pattern: 'pipeline',
+      context: memories,
+      signal: controller.signal,
+      metadata: { budget: { maxCostUsd: 1 }, memoryContext: memories, traceContext: { traceId: 't', spanId: 's' } }
+    }));
+
+    expect((await store.load('enriched'))?.task).toEqual({
+      id: 'enriched',
+      description: 'build',
+      pattern: 'pipeline',
+      metadata: { budget: { maxCostUsd: 1 } }
+    });
+  });
+
+  it('should keep context the caller supplied next to the memories', async () => {
+    await store.save(checkpoint({
+      id: 'own-context',
+      description: 'build',
+      pattern: 'pipeline',
+      context: { pipeline: 'pipeline.yaml' },
+      metadata: { memoryContext: { totalContext: 'remembered' } }
+    }));
+
+    expect((await store.load('own-context'))?.task).toMatchObject({ context: { pipeline: 'pipeline.yaml' }, metadata: {} });
+  });
+});
@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { Orchestrator } from '../../src/orchestrator/index.js';
+import type { OrchestratorConfig, Task, TaskRecord } from '../../src/types/index.js';
+
+const FAKE_CLI = resolve(__dirname, '../fixtures/fake-claude.js');
+
+/**
+ * Orchestrator whose agents run the fake CLI. It should be started in a
+ * scratch directory (see useScratchDirectory), since the configuration,
+ * memory and checkpoints live under the working directory.
+ */
+export function createOrchestrator(overrides: Partial<OrchestratorConfig> = {}): Orchestrator {
+  return new Orchestrator({
+    agents: {
+      maxAgents: 2,
+      defaultModel: 'sonnet',
+      maxTokens: 1000,
+      temperature: 0.5,
+      spawnTimeout: 5000,
+      command: { command: process.execPath, args: [FAKE_CLI, '-p', '{{prompt}}'], killGracePeriod: 500 }
+    },
+    taskQueue: { maxConcurrency: 2, retryDelay: 10, pollInterval: 20 },
+    mcp: { servers: [] },
+    memory: {},
+    monitoring: { port: 0, metricsInterval: 60000, enableTracing: false },
+    ...overrides
+  });
+}
+
+/**
+ * Run in a fresh temporary directory; returns the function that goes back
+ * and removes it
+ */
+export function useScratchDirectory(prefix: string): () => void {
+  const previous = process.cwd();
+  const directory = mkdtempSync(join(tmpdir(), prefix));
+  process.chdir(directory);
+
+  return () => {
+    process.chdir(previous);
+    rmSync(directory, { recursive: true, force: true });
+  };
+}
+
+/**
+ * Pipeline task whose stages run the given fake CLI prompts one after another
+ */
+export function pipelineTask(id: string, prompts: string[], overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    description: id,
+    pattern: 'pipeline',
+    context: { pipeline: { stages: prompts.map((prompt, index) => ({ name: `stage${index + 1}`, prompt })) } },
+    ...overrides
+  };
+}
+
+export async function waitForState(orchestrator: Orchestrator, taskId: string, state: TaskRecord['state']): Promise<TaskRecord> {
+  for (;;) {
+    const record = await orchestrator.getTask(taskId);
+    if (record?.state === state) {
+      return record;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
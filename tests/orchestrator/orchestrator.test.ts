@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { Orchestrator } from '../../src/orchestrator/index.js';
+import type { TaskEvent } from '../../src/types/index.js';
+import { createOrchestrator, pipelineTask, useScratchDirectory, waitForState } from './helpers.js';
+
+describe('Orchestrator task submission', () => {
+  let orchestrator: Orchestrator;
+  let leaveScratchDirectory: () => void;
+
+  beforeEach(async () => {
+    leaveScratchDirectory = useScratchDirectory('orchestrator-');
+    orchestrator = createOrchestrator();
+    await orchestrator.start();
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+    leaveScratchDirectory();
+  });
+
+  it('should run a submitted task and resolve waitFor with its record', async () => {
+    const taskId = await orchestrator.submit(pipelineTask('submitted', ['envelope done']));
+    const record = await orchestrator.waitFor(taskId, 10000);
+
+    expect(taskId).toBe('submitted');
+    expect(record).toMatchObject({ id: 'submitted', state: 'succeeded', attempts: 1 });
+    expect(record.result?.result.finalOutput).toBe('done');
+  });
+
+  it('should stream a task\'s events in order, and only the outcome once it has finished', async () => {
+    const stream = orchestrator.subscribe('watched');
+    await orchestrator.submit(pipelineTask('watched', ['envelope one', 'envelope two']));
+
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type === 'stage.completed' ? `${event.type}:${event.stage}` : event.type);
+    }
+
+    expect(types[0]).toBe('task.queued');
+    expect(types[1]).toBe('task.started');
+    expect(types.filter(type => type.startsWith('stage.completed'))).toEqual(['stage.completed:stage1', 'stage.completed:stage2']);
+    expect(types[types.length - 1]).toBe('task.finished');
+
+    const replay: TaskEvent[] = [];
+    for await (const event of orchestrator.subscribe('watched')) {
+      replay.push(event);
+    }
+    expect(replay).toEqual([expect.objectContaining({ type: 'task.finished', state: 'succeeded', taskId: 'watched' })]);
+  });
+
+  it('should abort the agents of a running task when it is cancelled', async () => {
+    const startedAt = Date.now();
+    await orchestrator.submit(pipelineTask('long', ['sleep 10000']));
+    await waitForState(orchestrator, 'long', 'running');
+    // Give the stage time to lease an agent and spawn the CLI
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(await orchestrator.cancel('long')).toBe(true);
+    const record = await orchestrator.waitFor('long', 5000);
+
+    expect(record.state).toBe('cancelled');
+    // The CLI would sleep for 10s unless the task's signal killed it
+    while (orchestrator.getStatus().runningTasks.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(orchestrator.getStatus().agents.every(agent => agent.status === 'idle')).toBe(true);
+  });
+
+  it('should reject waitFor when the task does not finish in time', async () => {
+    await orchestrator.submit(pipelineTask('slow', ['sleep 10000']));
+
+    await expect(orchestrator.waitFor('slow', 50)).rejects.toThrow('Timed out waiting for task slow');
+    expect((await orchestrator.getTask('slow'))?.state).not.toBe('succeeded');
+    await orchestrator.cancel('slow');
+  });
+
+  it('should resume an interrupted pipeline from its checkpoint with the task as submitted', async () => {
+    await orchestrator.submit(pipelineTask('resumable', ['envelope one', 'sleep 1000', 'envelope three']));
+    for await (const event of orchestrator.subscribe('resumable')) {
+      if (event.type === 'stage.completed' && event.stage === 'stage1') {
+        break;
+      }
+    }
+    // Let the checkpoint of stage1 be written while stage2 sleeps
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await orchestrator.cancel('resumable');
+    expect((await orchestrator.waitFor('resumable', 5000)).state).toBe('cancelled');
+    while (orchestrator.getStatus().runningTasks.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(await orchestrator.resume('resumable')).toBe('resumable');
+    const record = await orchestrator.waitFor('resumable', 10000);
+
+    expect(record.state).toBe('succeeded');
+    expect(record.result?.metadata?.resumedStages).toEqual(['stage1']);
+    expect(record.result?.result.finalOutput).toBe('three');
+    // The memories and trace of the first run are not carried into the second
+    expect(record.task.context).toEqual({ pipeline: expect.any(Object) });
+    expect(record.task.metadata?.memoryContext).toBeUndefined();
+    expect(record.task.metadata?.traceContext).toBeUndefined();
+    await expect(orchestrator.resume('resumable')).rejects.toThrow('No checkpoint found for task resumable');
+  });
+
+  it('should not resume a task that is still running', async () => {
+    await orchestrator.submit(pipelineTask('busy', ['envelope one', 'sleep 10000']));
+    for await (const event of orchestrator.subscribe('busy')) {
+      if (event.type === 'stage.completed') {
+        break;
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    await expect(orchestrator.resume('busy')).rejects.toThrow('Task busy is still running');
+    await orchestrator.cancel('busy');
+  });
+
+  it('should reject waitFor for an unknown task', async () => {
+    await expect(orchestrator.waitFor('missing')).rejects.toThrow('Unknown task: missing');
+  });
+});
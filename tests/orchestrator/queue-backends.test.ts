@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  InMemoryQueueBackend,
+  RedisQueueBackend,
+  resolvePriority,
+  type QueueBackend,
+  type QueuedTask
+} from '../../src/orchestrator/queue-backends.js';
+import type { Task, TaskRecord } from '../../src/types/index.js';
+
+jest.mock('ioredis', () => {
+  const RedisMock = jest.requireActual<any>('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+let prefixCounter = 0;
+
+function entry(id: string, priority?: Task['priority'], enqueuedAt = Date.now()): QueuedTask {
+  return { task: { id, description: id, pattern: 'swarm', priority }, attempts: 0, enqueuedAt };
+}
+
+function record(id: string, state: TaskRecord['state'] = 'queued'): TaskRecord {
+  return { id, task: entry(id).task, state, attempts: 0, submittedAt: Date.now() };
+}
+
+async function popAll(backend: QueueBackend): Promise<string[]> {
+  const ids: string[] = [];
+  for (let next = await backend.pop(); next; next = await backend.pop()) {
+    ids.push(next.task.id);
+  }
+  return ids;
+}
+
+describe('resolvePriority', () => {
+  it('should map named priorities to numbers', () => {
+    expect(resolvePriority('critical')).toBeGreaterThan(resolvePriority('high'));
+    expect(resolvePriority(undefined)).toBe(resolvePriority('normal'));
+    expect(resolvePriority(3)).toBe(3);
+  });
+});
+
+describe.each([
+  ['InMemoryQueueBackend', () => new InMemoryQueueBackend()],
+  ['RedisQueueBackend', () => new RedisQueueBackend('redis://localhost:6379', `test-${++prefixCounter}`)]
+])('%s', (_name, createBackend: () => QueueBackend) => {
+  let backend: QueueBackend;
+
+  beforeEach(async () => {
+    backend = createBackend();
+    await backend.connect();
+  });
+
+  afterEach(async () => {
+    await backend.disconnect();
+  });
+
+  it('should pop higher priorities first and equal priorities in FIFO order', async () => {
+    const now = Date.now();
+    await backend.push(entry('low', 'low', now));
+    await backend.push(entry('normal-1', 'normal', now + 1));
+    await backend.push(entry('critical', 'critical', now + 2));
+    await backend.push(entry('normal-2', 'normal', now + 3));
+
+    expect(await popAll(backend)).toEqual(['critical', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('should hold delayed entries until they are ready', async () => {
+    await backend.push(entry('later'), Date.now() + 50);
+
+    expect(await backend.size()).toBe(1);
+    expect(await backend.pop()).toBeUndefined();
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+    expect((await backend.pop())?.task.id).toBe('later');
+    expect(await backend.size()).toBe(0);
+  });
+
+  it('should remove queued and delayed entries by task id', async () => {
+    await backend.push(entry('ready'));
+    await backend.push(entry('delayed'), Date.now() + 60000);
+
+    expect(await backend.remove('ready')).toBe(true);
+    expect(await backend.remove('delayed')).toBe(true);
+    expect(await backend.remove('unknown')).toBe(false);
+    expect(await backend.size()).toBe(0);
+  });
+
+  it('should store and update task records', async () => {
+    await backend.saveRecord(record('task-1'));
+    await backend.saveRecord({ ...record('task-1'), state: 'running', attempts: 1 });
+
+    expect(await backend.getRecord('task-1')).toMatchObject({ id: 'task-1', state: 'running', attempts: 1 });
+    expect(await backend.getRecord('unknown')).toBeUndefined();
+  });
+
+  it('should expire records saved with a ttl', async () => {
+    await backend.saveRecord(record('finished', 'succeeded'), 30);
+    await backend.saveRecord(record('kept'));
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(await backend.getRecord('finished')).toBeUndefined();
+    expect(await backend.getRecord('kept')).toBeDefined();
+  });
+
+  it('should keep a record whose ttl was cleared by a later save', async () => {
+    await backend.saveRecord(record('resumed', 'failed'), 30);
+    await backend.saveRecord(record('resumed', 'queued'));
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(await backend.getRecord('resumed')).toMatchObject({ state: 'queued' });
+  });
+
+  it('should report a heartbeat until its ttl runs out', async () => {
+    expect(await backend.hasHeartbeat('task')).toBe(false);
+    await backend.saveHeartbeat('task', 30);
+    expect(await backend.hasHeartbeat('task')).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(await backend.hasHeartbeat('task')).toBe(false);
+  });
+});
+
+describe('RedisQueueBackend shared by several processes', () => {
+  it('should hand each entry to exactly one consumer', async () => {
+    const prefix = `shared-${++prefixCounter}`;
+    const first = new RedisQueueBackend('redis://localhost:6379', prefix);
+    const second = new RedisQueueBackend('redis://localhost:6379', prefix);
+    await Promise.all([first.connect(), second.connect()]);
+
+    try {
+      await first.push(entry('only'));
+      const popped = await Promise.all([first.pop(), second.pop()]);
+
+      expect(popped.filter(Boolean).map(item => item!.task.id)).toEqual(['only']);
+      expect(await second.size()).toBe(0);
+    } finally {
+      await Promise.all([first.disconnect(), second.disconnect()]);
+    }
+  });
+});
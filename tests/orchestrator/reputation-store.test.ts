@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ReputationStore, reputationScore } from '../../src/orchestrator/reputation-store.js';
+
+describe('ReputationStore', () => {
+  let directory: string;
+  let store: ReputationStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'reputation-'));
+    store = new ReputationStore(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip profiles and add each swarm to their record', async () => {
+    await store.record([
+      { profile: 'explorer', runs: 2, successes: 1, totalTime: 300, specialties: { research: 1 } },
+      { profile: 'idle', runs: 0, successes: 0, totalTime: 0 }
+    ]);
+    await store.record([{ profile: 'explorer', runs: 2, successes: 2, totalTime: 100, specialties: { research: 1, writing: -0.5 } }]);
+
+    // A fresh store reads what the first one wrote
+    const profiles = await new ReputationStore(directory).load();
+    expect(profiles).toEqual({
+      explorer: {
+        profile: 'explorer',
+        swarms: 2,
+        runs: 4,
+        successes: 3,
+        successRate: 0.75,
+        averageTime: 100,
+        specialties: { research: 2, writing: -0.5 },
+        updatedAt: expect.any(Number)
+      }
+    });
+    expect(readdirSync(directory)).toEqual(['reputation.json']);
+  });
+
+  it('should apply concurrent updates one at a time', async () => {
+    await Promise.all(Array.from({ length: 5 }, () => store.record([{ profile: 'executor', runs: 1, successes: 1, totalTime: 10 }])));
+
+    expect((await store.load()).executor).toMatchObject({ swarms: 5, runs: 5, successes: 5 });
+  });
+
+  it('should rank profiles by smoothed success rate, then by runs', async () => {
+    await store.record([
+      { profile: 'lucky', runs: 1, successes: 1, totalTime: 1 },
+      { profile: 'steady', runs: 20, successes: 18, totalTime: 1 },
+      { profile: 'weak', runs: 4, successes: 1, totalTime: 1 },
+      { profile: 'newcomer', runs: 2, successes: 1, totalTime: 1 },
+      { profile: 'veteran', runs: 10, successes: 5, totalTime: 1 }
+    ]);
+
+    const leaderboard = await store.leaderboard();
+
+    expect(leaderboard.map(profile => profile.profile)).toEqual(['steady', 'lucky', 'veteran', 'newcomer', 'weak']);
+    expect(leaderboard.map(profile => reputationScore(profile))).toEqual([19 / 22, 2 / 3, 0.5, 0.5, 1 / 3]);
+  });
+
+  it('should start empty without a store or with an unreadable one', async () => {
+    expect(await store.leaderboard()).toEqual([]);
+    expect(reputationScore(undefined)).toBe(0.5);
+
+    writeFileSync(join(directory, 'reputation.json'), '{ not json');
+    expect(await store.load()).toEqual({});
+  });
+});
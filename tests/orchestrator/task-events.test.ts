@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { createTaskEvent, streamTaskEvents, type TaskEventInit } from '../../src/orchestrator/task-events.js';
+import type { TaskEvent } from '../../src/types/index.js';
+
+function emit(source: EventEmitter, taskId: string, event: TaskEventInit): void {
+  source.emit('taskEvent', createTaskEvent(taskId, event));
+}
+
+async function collect(stream: AsyncIterableIterator<TaskEvent>): Promise<TaskEvent[]> {
+  const events: TaskEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('streamTaskEvents', () => {
+  it('should yield one task\'s events in order and end after task.finished', async () => {
+    const source = new EventEmitter();
+    const stream = streamTaskEvents(source, 'a');
+
+    // Emitted before anyone calls next(), and interleaved with another task
+    emit(source, 'a', { type: 'task.started', attempt: 1 });
+    emit(source, 'b', { type: 'task.started', attempt: 1 });
+    emit(source, 'a', { type: 'phase.entered', phase: 'map' });
+    emit(source, 'a', { type: 'task.finished', state: 'succeeded', executionTime: 3 });
+    emit(source, 'a', { type: 'task.started', attempt: 2 });
+
+    const events = await collect(stream);
+
+    expect(events.map(event => event.type)).toEqual(['task.started', 'phase.entered', 'task.finished']);
+    expect(events.every(event => event.taskId === 'a')).toBe(true);
+    expect(source.listenerCount('taskEvent')).toBe(0);
+  });
+
+  it('should yield only the final event of a task that already finished', async () => {
+    const source = new EventEmitter();
+    const finished = { ...createTaskEvent('done', { type: 'task.finished', state: 'failed', error: 'boom' }), timestamp: 1 };
+
+    const events = await collect(streamTaskEvents(source, 'done', { finishedEvent: async () => finished }));
+
+    expect(events).toEqual([finished]);
+    expect(source.listenerCount('taskEvent')).toBe(0);
+  });
+
+  it('should wait for live events when the task has not finished yet', async () => {
+    const source = new EventEmitter();
+    const stream = streamTaskEvents(source, 'live', { finishedEvent: async () => undefined });
+
+    const collected = collect(stream);
+    await new Promise(resolve => setImmediate(resolve));
+    emit(source, 'live', { type: 'task.finished', state: 'cancelled' });
+
+    expect((await collected).map(event => event.type)).toEqual(['task.finished']);
+  });
+
+  it('should end quietly when its signal aborts', async () => {
+    const source = new EventEmitter();
+    const controller = new AbortController();
+    const collected = collect(streamTaskEvents(source, 'watched', { signal: controller.signal }));
+
+    emit(source, 'watched', { type: 'task.started', attempt: 1 });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+
+    expect((await collected).map(event => event.type)).toEqual(['task.started']);
+    expect(source.listenerCount('taskEvent')).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { spawnSync } from 'child_process';
+import { hostname } from 'os';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { TaskQueue } from '../../src/orchestrator/task-queue.js';
+import type { Task, TaskRecord, TaskResult } from '../../src/types/index.js';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { id, description: id, pattern: 'swarm', ...overrides };
+}
+
+function succeeded(taskId: string): TaskResult {
+  return { taskId, success: true, result: taskId, executionTime: 1, agentsUsed: [] };
+}
+
+function once(queue: TaskQueue, event: string): Promise<any[]> {
+  return new Promise(resolve => queue.once(event, (...args: any[]) => resolve(args)));
+}
+
+describe('TaskQueue', () => {
+  let queue: TaskQueue;
+
+  beforeEach(async () => {
+    queue = new TaskQueue({ maxConcurrency: 1, retryDelay: 10, pollInterval: 20, recordTtl: 50, heartbeatTtl: 50 });
+    await queue.start();
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+  });
+
+  it('should run queued tasks by priority', async () => {
+    const order: string[] = [];
+    await queue.enqueue(task('low', { priority: 'low' }));
+    await queue.enqueue(task('critical', { priority: 'critical' }));
+
+    const done = new Promise<void>((resolve) => {
+      queue.on('taskCompleted', () => order.length === 2 && resolve());
+    });
+    queue.process(async (next) => {
+      order.push(next.id);
+      return succeeded(next.id);
+    });
+    await done;
+
+    expect(order).toEqual(['critical', 'low']);
+    expect(await queue.getRecord('low')).toMatchObject({ state: 'succeeded', attempts: 1 });
+  });
+
+  it('should retry a failed task up to its retryAttempts', async () => {
+    let calls = 0;
+    queue.process(async (next) => {
+      calls++;
+      if (calls < 3) {
+        throw new Error(`attempt ${calls} failed`);
+      }
+      return succeeded(next.id);
+    });
+
+    const completed = once(queue, 'taskCompleted');
+    await queue.enqueue(task('flaky', { retryAttempts: 2 }));
+    await completed;
+
+    expect(calls).toBe(3);
+    expect(await queue.getRecord('flaky')).toMatchObject({ state: 'succeeded', attempts: 3 });
+  });
+
+  it('should fail a task once its retries are used up', async () => {
+    queue.process(async () => {
+      throw new Error('broken');
+    });
+
+    const failed = once(queue, 'taskFailed');
+    await queue.enqueue(task('broken', { retryAttempts: 1 }));
+    const [taskId, error] = await failed;
+
+    expect(taskId).toBe('broken');
+    expect(error.message).toBe('broken');
+    expect(await queue.getRecord('broken')).toMatchObject({ state: 'failed', attempts: 2, error: 'broken' });
+  });
+
+  it('should cancel a queued task before it runs', async () => {
+    await queue.enqueue(task('queued'));
+
+    expect(await queue.cancel('queued')).toBe(true);
+    expect(await queue.cancel('queued')).toBe(false);
+    expect(await queue.dequeue()).toBeUndefined();
+    expect(await queue.getRecord('queued')).toMatchObject({ state: 'cancelled' });
+  });
+
+  it('should run a task resubmitted after it was cancelled in the queue', async () => {
+    await queue.enqueue(task('resubmitted'));
+    await queue.cancel('resubmitted');
+
+    const completed = once(queue, 'taskCompleted');
+    queue.process(async next => succeeded(next.id));
+    await queue.enqueue(task('resubmitted'));
+    await completed;
+
+    expect(await queue.getRecord('resubmitted')).toMatchObject({ state: 'succeeded' });
+  });
+
+  it('should expire the records of finished tasks after recordTtl', async () => {
+    const completed = once(queue, 'taskCompleted');
+    queue.process(async next => succeeded(next.id));
+    await queue.enqueue(task('short-lived'));
+    await completed;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await queue.getRecord('short-lived')).toBeDefined();
+    await new Promise(resolve => setTimeout(resolve, 80));
+    expect(await queue.getRecord('short-lived')).toBeUndefined();
+  });
+
+  it('should not treat a task it is still running as abandoned', async () => {
+    let finish: () => void = () => {};
+    const started = once(queue, 'taskStarted');
+    queue.process(next => new Promise(resolve => {
+      finish = () => resolve(succeeded(next.id));
+    }));
+    await queue.enqueue(task('long-running'));
+    await started;
+
+    // Outlive the heartbeat ttl; polling keeps refreshing it
+    await new Promise(resolve => setTimeout(resolve, 120));
+    const record = await queue.getRecord('long-running');
+
+    expect(record).toMatchObject({ state: 'running', owner: { host: hostname(), pid: process.pid } });
+    expect(await queue.isAbandoned(record!)).toBe(false);
+    finish();
+  });
+
+  it('should treat a running record whose owner is gone as abandoned', async () => {
+    const running = (owner: TaskRecord['owner']): TaskRecord => ({
+      id: 'orphan', task: task('orphan'), state: 'running', attempts: 1, submittedAt: Date.now(), owner
+    });
+    const exitedPid = spawnSync(process.execPath, ['-e', '']).pid;
+
+    expect(await queue.isAbandoned(running({ host: hostname(), pid: exitedPid }))).toBe(true);
+    expect(await queue.isAbandoned(running({ host: 'elsewhere', pid: process.pid }))).toBe(true);
+    expect(await queue.isAbandoned({ ...running(undefined), state: 'queued' })).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from '@jest/globals';
+import { ConsensusPattern } from '../../src/patterns/consensus.js';
+import type { ConsensusConfig, Task } from '../../src/types/index.js';
+import { ScriptedPool, type AgentScript } from './helpers.js';
+
+const task: Task = { id: 'question', description: 'What is six times seven?', pattern: 'consensus' };
+
+/**
+ * Agents whose answer in each round comes from `answers` (by round, then by
+ * agent id) and who rank first the candidate `prefers` picks
+ */
+function scriptedAgents(
+  answers: Record<number, Record<string, any>>,
+  prefers: (voter: string, candidates: Array<{ label: string; answer: any }>) => string
+): AgentScript {
+  return (scriptTask, agent) => {
+    const round = scriptTask.metadata?.round as number;
+    if (scriptTask.metadata?.phase === 'answer') {
+      return { result: { answer: answers[round][agent.id], confidence: 0.9 } };
+    }
+
+    const candidates = Array.from(scriptTask.description.matchAll(/^([A-Z]): (.*)$/gm), ([, label, answer]) => ({
+      label,
+      answer: JSON.parse(answer)
+    }));
+    const first = prefers(agent.id, candidates);
+    const ranking = [first, ...candidates.map(candidate => candidate.label).filter(label => label !== first)];
+    return { result: { ranking, reasoning: `${agent.id} likes ${first}` } };
+  };
+}
+
+function labelFor(candidates: Array<{ label: string; answer: any }>, answer: any): string {
+  return candidates.find(candidate => candidate.answer === answer)?.label ?? candidates[0].label;
+}
+
+async function run(size: number, script: AgentScript, config: Partial<ConsensusConfig> = {}) {
+  const pool = new ScriptedPool(size, script);
+  const pattern = new ConsensusPattern(pool, { minAgents: size, agreementThreshold: 0.8, maxRounds: 3, ...config });
+  const result = await pattern.execute(task);
+  return { pool, result };
+}
+
+describe('ConsensusPattern', () => {
+  it('should revise answers until the agents agree', async () => {
+    const { pool, result } = await run(3, scriptedAgents({
+      1: { 'agent-1': '40', 'agent-2': '41', 'agent-3': '42' },
+      2: { 'agent-1': '42', 'agent-2': '42', 'agent-3': '42' }
+    }, (_voter, candidates) => candidates[0].label));
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.result).toMatchObject({
+      consensusReached: true,
+      finalAnswer: '42',
+      agreementLevel: 1,
+      dissentingOpinions: [],
+      description: 'Consensus among 3 agents after 2 round(s)'
+    });
+
+    const [first, second] = result.result.rounds;
+    expect(result.result.rounds).toHaveLength(2);
+    // agent-2 and agent-3 rank agent-1's answer first, agent-1 ranks agent-2's
+    expect(first.agreementLevel).toBeCloseTo(2 / 3);
+    expect(first.leadingProposal).toBe('r1-agent-1');
+    expect(first.voteMatrix['agent-1']).toEqual({ 'r1-agent-2': 1, 'r1-agent-3': 0.5 });
+    expect(second.agreementLevel).toBe(1);
+
+    const revision = pool.scripted[0].tasks.find(sent => sent.metadata?.round === 2 && sent.metadata?.phase === 'answer');
+    expect(revision?.description).toContain('Your previous answer: "40"');
+    expect(pool.idleCount()).toBe(3);
+  });
+
+  it('should count answers that differ only in formatting as one and report dissent', async () => {
+    const { result } = await run(4, scriptedAgents({
+      1: { 'agent-1': 'Forty-two.', 'agent-2': 'forty-two', 'agent-3': '  FORTY-TWO ', 'agent-4': 'forty-one' }
+    }, (voter, candidates) => voter === 'agent-3'
+      ? labelFor(candidates, 'forty-one')
+      : labelFor(candidates, candidates.find(c => c.answer !== 'forty-one')!.answer)
+    ), { agreementThreshold: 0.7 });
+
+    expect(result.success).toBe(true);
+    expect(result.result.rounds).toHaveLength(1);
+    expect(result.result.agreementLevel).toBe(0.75);
+    expect(result.result.dissentingOpinions).toEqual([{
+      agentId: 'agent-3',
+      preferredProposal: 'r1-agent-4',
+      answer: 'forty-one',
+      reasoning: 'agent-3 likes C'
+    }]);
+  });
+
+  it('should fail with the agreement reached when the agents never agree', async () => {
+    const differing = { 'agent-1': 'red', 'agent-2': 'green', 'agent-3': 'blue' };
+    const { pool, result } = await run(3, scriptedAgents(
+      { 1: differing, 2: differing },
+      (_voter, candidates) => candidates[0].label
+    ), { maxRounds: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Agreement 0.67 below threshold 0.8 after 2 round(s)');
+    expect(result.result).toMatchObject({
+      consensusReached: false,
+      agreementLevel: 2 / 3,
+      description: 'No consensus among 3 agents after 2 round(s)'
+    });
+    expect(result.result.rounds).toHaveLength(2);
+    expect(result.result.dissentingOpinions).toEqual([
+      expect.objectContaining({ agentId: 'agent-1', answer: 'green' })
+    ]);
+    expect(result.metadata?.consensusReached).toBe(false);
+    expect(pool.idleCount()).toBe(3);
+  });
+
+  it('should fail when fewer than two agents answer', async () => {
+    const { result } = await run(3, (scriptTask, agent) => {
+      if (agent.id !== 'agent-1') {
+        throw new Error('no answer');
+      }
+      return { result: { answer: scriptTask.id, confidence: 1 } };
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Only 1 agent(s) produced an answer; consensus needs at least 2');
+  });
+});
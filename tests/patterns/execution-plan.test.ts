@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { MAX_PLAN_STEPS, parseExecutionPlan, type PlanParseResult } from '../../src/patterns/execution-plan.js';
+
+function errorsOf(result: PlanParseResult): string[] {
+  return result.success ? [] : result.errors;
+}
+
+describe('parseExecutionPlan', () => {
+  it('should accept a plan and fill in the optional fields', () => {
+    const result = parseExecutionPlan({
+      steps: [
+        { id: 'collect', description: 'Collect the merged changes', capabilities: ['code-analysis'] },
+        { id: 'group', description: 'Group them by area', dependsOn: ['collect'], acceptanceCriteria: ['every change has an area'] }
+      ]
+    });
+
+    expect(result).toEqual({
+      success: true,
+      plan: {
+        steps: [
+          { id: 'collect', description: 'Collect the merged changes', dependsOn: [], capabilities: ['code-analysis'], acceptanceCriteria: [] },
+          { id: 'group', description: 'Group them by area', dependsOn: ['collect'], capabilities: [], acceptanceCriteria: ['every change has an area'] }
+        ]
+      }
+    });
+  });
+
+  it('should parse JSON text, a bare step list and a plan in a code fence', () => {
+    const steps = [{ id: 'a', description: 'First' }, { id: 'b', description: 'Second', dependsOn: ['a'] }];
+
+    for (const raw of [
+      JSON.stringify({ steps }),
+      JSON.stringify(steps),
+      steps,
+      `Here is the plan:\n\n\`\`\`json\n${JSON.stringify({ steps }, null, 2)}\n\`\`\`\n\nLet me know.`,
+      `\`\`\`\n${JSON.stringify(steps)}\n\`\`\``
+    ]) {
+      const result = parseExecutionPlan(raw);
+      expect(result.success && result.plan.steps.map(step => step.id)).toEqual(['a', 'b']);
+    }
+  });
+
+  it.each([
+    ['text that is not JSON', 'the plan is to write the notes', ['plan is not valid JSON']],
+    ['a plan without steps', {}, ['steps: Required']],
+    ['an empty plan', { steps: [] }, ['steps: Array must contain at least 1 element(s)']],
+    ['a step id with spaces', { steps: [{ id: 'step one', description: 'x' }] }, ['steps.0.id: must be letters, digits, "_", "-" or "."']],
+    ['a blank description', { steps: [{ id: 'a', description: '  ' }] }, ['steps.0.description: String must contain at least 1 character(s)']]
+  ])('should reject %s', (_name, raw, errors) => {
+    expect(parseExecutionPlan(raw)).toEqual({ success: false, errors });
+  });
+
+  it('should reject more than the maximum number of steps', () => {
+    const steps = Array.from({ length: MAX_PLAN_STEPS + 1 }, (_, index) => ({ id: `s${index}`, description: 'x' }));
+
+    expect(errorsOf(parseExecutionPlan({ steps }))).toEqual([`steps: Array must contain at most ${MAX_PLAN_STEPS} element(s)`]);
+  });
+
+  it('should reject duplicate ids and ids that are already taken', () => {
+    const result = parseExecutionPlan(
+      { steps: [{ id: 'a', description: 'x' }, { id: 'a', description: 'y' }, { id: 'done', description: 'z' }] },
+      { reservedIds: ['done'] }
+    );
+
+    expect(errorsOf(result)).toEqual(['steps.1.id: duplicate step id "a"', 'steps.2.id: duplicate step id "done"']);
+  });
+
+  it('should reject dependencies on unknown steps and on the step itself', () => {
+    const result = parseExecutionPlan({
+      steps: [
+        { id: 'a', description: 'x', dependsOn: ['missing'] },
+        { id: 'b', description: 'y', dependsOn: ['a', 'b'] }
+      ]
+    });
+
+    expect(errorsOf(result)).toEqual(['steps.0.dependsOn.0: unknown step "missing"', 'steps.1.dependsOn.1: a step cannot depend on itself']);
+  });
+
+  it('should reject a dependency cycle', () => {
+    const result = parseExecutionPlan({
+      steps: [
+        { id: 'a', description: 'x', dependsOn: ['c'] },
+        { id: 'b', description: 'y', dependsOn: ['a'] },
+        { id: 'c', description: 'z', dependsOn: ['b'] }
+      ]
+    });
+
+    expect(errorsOf(result)).toEqual(['steps: steps form a dependency cycle']);
+  });
+
+  it('should let steps depend on completed steps outside the plan', () => {
+    const raw = { steps: [{ id: 'retry', description: 'Try again', dependsOn: ['collect'] }] };
+
+    expect(parseExecutionPlan(raw, { completedSteps: ['collect'] }).success).toBe(true);
+    expect(errorsOf(parseExecutionPlan(raw))).toEqual(['steps.0.dependsOn.0: unknown step "collect"']);
+  });
+});
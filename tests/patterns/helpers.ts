@@ -0,0 +1,96 @@
+import { ClaudeCodeAgent } from '../../src/agents/claude-code-agent.js';
+import { AgentPool } from '../../src/orchestrator/agent-pool.js';
+import type { AgentConfig, Task, TaskResult } from '../../src/types/index.js';
+
+const AGENT_CONFIG: AgentConfig = {
+  maxAgents: 1,
+  defaultModel: 'sonnet',
+  maxTokens: 1000,
+  temperature: 0.5,
+  spawnTimeout: 1000
+};
+
+/**
+ * What an agent does with a task: the result it reports (success defaults to
+ * true). Throwing makes the agent fail the task with that message.
+ */
+export type AgentScript = (task: Task, agent: ScriptedAgent) => Partial<TaskResult> | Promise<Partial<TaskResult>>;
+
+/**
+ * Agent that answers from a script instead of running the CLI, and keeps
+ * the tasks it was given
+ */
+export class ScriptedAgent extends ClaudeCodeAgent {
+  readonly tasks: Task[] = [];
+  private script: AgentScript;
+
+  constructor(id: string, script: AgentScript) {
+    super(id, AGENT_CONFIG);
+    this.script = script;
+  }
+
+  async execute(task: Task): Promise<TaskResult> {
+    this.tasks.push(task);
+    try {
+      const outcome = await this.script(task, this);
+      return { taskId: task.id, success: true, executionTime: 1, agentsUsed: [this.id], ...outcome };
+    } catch (error) {
+      return {
+        taskId: task.id,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: 1,
+        agentsUsed: [this.id]
+      };
+    }
+  }
+}
+
+/**
+ * Pool of scripted agents named agent-1..agent-N. Callers wait in FIFO
+ * order when every agent is leased.
+ */
+export class ScriptedPool extends AgentPool {
+  readonly scripted: ScriptedAgent[];
+  private free: ScriptedAgent[];
+  private waiting: Array<(agent: ScriptedAgent) => void> = [];
+
+  constructor(size: number, script: AgentScript) {
+    super({ ...AGENT_CONFIG, maxAgents: size });
+    this.scripted = Array.from({ length: size }, (_, index) => new ScriptedAgent(`agent-${index + 1}`, script));
+    this.free = [...this.scripted];
+  }
+
+  async acquire(): Promise<ClaudeCodeAgent> {
+    const agent = this.free.shift();
+    if (agent) {
+      return agent;
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  async release(agent: ClaudeCodeAgent): Promise<void> {
+    const scripted = this.scripted.find(candidate => candidate === agent);
+    if (!scripted || this.free.includes(scripted)) {
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter(scripted);
+    } else {
+      this.free.push(scripted);
+    }
+  }
+
+  getCapacity(): number {
+    return this.scripted.length;
+  }
+
+  /**
+   * Number of agents not leased right now
+   */
+  idleCount(): number {
+    return this.free.length;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from '@jest/globals';
+import { MapReducePattern } from '../../src/patterns/mapreduce.js';
+import type { MapReduceConfig, Task } from '../../src/types/index.js';
+import { ScriptedPool, type AgentScript } from './helpers.js';
+
+function mapReduceTask(context: any): Task {
+  return { id: 'job', description: 'Sum the numbers', pattern: 'mapreduce', context };
+}
+
+/**
+ * The body of a map prompt: the text, file list or JSON records after the heading
+ */
+function chunkOf(task: Task): string {
+  return task.description.split(/\n(?:Text|Records|Files to process):\n/)[1];
+}
+
+/**
+ * Mappers add up the records of their chunk and reducers add up the partial results
+ */
+const summing: AgentScript = (task) => {
+  if (task.metadata?.phase === 'map') {
+    return { result: (JSON.parse(chunkOf(task)) as number[]).reduce((sum, value) => sum + value, 0) };
+  }
+  const partials = Array.from(task.description.matchAll(/^\d+: (.*)$/gm), ([, value]) => JSON.parse(value) as number);
+  return { result: partials.reduce((sum, value) => sum + value, 0) };
+};
+
+function run(pool: ScriptedPool, context: any, config: Partial<MapReduceConfig> = {}) {
+  const pattern = new MapReducePattern(pool, { maxMappers: 2, maxReducers: 2, chunkRetries: 0, ...config });
+  return pattern.execute(mapReduceTask(context));
+}
+
+function mapTasks(pool: ScriptedPool): Task[] {
+  return pool.scripted
+    .flatMap(agent => agent.tasks)
+    .filter(task => task.metadata?.phase === 'map')
+    .sort((a, b) => a.metadata!.chunk - b.metadata!.chunk);
+}
+
+describe('MapReducePattern', () => {
+  it('should split text into chunks at line boundaries', async () => {
+    const pool = new ScriptedPool(2, task => ({ result: chunkOf(task).length }));
+
+    const result = await run(pool, { text: 'alpha\nbeta\ngamma\ndelta', chunkSize: 12 }, { reduceStrategy: 'concat' });
+
+    expect(result.success).toBe(true);
+    expect(mapTasks(pool).map(chunkOf)).toEqual(['alpha\nbeta\n', 'gamma\ndelta']);
+    expect(result.result.output).toEqual([11, 11]);
+    expect(result.metadata).toMatchObject({ inputKind: 'text', chunkCount: 2 });
+  });
+
+  it('should hand mappers file paths and records in chunks of chunkSize', async () => {
+    const pool = new ScriptedPool(2, task => ({ result: chunkOf(task) }));
+
+    const files = await run(pool, { files: ['a.ts', 'b.ts', 'c.ts'], chunkSize: 2 }, { reduceStrategy: 'concat' });
+    expect(files.result.output).toEqual(['a.ts\nb.ts', 'c.ts']);
+    expect(files.metadata?.inputKind).toBe('files');
+
+    const records = await run(new ScriptedPool(2, summing), { records: [1, 2, 3, 4, 5], chunkSize: 2 }, { reduceStrategy: 'concat' });
+    expect(records.result.output).toEqual([3, 7, 5]);
+    expect(records.metadata?.inputKind).toBe('records');
+  });
+
+  it('should retry a failed chunk and report it as retried', async () => {
+    const pool = new ScriptedPool(2, (task, agent) => {
+      if (task.metadata?.chunk === 1 && task.metadata?.attempt === 1) {
+        throw new Error(`${agent.id} lost the chunk`);
+      }
+      return summing(task, agent);
+    });
+
+    const result = await run(pool, [10, 20, 30], { chunkSize: 1, chunkRetries: 1, reduceStrategy: 'sum' });
+
+    expect(result.success).toBe(true);
+    expect(result.result.output).toBe(60);
+    expect(result.result.retriedChunks).toEqual([1]);
+    expect(result.result.chunks[1]).toMatchObject({ status: 'succeeded', attempts: 2, retried: true });
+  });
+
+  it('should fail a task whose chunk keeps failing and name the chunk', async () => {
+    const pool = new ScriptedPool(2, (task, agent) => {
+      if (task.metadata?.chunk === 2) {
+        throw new Error('unreadable');
+      }
+      return summing(task, agent);
+    });
+
+    const result = await run(pool, [1, 2, 3], { chunkSize: 1, chunkRetries: 1, reduceStrategy: 'sum' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('1 of 3 chunk(s) failed: 2');
+    expect(result.result.output).toBe(3);
+    expect(result.result.chunks[2]).toMatchObject({ status: 'failed', attempts: 2, error: 'unreadable' });
+  });
+
+  it('should reduce more outputs than reduceFanIn in a tree of levels', async () => {
+    const pool = new ScriptedPool(2, summing);
+
+    const result = await run(pool, [1, 2, 3, 4, 5], { chunkSize: 1, reduceFanIn: 2 });
+
+    expect(result.success).toBe(true);
+    expect(result.result.output).toBe(15);
+    expect(result.result.reduceLevels).toEqual([
+      { level: 1, inputs: 5, outputs: 3 },
+      { level: 2, inputs: 3, outputs: 2 },
+      { level: 3, inputs: 2, outputs: 1 }
+    ]);
+    // Groups of one are passed through without an agent
+    const reducers = pool.scripted.flatMap(agent => agent.tasks).filter(task => task.metadata?.phase === 'reduce');
+    expect(reducers).toHaveLength(4);
+  });
+
+  it('should start no further reducers after one fails and wait for those in flight', async () => {
+    const pool = new ScriptedPool(2, async (task, agent) => {
+      if (task.metadata?.phase === 'reduce' && task.metadata.group === 0) {
+        throw new Error('reducer crashed');
+      }
+      if (task.metadata?.phase === 'reduce') {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      return summing(task, agent);
+    });
+
+    const result = await run(pool, [1, 2, 3, 4, 5, 6, 7, 8], { chunkSize: 1, reduceFanIn: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Reducer 1.0 failed after 1 attempt(s): reducer crashed');
+    const reducers = pool.scripted.flatMap(agent => agent.tasks).filter(task => task.metadata?.phase === 'reduce');
+    expect(reducers.map(task => task.metadata?.group).sort()).toEqual([0, 1]);
+    expect(pool.idleCount()).toBe(2);
+  });
+
+  it('should reject input it cannot chunk', async () => {
+    const result = await run(new ScriptedPool(1, summing), { numbers: [1, 2] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('MapReduce needs input in task.context');
+  });
+});
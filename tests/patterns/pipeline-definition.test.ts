@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadPipelineDefinition,
+  orderStages,
+  renderStagePrompt,
+  resolveInputPath,
+  validatePipelineDefinition
+} from '../../src/patterns/pipeline-definition.js';
+
+const YAML_DEFINITION = `
+name: review
+stages:
+  - name: analyze
+    prompt: "Analyze {{task}}"
+  - name: plan
+    prompt: "Plan the steps for {{findings}}"
+    inputs:
+      findings: analyze.findings
+    failureHandling: retry
+    retries: 1
+`;
+
+describe('pipeline definitions', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pipeline-definition-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load YAML text and chain stages in declaration order', async () => {
+    const definition = await loadPipelineDefinition(YAML_DEFINITION, 10);
+
+    expect(definition.name).toBe('review');
+    expect(definition.stages.map(stage => [stage.name, stage.dependsOn])).toEqual([
+      ['analyze', []],
+      ['plan', ['analyze']]
+    ]);
+    expect(definition.stages[1]).toMatchObject({ inputs: { findings: 'analyze.findings' }, failureHandling: 'retry', retries: 1 });
+  });
+
+  it('should load a definition from a JSON file or an object', async () => {
+    const path = join(directory, 'pipeline.json');
+    writeFileSync(path, JSON.stringify({ stages: [{ name: 'only', prompt: 'Do {{task}}' }] }));
+
+    expect((await loadPipelineDefinition(path, 10)).stages[0].name).toBe('only');
+    expect((await loadPipelineDefinition({ stages: [{ name: 'inline', prompt: 'x' }] }, 10)).stages[0].name).toBe('inline');
+    await expect(loadPipelineDefinition(join(directory, 'missing.yaml'), 10)).rejects.toThrow('Cannot read pipeline definition');
+  });
+
+  it('should report every problem of a broken definition at once', () => {
+    const broken = {
+      stages: [
+        { name: 'build', prompt: '' },
+        { name: 'build', prompt: 'again', failureHandling: 'ignore' },
+        { name: 'bad name', prompt: 'x', temperature: 2, timeout: 0 }
+      ]
+    };
+
+    expect(() => validatePipelineDefinition(broken, 2)).toThrow(new Error([
+      'Invalid pipeline definition:',
+      '- pipeline has 3 stages but at most 2 are allowed',
+      '- stage "build" needs a non-empty prompt',
+      '- stage "build" reuses a name that is already taken',
+      '- stage "build" failureHandling must be one of stop, skip, retry',
+      '- stage "bad name" needs a name made of letters, digits, "_" or "-"',
+      '- stage "bad name" temperature must be a number between 0 and 1',
+      '- stage "bad name" timeout must be a positive number of milliseconds'
+    ].join('\n')));
+  });
+
+  it('should reject dependencies and inputs that do not resolve', () => {
+    expect(() => validatePipelineDefinition({
+      stages: [{ name: 'a', prompt: 'x', dependsOn: ['ghost'] }]
+    }, 10)).toThrow('stage "a" depends on unknown stage "ghost"');
+
+    expect(() => validatePipelineDefinition({
+      stages: [
+        { name: 'a', prompt: 'x' },
+        { name: 'b', prompt: 'use {{other}}', dependsOn: [], inputs: { other: 'a.result' } }
+      ]
+    }, 10)).toThrow('stage "b" input "other" must reference "task" or an upstream stage, got "a.result"');
+
+    expect(() => validatePipelineDefinition({
+      stages: [{ name: 'a', prompt: 'use {{undeclared}}' }]
+    }, 10)).toThrow('stage "a" prompt uses {{undeclared}} which is not a declared input');
+
+    expect(() => validatePipelineDefinition({ steps: [] }, 10)).toThrow('expected an object with a "stages" array');
+  });
+
+  it('should order stages after their dependencies, keeping declaration order otherwise', () => {
+    const ordered = orderStages([
+      { name: 'report', dependsOn: ['lint', 'test'] },
+      { name: 'test', dependsOn: ['build'] },
+      { name: 'lint', dependsOn: [] },
+      { name: 'build', dependsOn: [] }
+    ]);
+
+    expect(ordered.map(stage => stage.name)).toEqual(['lint', 'build', 'test', 'report']);
+  });
+
+  it('should reject dependency cycles', () => {
+    expect(() => orderStages([
+      { name: 'a', dependsOn: [] },
+      { name: 'b', dependsOn: ['c'] },
+      { name: 'c', dependsOn: ['b'] }
+    ])).toThrow('pipeline stages form a dependency cycle: b, c');
+
+    expect(() => validatePipelineDefinition({
+      stages: [
+        { name: 'a', prompt: 'x', dependsOn: ['b'] },
+        { name: 'b', prompt: 'y' }
+      ]
+    }, 10)).toThrow('pipeline stages form a dependency cycle: a, b');
+  });
+
+  it('should render prompts and resolve input paths', () => {
+    const outputs = { analyze: { findings: ['slow query'], count: 0 } };
+
+    expect(resolveInputPath('analyze.findings.0', outputs)).toBe('slow query');
+    expect(resolveInputPath('analyze.missing.deeper', outputs)).toBeUndefined();
+    expect(renderStagePrompt('Fix {{ issue }} ({{count}}){{none}}', {
+      issue: resolveInputPath('analyze.findings.0', outputs),
+      count: outputs.analyze.count
+    })).toBe('Fix slow query (0)');
+    expect(renderStagePrompt('{{data}}', { data: { a: 1 } })).toBe('{\n  "a": 1\n}');
+  });
+});
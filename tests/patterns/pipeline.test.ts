@@ -0,0 +1,261 @@
+import { describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheckpointStore } from '../../src/orchestrator/checkpoint-store.js';
+import { PipelinePattern } from '../../src/patterns/pipeline.js';
+import type { PipelineConfig, PipelineStageDefinition, Task } from '../../src/types/index.js';
+import { ScriptedPool, type AgentScript } from './helpers.js';
+
+function pipelineTask(stages: Array<Partial<PipelineStageDefinition> & { name: string }>, context: Record<string, any> = {}): Task {
+  return {
+    id: 'pipeline-task',
+    description: 'Ship the feature',
+    pattern: 'pipeline',
+    context: { ...context, pipeline: { stages: stages.map(stage => ({ prompt: `run ${stage.name}`, ...stage })) } }
+  };
+}
+
+function run(pool: ScriptedPool, task: Task, config: Partial<PipelineConfig> = {}) {
+  const pattern = new PipelinePattern(pool, { maxStages: 10, stageTimeout: 1000, allowParallelStages: true, retryDelay: 1, ...config });
+  return pattern.execute(task);
+}
+
+/**
+ * Stage agents reply with the stage name and the prompt they were given
+ */
+const echo: AgentScript = task => ({ result: { stage: task.metadata?.stage, prompt: task.description } });
+
+describe('PipelinePattern', () => {
+  it('should run a declarative pipeline and feed mapped inputs into later prompts', async () => {
+    const pool = new ScriptedPool(2, (task, agent) => task.metadata?.stage === 'analyze'
+      ? { result: { findings: ['slow query', 'missing index'] } }
+      : echo(task, agent));
+
+    const result = await run(pool, pipelineTask([
+      { name: 'analyze', prompt: 'Analyze {{task}}' },
+      { name: 'fix', prompt: 'Fix {{first}} given {{previous}}', inputs: { first: 'analyze.findings.0' } }
+    ], { repository: 'api' }));
+
+    expect(result.success).toBe(true);
+    expect(result.result.finalOutput).toEqual({
+      stage: 'fix',
+      prompt: 'Fix slow query given Previous stage (analyze) output: {"findings":["slow query","missing index"]}'
+    });
+    expect(result.result.stages.map((stage: any) => [stage.stage, stage.status])).toEqual([
+      ['analyze', 'succeeded'],
+      ['fix', 'succeeded']
+    ]);
+
+    // Agents get the rest of the context, not the definition
+    const analyze = pool.scripted.flatMap(agent => agent.tasks).find(task => task.metadata?.stage === 'analyze');
+    expect(analyze?.description).toBe('Analyze Ship the feature');
+    expect(analyze?.context).toEqual({ repository: 'api' });
+  });
+
+  it('should run the branches of a diamond in parallel and join their outputs', async () => {
+    const delays: Record<string, number> = { left: 10, right: 50 };
+    let running = 0;
+    let maxRunning = 0;
+    const pool = new ScriptedPool(3, async (task, agent) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, delays[task.metadata?.stage] ?? 1));
+      running--;
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([
+      { name: 'start' },
+      { name: 'left', dependsOn: ['start'] },
+      { name: 'right', dependsOn: ['start'] },
+      { name: 'join', prompt: '{{previous}}', dependsOn: ['left', 'right'] }
+    ]));
+
+    expect(result.success).toBe(true);
+    expect(maxRunning).toBe(2);
+    expect(result.result.finalOutput.prompt).toContain('Previous stage (left) output');
+    expect(result.result.finalOutput.prompt).toContain('Previous stage (right) output');
+    expect(result.result.stages.map((stage: any) => stage.stage)).toEqual(['start', 'left', 'right', 'join']);
+    expect(result.result.criticalPath).toEqual(['start', 'right', 'join']);
+    expect(result.result.timeline).toHaveLength(4);
+  });
+
+  it('should run one stage at a time when parallel stages are off', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const pool = new ScriptedPool(3, async (task, agent) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([
+      { name: 'first', dependsOn: [] },
+      { name: 'second', dependsOn: [] },
+      { name: 'third', dependsOn: [] }
+    ]), { allowParallelStages: false });
+
+    expect(result.success).toBe(true);
+    expect(maxRunning).toBe(1);
+    // Several sinks make the final output a map of their outputs
+    expect(Object.keys(result.result.finalOutput)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should stop at a failed stage and leave the later stages not run', async () => {
+    const pool = new ScriptedPool(2, (task, agent) => {
+      if (task.metadata?.stage === 'build') {
+        throw new Error('compiler crashed');
+      }
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([{ name: 'fetch' }, { name: 'build' }, { name: 'deploy' }]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Stage "build" failed: compiler crashed');
+    expect(result.metadata).toMatchObject({ stoppedAt: 'build', stagePolicies: { build: 'stop' } });
+    expect(result.result.stages.map((stage: any) => [stage.stage, stage.status])).toEqual([
+      ['fetch', 'succeeded'],
+      ['build', 'failed'],
+      ['deploy', 'not-run']
+    ]);
+  });
+
+  it('should skip a failed stage whose policy is skip and run the rest', async () => {
+    const pool = new ScriptedPool(2, (task, agent) => {
+      if (task.metadata?.stage === 'lint') {
+        throw new Error('style issues');
+      }
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([
+      { name: 'build' },
+      { name: 'lint', failureHandling: 'skip' },
+      { name: 'deploy', prompt: 'deploy after {{previous}}' }
+    ]));
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ skippedStages: ['lint'], stagePolicies: { lint: 'skip' } });
+    // Without the skipped stage's output the stage falls back to the task
+    expect(result.result.finalOutput.prompt).toBe('deploy after Ship the feature');
+  });
+
+  it('should retry a stage with the retry policy until it succeeds', async () => {
+    let attempts = 0;
+    const pool = new ScriptedPool(1, (task, agent) => {
+      if (task.metadata?.stage === 'flaky' && ++attempts < 3) {
+        throw new Error(`attempt ${attempts} failed`);
+      }
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([{ name: 'flaky', failureHandling: 'retry', retries: 2 }]));
+
+    expect(result.success).toBe(true);
+    expect(result.result.stages[0]).toMatchObject({ status: 'succeeded', attempts: 3, policyFired: 'retry' });
+    expect(pool.scripted[0].tasks.map(task => task.id)).toEqual([
+      'pipeline-task-stage-1-attempt-1',
+      'pipeline-task-stage-1-attempt-2',
+      'pipeline-task-stage-1-attempt-3'
+    ]);
+  });
+
+  it('should stop once the retries of a stage are used up', async () => {
+    const pool = new ScriptedPool(1, () => {
+      throw new Error('still broken');
+    });
+
+    const result = await run(pool, pipelineTask([{ name: 'broken', failureHandling: 'retry', retries: 1 }]));
+
+    expect(result.success).toBe(false);
+    expect(result.result.stages[0]).toMatchObject({ status: 'failed', attempts: 2, policyFired: 'stop' });
+  });
+
+  it('should abort an attempt that runs past the stage timeout', async () => {
+    const pool = new ScriptedPool(1, async (task) => {
+      await new Promise(resolve => task.signal?.addEventListener('abort', resolve, { once: true }));
+      throw new Error('aborted');
+    });
+
+    const result = await run(pool, pipelineTask([{ name: 'hang', timeout: 20 }]), { stageTimeout: 5000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Stage "hang" failed: Stage timed out after 20ms');
+    expect(result.result.stages[0]).toMatchObject({ timedOut: true, attempts: 1 });
+    expect(pool.idleCount()).toBe(1);
+  });
+
+  it('should run the onFailure stage of a stage that failed for good', async () => {
+    const pool = new ScriptedPool(1, (task, agent) => {
+      if (task.metadata?.stage === 'migrate') {
+        throw new Error('lock timeout');
+      }
+      return echo(task, agent);
+    });
+
+    const result = await run(pool, pipelineTask([
+      { name: 'migrate', onFailure: { name: 'rollback', prompt: 'Roll back after {{error}}' } }
+    ]));
+
+    expect(result.success).toBe(false);
+    expect(result.result.stages[0].compensation).toEqual({
+      stage: 'rollback',
+      success: true,
+      result: { stage: 'rollback', prompt: 'Roll back after lock timeout' }
+    });
+    expect(pool.scripted[0].tasks.map(task => task.id)).toEqual(['pipeline-task-stage-1', 'pipeline-task-stage-1-on-failure']);
+  });
+
+  it('should reject an invalid definition before leasing any agent', async () => {
+    const pool = new ScriptedPool(1, echo);
+
+    const result = await run(pool, pipelineTask([{ name: 'a', prompt: 'use {{missing}}' }]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('stage "a" prompt uses {{missing}} which is not a declared input');
+    expect(pool.scripted[0].tasks).toEqual([]);
+  });
+
+  describe('with checkpoints', () => {
+    it('should resume after the stages that succeeded and start over when the stages changed', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'pipeline-checkpoints-'));
+      const checkpoints = new CheckpointStore(directory);
+      const config: PipelineConfig = { maxStages: 10, stageTimeout: 1000, allowParallelStages: true, retryDelay: 1 };
+      let deployWorks = false;
+      const pool = new ScriptedPool(1, (task, agent) => {
+        if (task.metadata?.stage === 'deploy' && !deployWorks) {
+          throw new Error('registry down');
+        }
+        return echo(task, agent);
+      });
+      const stages = [{ name: 'build' }, { name: 'deploy', prompt: 'deploy {{previous}}' }];
+
+      try {
+        const failed = await new PipelinePattern(pool, config, checkpoints).execute(pipelineTask(stages));
+        expect(failed.success).toBe(false);
+        expect(Object.keys((await checkpoints.load('pipeline-task'))!.stages)).toEqual(['build']);
+
+        deployWorks = true;
+        const resumed = await new PipelinePattern(pool, config, checkpoints).execute(pipelineTask(stages));
+        expect(resumed.success).toBe(true);
+        expect(resumed.metadata?.resumedStages).toEqual(['build']);
+        // The restored output still feeds the stages after it
+        expect(resumed.result.finalOutput.prompt).toBe('deploy Previous stage (build) output: {"stage":"build","prompt":"run build"}');
+        expect(pool.scripted[0].tasks.filter(task => task.metadata?.stage === 'build')).toHaveLength(1);
+        expect(await checkpoints.load('pipeline-task')).toBeUndefined();
+
+        deployWorks = false;
+        await new PipelinePattern(pool, config, checkpoints).execute(pipelineTask(stages));
+        const changed = await new PipelinePattern(pool, config, checkpoints).execute(pipelineTask([{ name: 'build', prompt: 'build again' }, stages[1]]));
+        expect(changed.metadata?.resumedStages).toEqual([]);
+        expect(pool.scripted[0].tasks.filter(task => task.metadata?.stage === 'build')).toHaveLength(3);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
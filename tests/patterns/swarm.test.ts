@@ -0,0 +1,372 @@
+import { describe, expect, it } from '@jest/globals';
+import { EnhancedSwarmPattern } from '../../src/patterns/swarm-enhanced.js';
+import type { SwarmConfig, Task, TaskResult } from '../../src/types/index.js';
+import { ScriptedPool, type AgentScript } from './helpers.js';
+
+// No role keywords, so the three agents are swarm-explorer-1, swarm-analyzer-2
+// and swarm-validator-3, on agent-1, agent-2 and agent-3
+const task: Task = { id: 'notes', description: 'Write the release notes', pattern: 'swarm' };
+
+type SwarmStep = 'explore' | 'evaluation' | 'proposal' | 'vote' | 'plan' | 'execution' | 'validation';
+
+/**
+ * Each agent proposes a one-step plan naming itself, supports every proposal
+ * and passes validation
+ */
+const DEFAULTS: Record<SwarmStep, AgentScript> = {
+  explore: (_task, agent) => ({ result: `notes from ${agent.id}` }),
+  evaluation: () => ({ result: 'noted' }),
+  proposal: (_task, agent) => ({
+    result: { steps: [{ id: 'write', description: `Write them as ${agent.id}` }] },
+    metadata: { confidence: 0.5 }
+  }),
+  vote: () => ({ result: { support: true, confidence: 0.8 } }),
+  plan: () => ({ result: { steps: [{ id: 'write', description: 'Write them' }] } }),
+  execution: () => ({ result: 'done' }),
+  validation: () => ({ result: { valid: true } })
+};
+
+/**
+ * Script answering each kind of swarm task with `handlers`, or the default
+ */
+function swarmAgents(handlers: Partial<Record<SwarmStep, AgentScript>> = {}): AgentScript {
+  return (scriptTask, agent) => {
+    const step = (scriptTask.metadata?.phase === 'exploration' ? 'explore' : scriptTask.pattern) as SwarmStep;
+    return (handlers[step] ?? DEFAULTS[step])(scriptTask, agent);
+  };
+}
+
+async function run(script: AgentScript, config: SwarmConfig = {}) {
+  const pool = new ScriptedPool(3, script);
+  const pattern = new EnhancedSwarmPattern(pool, {
+    defaultAgents: 3,
+    adaptiveScaling: false,
+    communicationDelay: 1,
+    ...config
+  });
+  const result = await pattern.execute(task);
+  return { pool, result };
+}
+
+/**
+ * Keep working until the swarm cancels the task, then report it cancelled
+ * like a real agent does
+ */
+function untilCancelled(scriptTask: Task): Promise<Partial<TaskResult>> {
+  return new Promise(resolve => scriptTask.signal!.addEventListener('abort', () => {
+    resolve({ success: false, error: 'Task cancelled', metadata: { cancelled: true } });
+  }, { once: true }));
+}
+
+function performanceOf(result: TaskResult, swarmAgentId: string): any {
+  return result.result.performance.agents.find((entry: any) => entry.agentId === swarmAgentId).performance;
+}
+
+/**
+ * The execution tasks each agent ran, by their step description
+ */
+function executed(pool: ScriptedPool): Record<string, string[]> {
+  return Object.fromEntries(pool.scripted.map(agent => [
+    agent.id,
+    agent.tasks.filter(sent => sent.pattern === 'execution').map(sent => sent.description)
+  ]));
+}
+
+describe('EnhancedSwarmPattern', () => {
+  describe('consensus', () => {
+    const confidence: Record<string, number> = { 'agent-1': 0.6, 'agent-2': 0.9, 'agent-3': 0.7 };
+    // Only agent-2 supports a proposal, the explorer's, which falls short of minConsensus
+    const script = swarmAgents({
+      proposal: (scriptTask, agent) => ({ ...DEFAULTS.proposal(scriptTask, agent), metadata: { confidence: confidence[agent.id] } }),
+      vote: (scriptTask, agent) => ({
+        result: { support: agent.id === 'agent-2' && String(scriptTask.metadata?.proposalId).startsWith('prop-swarm-explorer-1-'), confidence: 0.8 }
+      })
+    });
+
+    it('should fall back to the most confident proposal when no proposal reaches consensus', async () => {
+      const { pool, result } = await run(script, { minConsensus: 0.9 });
+
+      expect(result.success).toBe(true);
+      const consensus = result.result.consensus;
+      expect(consensus).toMatchObject({
+        status: 'fallback',
+        allAgreements: [],
+        consensusLevel: 0,
+        primaryAgreement: { supportLevel: 0, content: { steps: [{ description: 'Write them as agent-2' }] } },
+        voting: { resultAggregation: 'consensus', rule: 'threshold' }
+      });
+      expect(consensus.primaryAgreement.proposalId).toMatch(/^prop-swarm-analyzer-2-/);
+      expect(consensus.voting.tally.proposals.some((entry: any) => entry.passed)).toBe(false);
+      expect(Object.values(executed(pool)).flat()).toEqual(['Write them as agent-2']);
+    });
+
+    it('should take the leading proposal under the majority aggregation instead', async () => {
+      const { pool, result } = await run(script, { minConsensus: 0.9, resultAggregation: 'majority' });
+
+      const consensus = result.result.consensus;
+      expect(consensus.status).toBe('consensus-achieved');
+      expect(consensus.primaryAgreement.proposalId).toMatch(/^prop-swarm-explorer-1-/);
+      expect(consensus.primaryAgreement.supportLevel).toBe(0.5);
+      expect(Object.values(executed(pool)).flat()).toEqual(['Write them as agent-1']);
+    });
+
+    it('should pick the most confident proposal without voting under the best aggregation', async () => {
+      const { pool, result } = await run(script, { resultAggregation: 'best' });
+
+      const consensus = result.result.consensus;
+      expect(consensus.primaryAgreement.proposalId).toMatch(/^prop-swarm-analyzer-2-/);
+      expect(consensus.voting).toEqual({ resultAggregation: 'best', rule: undefined, tally: undefined });
+      expect(pool.scripted.flatMap(agent => agent.tasks).some(sent => sent.pattern === 'vote')).toBe(false);
+    });
+  });
+
+  describe('execution plans', () => {
+    const PROSE = 'Collect the merged changes. Group them by area. Write the summary';
+    // Proposals in prose; agent-2 is the most confident, so it plans under the 'best' aggregation
+    const proposeProse: AgentScript = (_task, agent) => ({
+      result: PROSE,
+      metadata: { confidence: agent.id === 'agent-2' ? 0.9 : 0.6 }
+    });
+    const planTasks = (pool: ScriptedPool) => pool.scripted.flatMap(agent => agent.tasks.filter(sent => sent.pattern === 'plan'));
+
+    it('should execute a proposal that already is a valid plan without asking for one', async () => {
+      const { pool, result } = await run(swarmAgents(), { resultAggregation: 'best' });
+
+      expect(result.result.execution.plan.source).toBe('proposal');
+      expect(planTasks(pool)).toHaveLength(0);
+    });
+
+    it('should ask the proposal\'s author again with the validation errors when its plan is invalid', async () => {
+      const { pool, result } = await run(swarmAgents({
+        proposal: proposeProse,
+        plan: (scriptTask) => scriptTask.id.endsWith('-1')
+          ? { result: { steps: [{ id: 'a', description: 'x', dependsOn: ['b'] }, { id: 'b', description: 'y', dependsOn: ['a'] }] } }
+          : { result: '```json\n{"steps": [{"id": "collect", "description": "Collect the changes"}, {"id": "group", "description": "Group them"}]}\n```' }
+      }), { resultAggregation: 'best' });
+
+      expect(result.success).toBe(true);
+      const { plan, execution } = result.result.execution;
+      expect(plan.source).toBe('agent');
+      expect(plan.steps.map((step: any) => [step.id, step.dependencies])).toEqual([['collect', []], ['group', []]]);
+      expect(execution).toMatchObject({ status: 'succeeded', completedSteps: 2 });
+
+      expect(pool.scripted[1].tasks.filter(sent => sent.pattern === 'plan').map(sent => sent.id)).toEqual(['plan-swarm-analyzer-2-1', 'plan-swarm-analyzer-2-2']);
+      expect(planTasks(pool)).toHaveLength(2);
+      const [first, second] = planTasks(pool);
+      expect(first.description).not.toContain('rejected');
+      expect(second.description).toContain('Your previous plan was rejected: steps: steps form a dependency cycle');
+    });
+
+    it('should chain the sentences of the proposal when no valid plan comes back', async () => {
+      const { pool, result } = await run(swarmAgents({ proposal: proposeProse, plan: () => ({ result: 'Just write them.' }) }), {
+        resultAggregation: 'best'
+      });
+
+      expect(result.success).toBe(true);
+      const { plan } = result.result.execution;
+      expect(plan).toMatchObject({ source: 'heuristic', errors: ['plan is not valid JSON'] });
+      expect(plan.steps.map((step: any) => [step.id, step.description, step.dependencies])).toEqual([
+        ['step-1', 'Collect the merged changes', []],
+        ['step-2', 'Group them by area', ['step-1']],
+        ['step-3', 'Write the summary', ['step-2']]
+      ]);
+      expect(planTasks(pool)).toHaveLength(2);
+    });
+
+    it('should stop asking when the planner fails', async () => {
+      const { pool, result } = await run(swarmAgents({
+        proposal: proposeProse,
+        plan: () => {
+          throw new Error('planner crashed');
+        }
+      }), { resultAggregation: 'best' });
+
+      expect(result.result.execution.plan).toMatchObject({ source: 'heuristic', errors: ['planner failed: planner crashed'] });
+      expect(planTasks(pool)).toHaveLength(1);
+    });
+  });
+
+  describe('plan execution', () => {
+    // collect -> group -> write, with draft on its own branch
+    const proposePlan: AgentScript = () => ({
+      result: {
+        steps: [
+          { id: 'collect', description: 'Collect the merged changes' },
+          { id: 'group', description: 'Group them by area', dependsOn: ['collect'] },
+          { id: 'write', description: 'Write the summary', dependsOn: ['group'] },
+          { id: 'draft', description: 'Draft the upgrade guide' }
+        ]
+      },
+      metadata: { confidence: 0.8 }
+    });
+    const failCollect: AgentScript = (scriptTask) => {
+      if (scriptTask.metadata?.stepId === 'collect') {
+        throw new Error('repository unavailable');
+      }
+      return { result: 'done' };
+    };
+    const ranStep = (pool: ScriptedPool, stepId: string) =>
+      pool.scripted.filter(agent => agent.tasks.some(sent => sent.id === `exec-${stepId}`)).map(agent => agent.id);
+
+    it('should retry a failed step on another agent', async () => {
+      let failures = 0;
+      const { pool, result } = await run(swarmAgents({
+        proposal: proposePlan,
+        execution: (scriptTask, agent) => scriptTask.metadata?.stepId === 'collect' && failures++ === 0
+          ? failCollect(scriptTask, agent)
+          : { result: 'done' }
+      }), { resultAggregation: 'best' });
+
+      expect(result.success).toBe(true);
+      const { plan, execution } = result.result.execution;
+      expect(execution).toMatchObject({ status: 'succeeded', completedSteps: 4, totalSteps: 4, failedSteps: [], notRun: [], replans: [] });
+      const collect = plan.steps.find((step: any) => step.id === 'collect');
+      expect(collect.attempts).toBe(2);
+      expect(new Set(collect.triedAgents).size).toBe(2);
+      expect(ranStep(pool, 'collect')).toHaveLength(2);
+    });
+
+    it('should replan a step that failed on every attempt and run its dependents after the replacement', async () => {
+      const { pool, result } = await run(swarmAgents({
+        proposal: proposePlan,
+        execution: failCollect,
+        plan: () => ({ result: [{ id: 'export', description: 'Export the changes from the mirror' }] })
+      }), { resultAggregation: 'best' });
+
+      expect(result.success).toBe(true);
+      const { plan, execution } = result.result.execution;
+      expect(execution).toMatchObject({
+        status: 'succeeded',
+        completedSteps: 4,
+        totalSteps: 5,
+        failedSteps: [],
+        replans: [{ stepId: 'collect', replacedBy: ['export'] }]
+      });
+      expect(plan.steps.map((step: any) => [step.id, step.status])).toEqual([
+        ['collect', 'replaced'], ['group', 'completed'], ['write', 'completed'], ['draft', 'completed'], ['export', 'completed']
+      ]);
+      expect(plan.steps.find((step: any) => step.id === 'group').dependencies).toEqual(['export']);
+
+      // The agent that had not failed the step is the strongest, so it replans
+      const replanTasks = pool.scripted.flatMap(agent => agent.tasks.filter(sent => sent.pattern === 'plan').map(sent => ({ agent, sent })));
+      expect(replanTasks.map(({ sent }) => sent.id)).toEqual(['replan-collect']);
+      expect(replanTasks[0].sent.description).toContain('Error: repository unavailable');
+      const replanner = replanTasks[0].agent;
+      expect(ranStep(pool, 'collect')).toHaveLength(2);
+      expect(ranStep(pool, 'collect')).not.toContain(replanner.id);
+    });
+
+    it.each<[string, SwarmConfig, AgentScript | undefined]>([
+      ['replanning is off', { replanOnFailure: false }, undefined],
+      ['the replacement is invalid', {}, () => ({ result: { steps: [{ id: 'collect', description: 'Reuse the id' }] } })]
+    ])('should skip the dependents of a step that failed for good when %s', async (_name, config, plan) => {
+      const { pool, result } = await run(swarmAgents({ proposal: proposePlan, execution: failCollect, plan }), {
+        resultAggregation: 'best',
+        ...config
+      });
+
+      expect(result.success).toBe(false);
+      const { execution } = result.result.execution;
+      expect(execution).toMatchObject({
+        status: 'partial',
+        completedSteps: 1,
+        totalSteps: 4,
+        failedSteps: [{ stepId: 'collect', error: 'repository unavailable', attempts: 2 }],
+        notRun: [
+          { stepId: 'group', reason: 'dependency collect failed' },
+          { stepId: 'write', reason: 'dependency group was skipped' }
+        ],
+        replans: []
+      });
+      expect(execution.failedSteps[0].agents).toHaveLength(2);
+      expect(ranStep(pool, 'group')).toEqual([]);
+      expect(result.error).toBe('Swarm execution partial (1/4 steps completed); collect failed: repository unavailable; ' +
+        'group skipped: dependency collect failed; write skipped: dependency group was skipped');
+    });
+  });
+
+  describe('exploration', () => {
+    const discoveries: Record<string, string> = {
+      'agent-1': 'The changelog lists breaking changes in the parser module',
+      'agent-2': 'The changelog lists breaking changes in the parser',
+      'agent-3': 'Screenshots of the new dashboard are missing'
+    };
+    // agent-3 is still exploring when the others are done
+    const slowValidator = (handlers: Partial<Record<SwarmStep, AgentScript>> = {}) => swarmAgents({
+      explore: (scriptTask, agent) => agent.id === 'agent-3' ? untilCancelled(scriptTask) : { result: discoveries[agent.id] },
+      ...handlers
+    });
+
+    it('should end at the time box, cancel the laggard and count it as a timeout', async () => {
+      const { pool, result } = await run(slowValidator(), { maxExplorationTime: 100 });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata!.exploration).toMatchObject({ endedBy: 'time-box', timedOut: ['swarm-validator-3'], stoppedEarly: [] });
+      expect(result.metadata!.exploration.duration).toBeGreaterThanOrEqual(100);
+      expect(pool.scripted[2].tasks[0].signal?.aborted).toBe(true);
+      expect(result.result.discoveries.map(([agentId]: [string]) => agentId).filter((id: string) => !id.startsWith('insight-')))
+        .toEqual(['swarm-explorer-1', 'swarm-analyzer-2']);
+      expect(performanceOf(result, 'swarm-validator-3')).toMatchObject({ timeouts: 1, tasksCompleted: 1, successRate: 0 });
+      expect(performanceOf(result, 'swarm-explorer-1')).toMatchObject({ timeouts: 0 });
+    });
+
+    it('should stop early once enough agents made similar discoveries', async () => {
+      const { pool, result } = await run(slowValidator(), { maxExplorationTime: 10000, convergenceQuorum: 2 });
+
+      expect(result.metadata!.exploration).toMatchObject({ endedBy: 'converged', timedOut: [], stoppedEarly: ['swarm-validator-3'] });
+      expect(result.executionTime).toBeLessThan(2000);
+      expect(pool.scripted[2].tasks[0].signal?.aborted).toBe(true);
+      // Stopping early is not the agent's fault
+      expect(performanceOf(result, 'swarm-validator-3')).toMatchObject({ timeouts: 0, tasksCompleted: 0 });
+    });
+
+    it('should not count discoveries below the similarity threshold as converged', async () => {
+      const { result } = await run(slowValidator(), { maxExplorationTime: 100, convergenceQuorum: 2, convergenceSimilarity: 0.9 });
+
+      expect(result.metadata!.exploration).toMatchObject({ endedBy: 'time-box', timedOut: ['swarm-validator-3'] });
+    });
+
+    it('should wait for every agent when they all finish in time', async () => {
+      const { result } = await run(swarmAgents({ explore: (_task, agent) => ({ result: discoveries[agent.id] }) }), {
+        convergenceQuorum: 3
+      });
+
+      expect(result.metadata!.exploration).toMatchObject({ endedBy: 'completed', timedOut: [], stoppedEarly: [] });
+    });
+  });
+
+  describe('coordination', () => {
+    it('should propose with the insights from every evaluation of the discoveries', async () => {
+      const { pool, result } = await run(swarmAgents({ evaluation: (_task, agent) => ({ result: `insight by ${agent.id}` }) }));
+
+      expect(result.success).toBe(true);
+      // Three agents each evaluate the two discoveries of the others
+      const insights = result.result.discoveries.filter(([key]: [string]) => key.startsWith('insight-'));
+      expect(insights).toHaveLength(6);
+      for (const agent of pool.scripted) {
+        const proposal = agent.tasks.find(sent => sent.pattern === 'proposal')!;
+        expect(proposal.description).toContain('insight by agent-1');
+        expect(proposal.description).toContain('insight by agent-3');
+      }
+      // Nothing waits on a fixed delay any more
+      expect(result.executionTime).toBeLessThan(1000);
+    });
+
+    it('should cancel evaluations still running at the deadline and leave their insights out', async () => {
+      const { pool, result } = await run(swarmAgents({
+        evaluation: (scriptTask, agent) => agent.id === 'agent-3' ? untilCancelled(scriptTask) : { result: `insight by ${agent.id}` }
+      }));
+
+      expect(result.success).toBe(true);
+      const evaluations = pool.scripted[2].tasks.filter(sent => sent.pattern === 'evaluation');
+      expect(evaluations).toHaveLength(2);
+      expect(evaluations.every(sent => sent.signal?.aborted)).toBe(true);
+      expect(result.executionTime).toBeGreaterThanOrEqual(2000);
+
+      const insights = result.result.discoveries.filter(([key]: [string]) => key.startsWith('insight-'));
+      expect(insights.map(([, insight]: [string, any]) => insight.content).sort()).toEqual([
+        'insight by agent-1', 'insight by agent-1', 'insight by agent-2', 'insight by agent-2'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { countVotes, type Ballot, type VotingOptions } from '../../src/patterns/voting.js';
+import type { SwarmVotingRule } from '../../src/types/index.js';
+
+const PROPOSALS = ['p1', 'p2', 'p3'];
+
+function ballot(agentId: string, proposalId: string, support: boolean, confidence: number): Ballot {
+  return { agentId, proposalId, support, confidence };
+}
+
+/**
+ * Three voters who each vote on every proposal
+ */
+const BALLOTS: Ballot[] = [
+  ballot('a', 'p1', true, 0.9), ballot('a', 'p2', false, 0.6), ballot('a', 'p3', true, 0.3),
+  ballot('b', 'p1', true, 0.4), ballot('b', 'p2', true, 0.8), ballot('b', 'p3', false, 0.5),
+  ballot('c', 'p1', false, 0.7), ballot('c', 'p2', true, 0.9), ballot('c', 'p3', false, 0.2)
+];
+
+const OPTIONS: VotingOptions = {
+  minConsensus: 0.6,
+  approvalThreshold: 0.5,
+  voterWeight: agentId => ({ a: 1, b: 0.5, c: 0.25 } as Record<string, number>)[agentId]
+};
+
+interface RuleCase {
+  rule: SwarmVotingRule;
+  threshold?: number;
+  /** Proposal ids best first, with their score and whether they passed */
+  expected: Array<[string, number, boolean]>;
+  points?: Record<string, number>;
+}
+
+const CASES: RuleCase[] = [
+  { rule: 'threshold', threshold: 0.6, expected: [['p1', 2 / 3, true], ['p2', 2 / 3, true], ['p3', 1 / 3, false]] },
+  { rule: 'majority', threshold: 0.5, expected: [['p1', 2 / 3, true], ['p2', 2 / 3, true], ['p3', 1 / 3, false]] },
+  { rule: 'confidence-weighted', threshold: 0.6, expected: [['p2', 1.7 / 2.3, true], ['p1', 1.3 / 2, true], ['p3', 0.3, false]] },
+  { rule: 'performance-weighted', threshold: 0.6, expected: [['p1', 1.5 / 1.75, true], ['p3', 1 / 1.75, false], ['p2', 0.75 / 1.75, false]] },
+  // Only supporting votes at or above approvalThreshold count as approvals
+  { rule: 'approval', expected: [['p2', 2 / 3, true], ['p1', 1 / 3, false], ['p3', 0, false]], points: { p1: 1, p2: 2, p3: 0 } },
+  // a ranks p1 > p3 > p2, b and c rank p2 > p1 > p3: p1 and p2 tie on 7 of 9 points
+  { rule: 'borda', expected: [['p1', 7 / 9, true], ['p2', 7 / 9, true], ['p3', 4 / 9, false]], points: { p1: 7, p2: 7, p3: 4 } }
+];
+
+describe('countVotes', () => {
+  it.each(CASES)('should score and pass proposals under the $rule rule', ({ rule, threshold, expected, points }) => {
+    const tally = countVotes(rule, PROPOSALS, BALLOTS, OPTIONS);
+
+    expect(tally.rule).toBe(rule);
+    expect(tally.threshold).toBe(threshold);
+    expect(tally.voters).toBe(3);
+    expect(tally.proposals.map(entry => entry.proposalId)).toEqual(expected.map(([id]) => id));
+    tally.proposals.forEach((entry, index) => {
+      expect(entry.score).toBeCloseTo(expected[index][1]);
+      expect(entry.passed).toBe(expected[index][2]);
+      expect(entry.votes).toBe(3);
+      if (points) {
+        expect(entry.points).toBe(points[entry.proposalId]);
+      }
+    });
+  });
+
+  it('should pass every proposal tied for the top approval score', () => {
+    const tally = countVotes('approval', ['p1', 'p2'], [
+      ballot('a', 'p1', true, 0.9),
+      ballot('b', 'p2', true, 0.9)
+    ], OPTIONS);
+
+    expect(tally.proposals.map(entry => [entry.proposalId, entry.score, entry.passed])).toEqual([
+      ['p1', 0.5, true],
+      ['p2', 0.5, true]
+    ]);
+  });
+
+  it('should break equal scores by supporting votes, then by the order proposals were made', () => {
+    // Every proposal scores 0.5; p2 has two supporters, p1 and p3 one each
+    const tally = countVotes('confidence-weighted', ['p1', 'p2', 'p3'], [
+      ballot('a', 'p1', true, 0.5), ballot('b', 'p1', false, 0.5),
+      ballot('a', 'p2', true, 0.25), ballot('b', 'p2', true, 0.25), ballot('c', 'p2', false, 0.5),
+      ballot('a', 'p3', true, 0.5), ballot('b', 'p3', false, 0.5)
+    ], OPTIONS);
+
+    expect(tally.proposals.map(entry => [entry.proposalId, entry.score])).toEqual([['p2', 0.5], ['p1', 0.5], ['p3', 0.5]]);
+  });
+
+  it.each<SwarmVotingRule>(['threshold', 'majority', 'confidence-weighted', 'performance-weighted', 'approval'])(
+    'should pass nothing under the %s rule when every vote opposes',
+    (rule) => {
+      const opposed = BALLOTS.map(entry => ({ ...entry, support: false }));
+
+      const tally = countVotes(rule, PROPOSALS, opposed, OPTIONS);
+
+      expect(tally.proposals.every(entry => entry.score === 0 && !entry.passed)).toBe(true);
+    }
+  );
+
+  it('should pass nothing without ballots and reject unknown rules', () => {
+    expect(countVotes('threshold', PROPOSALS, [], { ...OPTIONS, minConsensus: 0 }).proposals.some(entry => entry.passed)).toBe(false);
+    expect(countVotes('borda', PROPOSALS, [], OPTIONS).proposals.some(entry => entry.passed)).toBe(false);
+    expect(() => countVotes('plurality' as SwarmVotingRule, PROPOSALS, BALLOTS, OPTIONS)).toThrow('Unknown voting rule: plurality');
+  });
+});
@@ -0,0 +1,2 @@
+// Keep test output readable; set LOG_LEVEL to see the orchestrator's logs
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';